@@ -2,9 +2,76 @@ import React, { useState, useRef, useEffect } from 'react';
 import { ChatMessage } from './components/ChatMessage';
 import BotSelector from './components/BotSelector';
 import KnowledgeManager from './components/KnowledgeManager';
-import { Message, ActionType, Bot, KnowledgeItem } from './types';
+import SessionList from './components/SessionList';
+import BotEditor from './components/BotEditor';
+import BotAvatar from './components/BotAvatar';
+import AdminLogin from './components/AdminLogin';
+import KnowledgePackDialog from './components/KnowledgePackDialog';
+import TranscriptMenu from './components/TranscriptMenu';
+import FeedbackDashboard from './components/FeedbackDashboard';
+import EscalationDialog from './components/EscalationDialog';
+import CaseQueue from './components/CaseQueue';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import QuizView from './components/QuizView';
+import QuizResults from './components/QuizResults';
+import FaqPanel from './components/FaqPanel';
+import StarterQuestions from './components/StarterQuestions';
+import { useI18n } from './components/I18nProvider';
+import { Message, ActionType, Bot, KnowledgeItem, Citation, GeneratedAnswer, ChatSession, Role, Feedback, FeedbackRating, HrCase, EmployeeContact, CaseCategory, Quiz, QuizResult, Faq, FaqEntry } from './types';
 import * as geminiService from './services/geminiService';
-import { bots } from './assets/bots';
+import * as storageService from './services/storageService';
+import { createSessionTitle } from './services/conversationService';
+import { loadBotConfig, mergeBots, exportBotConfig, createBotId } from './services/botRegistry';
+import { PasscodeRecord, loadLocalPasscode, loadRole, saveRole } from './services/authService';
+import { TranscriptFormat, createTranscript, transcriptToHtml, transcriptToJson, transcriptToMarkdown } from './services/transcriptService';
+import { createCaseSink, loadCaseSinkConfig } from './services/caseSink';
+import { ContextOverflowError } from './services/contextBudget';
+import { getAction } from './services/actionRegistry';
+import { STARTER_QUESTION_COUNT, visibleFaqEntries } from './services/faqService';
+import { KnowledgeImportPlan, KnowledgePack, KnowledgePackError, createKnowledgePack, parseKnowledgePack } from './services/knowledgePackService';
+import { LOCALES, Translate } from './services/i18n';
+
+// How long the knowledge base must stay unchanged before its FAQ is regenerated, so that a batch of uploads triggers a single job.
+const FAQ_REGENERATION_DELAY_MS = 2000;
+
+// Where escalated cases are sent besides the local queue, as configured at build time.
+const caseSink = createCaseSink(loadCaseSinkConfig({
+  CASE_SINK: process.env.CASE_SINK,
+  CASE_EMAIL_TO: process.env.CASE_EMAIL_TO,
+  CASE_WEBHOOK_URL: process.env.CASE_WEBHOOK_URL,
+}));
+
+/**
+ * Makes the browser download a file.
+ * @param {string} content The content of the file.
+ * @param {string} fileName The name of the file.
+ * @param {string} type The MIME type of the file.
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Creates the message that opens a new conversation with a bot.
+ * The bot's own welcome message is used when it has one. Only HR is asked to add documents to an empty memory.
+ * @param {Bot} bot The selected bot.
+ * @param {number} knowledgeCount The number of items in the bot's memory.
+ * @param {Role} role The role of the user.
+ * @param {Translate} t The translation function of the interface language.
+ * @returns {Message} The welcome message.
+ */
+const createWelcomeMessage = (bot: Bot, knowledgeCount: number, role: Role, t: Translate): Message => {
+  let text = t(knowledgeCount === 1 ? 'welcome.withDocuments.one' : 'welcome.withDocuments.other', { bot: bot.name, count: knowledgeCount });
+  if (knowledgeCount === 0) {
+    text = t(role === 'admin' ? 'welcome.emptyAdmin' : 'welcome.emptyEmployee', { bot: bot.name });
+  }
+  return { id: crypto.randomUUID(), role: 'model', text: bot.welcomeMessage || text };
+};
 
 /**
  * The main component of the application that orchestrates the entire chat interface.
@@ -13,8 +80,50 @@ import { bots } from './assets/bots';
  * @returns {React.ReactElement} The rendered component.
  */
 const App: React.FC = () => {
-  // State for the current view of the application ('selecting' or 'chatting')
-  const [appState, setAppState] = useState<'selecting' | 'chatting'>('selecting');
+  // The interface language and its translation function
+  const { locale, t } = useI18n();
+  // State for the current view of the application ('selecting', 'chatting' or 'quiz')
+  const [appState, setAppState] = useState<'selecting' | 'chatting' | 'quiz'>('selecting');
+  // State for the bots that can be selected: the configured bots merged with the ones saved from the editor
+  const [bots, setBots] = useState<Bot[]>([]);
+  // State for the bots of the configuration file, before any change made in the editor
+  const [configuredBots, setConfiguredBots] = useState<Bot[]>([]);
+  // State for a problem loading the bots, if any
+  const [botsError, setBotsError] = useState<string | null>(null);
+  // State for the bot open in the bot editor, if any
+  const [editingBot, setEditingBot] = useState<{ bot: Bot; isNew: boolean } | null>(null);
+  // State for the role of the user: HR can curate the knowledge and the bots, employees only chat
+  const [role, setRole] = useState<Role>(loadRole);
+  // State for the hash of the configured HR passcode, if the configuration file defines one
+  const [configuredPasscode, setConfiguredPasscode] = useState<PasscodeRecord | null>(null);
+  // State to show or hide the HR passcode dialog
+  const [showAdminLogin, setShowAdminLogin] = useState(false);
+  // State for the feedback given on the selected bot's answers
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  // State to show or hide the feedback dashboard
+  const [showFeedbackDashboard, setShowFeedbackDashboard] = useState(false);
+  // State for the statistics of the selected bot's answer cache, shown in the feedback dashboard
+  const [cacheStats, setCacheStats] = useState<geminiService.AnswerCacheStats | null>(null);
+  // State for the HR cases escalated from the selected bot's conversations
+  const [cases, setCases] = useState<HrCase[]>([]);
+  // State for the answer being escalated to HR, while the employee fills in the escalation form
+  const [escalatingMessage, setEscalatingMessage] = useState<Message | null>(null);
+  // State to show or hide the HR case queue
+  const [showCaseQueue, setShowCaseQueue] = useState(false);
+  // State for the training quiz results of the selected bot's employees
+  const [quizResults, setQuizResults] = useState<QuizResult[]>([]);
+  // State to show or hide the quiz results for HR review
+  const [showQuizResults, setShowQuizResults] = useState(false);
+  // State for the FAQ generated from the selected bot's knowledge base
+  const [faq, setFaq] = useState<Faq | null>(null);
+  // State to track whether the selected bot's FAQ is being generated
+  const [isGeneratingFaq, setIsGeneratingFaq] = useState(false);
+  // State for the error of the last FAQ generation, if it failed
+  const [faqError, setFaqError] = useState<string | null>(null);
+  // State to control the visibility of the FAQ panel
+  const [showFaq, setShowFaq] = useState(false);
+  // State for the knowledge pack waiting to be imported, if any
+  const [pendingPack, setPendingPack] = useState<KnowledgePack | null>(null);
   // State for the currently selected bot
   const [selectedBot, setSelectedBot] = useState<Bot | null>(null);
   // State for the collection of knowledge items (documents, images)
@@ -27,10 +136,56 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   // State to store any error messages
   const [error, setError] = useState<string | null>(null);
+  // State for the citation whose passage is open in the knowledge sidebar
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  // State for the ID of the model message that is currently being streamed
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // State for the storage used by the saved knowledge, as reported by the browser
+  const [storageEstimate, setStorageEstimate] = useState<storageService.StorageEstimate | null>(null);
+  // State for the saved chat sessions of the selected bot
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // State for the ID of the session that is open in the chat
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // State to show or hide the session list panel
+  const [showSessions, setShowSessions] = useState(false);
+
+  // Ref to the controller used to cancel the response that is being streamed
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Ref to the end of the chat history, used for auto-scrolling
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Ref to the number of the latest bot selection, so that the memory loaded for an earlier selection is ignored
+  const botSelectionRef = useRef(0);
+
+  /**
+   * Effect to load the bots once: the configuration file, and the bots saved from the bot editor.
+   * If one of the two cannot be loaded, the other is still shown.
+   */
+  useEffect(() => {
+    Promise.allSettled([loadBotConfig(), storageService.loadBots()]).then(([configured, saved]) => {
+      const configuredList = configured.status === 'fulfilled' ? configured.value.bots : [];
+      const savedList = saved.status === 'fulfilled' ? saved.value : [];
+      setConfiguredBots(configuredList);
+      setConfiguredPasscode(configured.status === 'fulfilled' ? configured.value.admin ?? null : null);
+      setBots(mergeBots(configuredList, savedList));
+      if (configured.status === 'rejected') {
+        console.error(configured.reason);
+        setBotsError(configured.reason instanceof Error ? configured.reason.message : t('error.botConfig'));
+      } else if (saved.status === 'rejected') {
+        console.error(saved.reason);
+        setBotsError(t('error.savedBots'));
+      }
+    });
+  }, []);
+
+  /**
+   * Effect to tell the assistant which language to fall back to when a question's language is unclear.
+   */
+  useEffect(() => {
+    geminiService.setAnswerLanguage(LOCALES[locale].languageName);
+  }, [locale]);
+
   /**
    * Effect to automatically scroll to the latest message in the chat history.
    * This runs whenever the chat history or the loading state changes.
@@ -39,61 +194,540 @@ const App: React.FC = () => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory, isLoading]);
 
+  /**
+   * Effect to save the open conversation whenever its messages change.
+   * A conversation is only saved once it has a question, and not while a response is still streaming.
+   */
+  useEffect(() => {
+    if (!selectedBot || !currentSessionId || streamingMessageId) return;
+    const firstQuestion = chatHistory.find((m) => m.role === 'user');
+    if (!firstQuestion) return;
+    const existing = sessions.find((s) => s.id === currentSessionId);
+    if (existing?.messages === chatHistory) return;
+
+    const session: ChatSession = {
+      id: currentSessionId,
+      botId: selectedBot.id,
+      title: existing?.title || createSessionTitle(firstQuestion.text),
+      createdAt: existing?.createdAt || Date.now(),
+      updatedAt: Date.now(),
+      messages: chatHistory,
+    };
+    setSessions((prev) => [session, ...prev.filter((s) => s.id !== session.id)]);
+    storageService.saveSession(session).catch((err) => console.error('Error saving session:', err));
+  }, [chatHistory, streamingMessageId]);
+
+  /**
+   * Effect to regenerate the selected bot's FAQ when its knowledge base or the answer language changes.
+   * It waits for the knowledge base to settle, and a result that arrives after another change is discarded.
+   */
+  useEffect(() => {
+    if (appState === 'selecting' || !selectedBot || knowledgeBase.length === 0) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      if (await geminiService.isFaqCurrent(faq, selectedBot, knowledgeBase) || cancelled) return;
+      setIsGeneratingFaq(true);
+      setFaqError(null);
+      try {
+        const generated = await geminiService.generateFaq(knowledgeBase, selectedBot, faq);
+        if (cancelled) return;
+        setFaq(generated);
+        await storageService.saveFaq(generated);
+      } catch (err) {
+        if (!cancelled) setFaqError(err instanceof ContextOverflowError ? t('faq.tooLong') : t('faq.error'));
+        console.error('Error generating the FAQ:', err);
+      } finally {
+        if (!cancelled) setIsGeneratingFaq(false);
+      }
+    }, FAQ_REGENERATION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsGeneratingFaq(false);
+    };
+  }, [appState, selectedBot, knowledgeBase, faq, locale]);
+
+  /**
+   * Refreshes the storage usage reported in the knowledge sidebar.
+   */
+  const refreshStorageEstimate = () => {
+    storageService.getStorageEstimate()
+      .then(setStorageEstimate)
+      .catch((err) => console.error('Error reading storage estimate:', err));
+  };
+
+  /**
+   * Changes the role of the user for the rest of the tab's life.
+   * Leaving admin mode closes the bot editor.
+   * @param {Role} newRole The new role.
+   */
+  const changeRole = (newRole: Role) => {
+    setRole(newRole);
+    saveRole(newRole);
+    setShowAdminLogin(false);
+    if (newRole === 'employee') {
+      setEditingBot(null);
+      setShowFeedbackDashboard(false);
+      setShowCaseQueue(false);
+      setShowQuizResults(false);
+    }
+  };
+
+  /**
+   * Leaves admin mode, or asks for the HR passcode to enter it.
+   */
+  const handleToggleAdmin = () => {
+    if (role === 'admin') {
+      changeRole('employee');
+    } else {
+      setShowAdminLogin(true);
+    }
+  };
+
+  /**
+   * Starts a new, unsaved conversation with a welcome message.
+   * @param {Bot} bot The selected bot.
+   * @param {number} knowledgeCount The number of items in the bot's memory.
+   */
+  const startNewSession = (bot: Bot, knowledgeCount: number) => {
+    setCurrentSessionId(crypto.randomUUID());
+    setChatHistory([createWelcomeMessage(bot, knowledgeCount, role, t)]);
+    setActiveCitation(null);
+    setError(null);
+  };
+
   /**
    * Handles the selection of a bot from the BotSelector component.
-   * It sets the selected bot, changes the app state to 'chatting', and initializes the chat with a welcome message.
+   * It sets the selected bot, loads its saved knowledge base and conversations, changes the app state
+   * to 'chatting', and starts a new conversation with a welcome message. If another bot is selected
+   * while the memory is loading, the memory of this one is ignored.
    * @param {Bot} bot The bot object that was selected by the user.
    */
-  const handleBotSelect = (bot: Bot) => {
+  const handleBotSelect = async (bot: Bot) => {
+    const selection = ++botSelectionRef.current;
     setSelectedBot(bot);
+    setKnowledgeBase([]);
+    setSessions([]);
+    setFeedback([]);
+    setCases([]);
+    setQuizResults([]);
+    setFaq(null);
+    setFaqError(null);
+    setCurrentSessionId(null);
+    setChatHistory([]);
+    setError(null);
     setAppState('chatting');
-    setChatHistory([
-      {
-        id: crypto.randomUUID(),
-        role: 'model',
-        text: `¡Hola! Soy ${bot.name}, tu asistente de RRHH. Para empezar, añade documentos, PDFs o imágenes a mi memoria usando el panel de la izquierda. Luego, hazme cualquier pregunta.`,
-      },
-    ]);
+
+    let savedKnowledge: KnowledgeItem[] = [];
+    let loadFailed = false;
+    try {
+      const [loadedKnowledge, loadedSessions, loadedFeedback, loadedCases, loadedQuizResults, loadedFaq] = await Promise.all([
+        storageService.loadKnowledge(bot.id),
+        storageService.loadSessions(bot.id),
+        storageService.loadFeedback(bot.id),
+        storageService.loadCases(bot.id),
+        storageService.loadQuizResults(bot.id),
+        storageService.loadFaq(bot.id),
+      ]);
+      if (selection !== botSelectionRef.current) return;
+      savedKnowledge = loadedKnowledge;
+      setKnowledgeBase(loadedKnowledge);
+      setSessions(loadedSessions);
+      setFeedback(loadedFeedback);
+      setCases(loadedCases);
+      setQuizResults(loadedQuizResults);
+      setFaq(loadedFaq);
+    } catch (err) {
+      if (selection !== botSelectionRef.current) return;
+      loadFailed = true;
+      console.error(err);
+    }
+    refreshStorageEstimate();
+    startNewSession(bot, savedKnowledge.length);
+    if (loadFailed) {
+      setError(t('error.loadMemory'));
+    }
+  };
+
+  /**
+   * Opens the bot editor for a new bot with default colors.
+   */
+  const handleCreateBot = () => {
+    setEditingBot({
+      bot: { id: '', name: '', image: '', themeColor: '#3B82F6', darkThemeColor: '#2563EB' },
+      isNew: true,
+    });
+  };
+
+  /**
+   * Saves a bot from the bot editor. New bots get an ID from their name.
+   * @param {Bot} bot The edited bot.
+   */
+  const handleSaveBot = (bot: Bot) => {
+    const saved = bot.id ? bot : { ...bot, id: createBotId(bot.name, bots) };
+    setBots((prev) => (prev.some((b) => b.id === saved.id) ? prev.map((b) => (b.id === saved.id ? saved : b)) : [...prev, saved]));
+    setEditingBot(null);
+    storageService.saveBot(saved).catch((err) => {
+      setBotsError(t('error.saveBot', { bot: saved.name }));
+      console.error(err);
+    });
+  };
+
+  /**
+   * Deletes a bot created in the editor, or resets a configured bot to its configured values.
+   * @param {Bot} bot The bot.
+   */
+  const handleDeleteBot = (bot: Bot) => {
+    const configured = configuredBots.find((b) => b.id === bot.id);
+    setBots((prev) => (configured ? prev.map((b) => (b.id === bot.id ? configured : b)) : prev.filter((b) => b.id !== bot.id)));
+    setEditingBot(null);
+    storageService.deleteBot(bot.id).catch((err) => console.error('Error deleting bot:', err));
+  };
+
+  /**
+   * Downloads the current bots as a configuration file, ready to replace `public/bots.json`.
+   */
+  const handleExportBots = () => {
+    downloadFile(exportBotConfig(bots, configuredPasscode ?? undefined), 'bots.json', 'application/json');
+  };
+
+  /**
+   * Resumes a saved conversation.
+   * @param {ChatSession} session The session to resume.
+   */
+  const handleResumeSession = (session: ChatSession) => {
+    setCurrentSessionId(session.id);
+    setChatHistory(session.messages);
+    setActiveCitation(null);
+    setError(null);
+  };
+
+  /**
+   * Renames a saved conversation.
+   * @param {string} sessionId The ID of the session.
+   * @param {string} title The new title.
+   */
+  const handleRenameSession = (sessionId: string, title: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    const renamed = { ...session, title };
+    setSessions((prev) => prev.map((s) => (s.id === sessionId ? renamed : s)));
+    storageService.saveSession(renamed).catch((err) => console.error('Error saving session:', err));
+  };
+
+  /**
+   * Deletes a saved conversation, starting a new one if it was open.
+   * @param {string} sessionId The ID of the session.
+   */
+  const handleDeleteSession = (sessionId: string) => {
+    setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    storageService.deleteSession(sessionId).catch((err) => console.error('Error deleting session:', err));
+    if (sessionId === currentSessionId && selectedBot) {
+      startNewSession(selectedBot, knowledgeBase.length);
+    }
+  };
+
+  /**
+   * Exports the open conversation, with the bot name, the date and the documents in the bot's memory.
+   * Markdown and JSON are downloaded; the HTML view opens in a new tab, ready to print or save as PDF.
+   * @param {TranscriptFormat} format The format to export to.
+   */
+  const handleExportTranscript = (format: TranscriptFormat) => {
+    if (!selectedBot) return;
+    const session = sessions.find((s) => s.id === currentSessionId);
+    const firstQuestion = chatHistory.find((m) => m.role === 'user');
+    const title = session?.title || (firstQuestion ? createSessionTitle(firstQuestion.text) : t('app.defaultTranscriptTitle'));
+    const transcript = createTranscript(selectedBot, title, chatHistory, knowledgeBase, session?.createdAt);
+    const fileName = `conversacion-${selectedBot.id}-${transcript.exportedAt.slice(0, 10)}`;
+
+    if (format === 'markdown') {
+      downloadFile(transcriptToMarkdown(transcript), `${fileName}.md`, 'text/markdown');
+    } else if (format === 'json') {
+      downloadFile(transcriptToJson(transcript), `${fileName}.json`, 'application/json');
+    } else {
+      const url = URL.createObjectURL(new Blob([transcriptToHtml(transcript)], { type: 'text/html' }));
+      window.open(url, '_blank');
+      // The new tab needs the URL until it has loaded the page.
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    }
+  };
+
+  /**
+   * Rates an answer. The rating is kept on the message and saved, with the question, the answer and
+   * the documents in memory, for HR to review in the feedback dashboard.
+   * @param {Message} message The rated answer.
+   * @param {FeedbackRating} rating Whether the answer was useful.
+   * @param {string} [comment] What was wrong or missing.
+   */
+  const handleFeedback = (message: Message, rating: FeedbackRating, comment?: string) => {
+    if (!selectedBot || !currentSessionId) return;
+    const messageFeedback = { rating, ...(comment && { comment }) };
+    setChatHistory((prev) => prev.map((m) => (m.id === message.id ? { ...m, feedback: messageFeedback } : m)));
+
+    const entry: Feedback = {
+      id: message.id,
+      botId: selectedBot.id,
+      sessionId: currentSessionId,
+      ...messageFeedback,
+      question: chatHistory.find((m) => m.id === message.relatedQuestionId)?.text || '',
+      answer: message.text,
+      ...(message.citations?.length && { citations: message.citations }),
+      knowledgeSnapshot: knowledgeBase.map((item) => item.name),
+      createdAt: Date.now(),
+    };
+    setFeedback((prev) => [entry, ...prev.filter((f) => f.id !== entry.id)]);
+    storageService.saveFeedback(entry).catch((err) => console.error('Error saving feedback:', err));
+  };
+
+  /**
+   * Removes feedback that HR has reviewed.
+   * @param {string} feedbackId The ID of the feedback.
+   */
+  const handleDismissFeedback = (feedbackId: string) => {
+    setFeedback((prev) => prev.filter((f) => f.id !== feedbackId));
+    storageService.deleteFeedback(feedbackId).catch((err) => console.error('Error deleting feedback:', err));
+  };
+
+  /**
+   * Creates an HR case from the answer being escalated, with the conversation up to that answer, and
+   * sends it to the configured sink. The case is always kept in the local queue, so a failed delivery is not lost.
+   * @param {EmployeeContact} contact How to reach the employee.
+   * @param {CaseCategory} category The topic of the case.
+   * @param {string} [note] Extra details written by the employee.
+   */
+  const handleEscalate = (contact: EmployeeContact, category: CaseCategory, note?: string) => {
+    const message = escalatingMessage;
+    setEscalatingMessage(null);
+    if (!selectedBot || !currentSessionId || !message) return;
+    const question = chatHistory.find((m) => m.id === message.relatedQuestionId);
+    const hrCase: HrCase = {
+      id: crypto.randomUUID(),
+      botId: selectedBot.id,
+      sessionId: currentSessionId,
+      category,
+      contact,
+      question: question?.text || '',
+      ...(note && { note }),
+      context: chatHistory
+        .slice(0, chatHistory.indexOf(message) + 1)
+        .filter((m) => m.text && !m.caseId)
+        .map(({ role, text }) => ({ role, text })),
+      status: 'open',
+      createdAt: Date.now(),
+    };
+    setCases((prev) => [hrCase, ...prev]);
+    setChatHistory((prev) => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'model',
+      text: t('case.sent', { id: hrCase.id.slice(0, 8), email: contact.email }),
+      caseId: hrCase.id,
+    }]);
+    storageService.saveCase(hrCase).catch((err) => console.error('Error saving case:', err));
+    caseSink.deliver(hrCase).catch((err) => {
+      setError(t('error.deliverCase'));
+      console.error(err);
+    });
+  };
+
+  /**
+   * Answers an HR case and adds the answer to the conversation it was escalated from.
+   * @param {HrCase} hrCase The case.
+   * @param {string} answer HR's answer.
+   */
+  const handleAnswerCase = (hrCase: HrCase, answer: string) => {
+    const answered: HrCase = { ...hrCase, status: 'answered', answer, answeredAt: Date.now() };
+    setCases((prev) => prev.map((c) => (c.id === answered.id ? answered : c)));
+    storageService.saveCase(answered).catch((err) => console.error('Error saving case:', err));
+
+    const answerMessage: Message = { id: crypto.randomUUID(), role: 'model', text: t('case.answer', { answer }), caseId: hrCase.id };
+    if (hrCase.sessionId === currentSessionId) {
+      setChatHistory((prev) => [...prev, answerMessage]);
+      return;
+    }
+    const session = sessions.find((s) => s.id === hrCase.sessionId);
+    if (!session) return;
+    const updated = { ...session, messages: [...session.messages, answerMessage], updatedAt: Date.now() };
+    setSessions((prev) => [updated, ...prev.filter((s) => s.id !== updated.id)]);
+    storageService.saveSession(updated).catch((err) => console.error('Error saving session:', err));
+  };
+
+  /**
+   * Returns to the bot selection screen, stopping any response that is still being streamed.
+   */
+  const handleChangeBot = () => {
+    abortControllerRef.current?.abort();
+    setAppState('selecting');
   };
 
   /**
-   * Adds a new knowledge item to the knowledge base.
+   * Adds a new knowledge item to the knowledge base and saves it in the selected bot's memory.
    * @param {KnowledgeItem} item The knowledge item to add.
    */
   const handleAddKnowledge = (item: KnowledgeItem) => {
     setKnowledgeBase((prev) => [...prev, item]);
+    if (!selectedBot) return;
+    geminiService.invalidateCache(selectedBot.id);
+    storageService.saveKnowledgeItem(selectedBot.id, item)
+      .then(refreshStorageEstimate)
+      .catch((err) => {
+        setError(t('error.saveKnowledge', { name: item.name }));
+        console.error(err);
+      });
   };
 
   /**
-   * Handles the submission of a new message by the user.
-   * It sends the user's message to the Gemini API and updates the chat history with the response.
-   * @param {React.FormEvent} e The form event.
+   * Replaces a knowledge item (e.g. after renaming it or uploading a new version) and saves it in the selected bot's memory.
+   * @param {KnowledgeItem} item The updated knowledge item, with the same ID as the one it replaces.
    */
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!userInput.trim() || isLoading || !selectedBot) return;
+  const handleUpdateKnowledge = (item: KnowledgeItem) => {
+    geminiService.forgetKnowledge(knowledgeBase.filter((existing) => existing.id === item.id));
+    setKnowledgeBase((prev) => prev.map((existing) => (existing.id === item.id ? item : existing)));
+    if (!selectedBot) return;
+    geminiService.invalidateCache(selectedBot.id);
+    storageService.saveKnowledgeItem(selectedBot.id, item)
+      .then(refreshStorageEstimate)
+      .catch((err) => {
+        setError(t('error.saveKnowledge', { name: item.name }));
+        console.error(err);
+      });
+  };
+
+  /**
+   * Removes knowledge items from the knowledge base and from the selected bot's memory.
+   * @param {string[]} itemIds The IDs of the knowledge items to remove.
+   */
+  const handleRemoveKnowledge = (itemIds: string[]) => {
+    geminiService.forgetKnowledge(knowledgeBase.filter((item) => itemIds.includes(item.id)));
+    setKnowledgeBase((prev) => prev.filter((item) => !itemIds.includes(item.id)));
+    if (selectedBot) geminiService.invalidateCache(selectedBot.id);
+    Promise.all(itemIds.map((id) => storageService.deleteKnowledgeItem(id)))
+      .then(refreshStorageEstimate)
+      .catch((err) => {
+        setError(t('error.removeKnowledge'));
+        console.error(err);
+      });
+  };
+
+  /**
+   * Downloads the selected bot and its knowledge base as a knowledge pack, to import them on another machine.
+   */
+  const handleExportPack = () => {
+    if (!selectedBot) return;
+    createKnowledgePack(selectedBot, knowledgeBase)
+      .then((pack) => downloadFile(pack, `${selectedBot.id}-conocimiento.json`, 'application/json'))
+      .catch((err) => {
+        setError(t('error.exportPack'));
+        console.error(err);
+      });
+  };
+
+  /**
+   * Reads and validates a knowledge pack file, then asks how to import it.
+   * @param {File} file The knowledge pack file.
+   */
+  const handleImportPackFile = async (file: File) => {
+    setError(null);
+    try {
+      setPendingPack(await parseKnowledgePack(await file.text()));
+    } catch (err) {
+      setError(err instanceof KnowledgePackError ? err.message : t('error.readFile', { name: file.name }));
+      console.error(err);
+    }
+  };
+
+  /**
+   * Imports the pending knowledge pack into the selected bot's memory. The bot configuration of the pack
+   * is applied to the selected bot, keeping its ID, when asked to.
+   * @param {KnowledgeImportPlan} plan The items to add and remove.
+   * @param {boolean} applyBotConfig Whether to apply the bot configuration of the pack.
+   */
+  const handleImportPack = (plan: KnowledgeImportPlan, applyBotConfig: boolean) => {
+    if (!selectedBot || !pendingPack) return;
+    if (applyBotConfig) {
+      const updatedBot = { ...pendingPack.bot, id: selectedBot.id };
+      setSelectedBot(updatedBot);
+      handleSaveBot(updatedBot);
+    }
+    setPendingPack(null);
+    setKnowledgeBase((prev) => [...prev.filter((item) => !plan.toRemove.includes(item.id)), ...plan.toAdd]);
+    const botId = selectedBot.id;
+    geminiService.invalidateCache(botId);
+    Promise.all(plan.toRemove.map((id) => storageService.deleteKnowledgeItem(id)))
+      .then(() => Promise.all(plan.toAdd.map((item) => storageService.saveKnowledgeItem(botId, item))))
+      .then(refreshStorageEstimate)
+      .catch((err) => {
+        setError(t('error.savePack'));
+        console.error(err);
+      });
+  };
+
+  /**
+   * Streams a model response into a new message of the chat history, updating its text as tokens arrive.
+   * If the stream is stopped, the partial text is kept; a message that never received any text is removed.
+   * @param {(signal: AbortSignal) => AsyncGenerator<GeneratedAnswer>} createStream Starts the stream with the given abort signal.
+   * @param {string} relatedQuestionId The ID of the user's message to which the response belongs.
+   * @param {ActionType} [actionId] The action that produced the response, if any.
+   */
+  const streamIntoMessage = async (createStream: (signal: AbortSignal) => AsyncGenerator<GeneratedAnswer>, relatedQuestionId: string, actionId?: ActionType) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const messageId = crypto.randomUUID();
+    let receivedText = '';
+    setStreamingMessageId(messageId);
+    setChatHistory((prev) => [...prev, { id: messageId, role: 'model', text: '', relatedQuestionId, actionId }]);
+
+    try {
+      for await (const answer of createStream(controller.signal)) {
+        receivedText = answer.text;
+        setChatHistory((prev) => prev.map((m) => m.id === messageId
+          ? {
+            ...m, text: answer.text, sourceChunks: answer.chunks, citations: answer.citations, omittedItems: answer.omittedItems,
+            grounded: answer.grounded, confidence: answer.confidence, followUps: answer.followUps,
+          }
+          : m));
+      }
+    } finally {
+      if (!receivedText) {
+        setChatHistory((prev) => prev.filter((m) => m.id !== messageId));
+      }
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+    }
+  };
+
+  /**
+   * Stops the response that is currently being streamed, keeping the text received so far.
+   */
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Sends a question of the user to the Gemini API and streams the response into the chat history.
+   * @param {string} question The question.
+   */
+  const sendQuestion = async (question: string) => {
+    if (!question.trim() || isLoading || !selectedBot) return;
     if (knowledgeBase.length === 0) {
-        setError("Por favor, añade al menos un documento o imagen a la memoria antes de preguntar.");
+        setError(role === 'admin'
+          ? t('error.emptyMemoryAdmin')
+          : t('error.emptyMemoryEmployee'));
         return;
     }
 
-    const userMessage: Message = { id: crypto.randomUUID(), role: 'user', text: userInput };
+    const userMessage: Message = { id: crypto.randomUUID(), role: 'user', text: question };
     setChatHistory((prev) => [...prev, userMessage]);
     setUserInput('');
     setIsLoading(true);
     setError(null);
 
     try {
-      const responseText = await geminiService.getAnswer(knowledgeBase, userInput, selectedBot.name);
-      const modelMessage: Message = {
-        id: crypto.randomUUID(),
-        role: 'model',
-        text: responseText,
-        relatedQuestionId: userMessage.id,
-      };
-      setChatHistory((prev) => [...prev, modelMessage]);
+      await streamIntoMessage(
+        (signal) => geminiService.streamAnswer(knowledgeBase, question, selectedBot, chatHistory, signal),
+        userMessage.id,
+      );
     } catch (err) {
-      setError('Hubo un error al contactar al asistente. Por favor, intenta de nuevo.');
+      setError(err instanceof ContextOverflowError ? t('error.contextOverflow') : t('error.answer'));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -101,75 +735,290 @@ const App: React.FC = () => {
   };
   
   /**
-   * Handles follow-up actions triggered by the user from a chat message (e.g., explain, example, image).
-   * It calls the appropriate Gemini API service based on the action and updates the chat history.
-   * @param {ActionType} action The type of action to perform.
+   * Handles the submission of a new message by the user.
+   * @param {React.FormEvent} e The form event.
+   */
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendQuestion(userInput);
+  };
+
+  /**
+   * Handles follow-up actions triggered by the user from a chat message (e.g., explain, summarize, image).
+   * Prompt actions of the action registry are streamed; image generation is added once the image is ready.
+   * @param {ActionType} actionId The ID of the action to perform.
    * @param {Message} message The message on which the action is being performed.
+   * @param {string} [argument] The value the user gave for the action's argument, if it has one.
    */
-  const handleAction = async (action: ActionType, message: Message) => {
-    if (!selectedBot) return;
+  const handleAction = async (actionId: ActionType, message: Message, argument?: string) => {
+    const action = getAction(actionId);
+    if (!selectedBot || !action) return;
+    if (action.kind === 'escalate') {
+      if (message.relatedQuestionId) setEscalatingMessage(message);
+      else setError(t('error.escalateWithoutQuestion'));
+      return;
+    }
     setIsLoading(true);
     setError(null);
 
     const relatedUserMessage = chatHistory.find(m => m.id === message.relatedQuestionId && m.role === 'user');
     if (!relatedUserMessage) {
-        setError("No se pudo encontrar la pregunta original para esta acción.");
+        setError(t('error.missingQuestion'));
         setIsLoading(false);
         return;
     }
     const originalQuestion = relatedUserMessage.text;
+    // Only the turns before the original question are sent, so the action is answered in the context of that turn.
+    const previousHistory = chatHistory.slice(0, chatHistory.indexOf(relatedUserMessage));
 
     try {
-        let response: Partial<Message> = {};
-        if (action === 'explain') {
-            response.text = await geminiService.reExplain(knowledgeBase, originalQuestion, message.text, selectedBot.name);
-        } else if (action === 'example') {
-            response.text = await geminiService.getExample(knowledgeBase, originalQuestion, message.text, selectedBot.name);
-        } else if (action === 'image') {
-            response.text = 'Aquí tienes una representación visual del concepto:';
-            response.imageUrl = await geminiService.generateImageForConcept(originalQuestion, message.text);
+        if (action.kind === 'prompt') {
+            await streamIntoMessage(
+                (signal) => geminiService.streamAction(action.id, knowledgeBase, originalQuestion, message.text, selectedBot, previousHistory, argument, signal),
+                relatedUserMessage.id,
+                action.id,
+            );
+        } else if (action.kind === 'image') {
+            const imageUrl = await geminiService.generateImageForConcept(originalQuestion, message.text, selectedBot, knowledgeBase);
+            const modelMessage: Message = {
+                id: crypto.randomUUID(), role: 'model', text: t('chat.imageIntro'),
+                imageUrl, relatedQuestionId: relatedUserMessage.id,
+            };
+            setChatHistory((prev) => [...prev, modelMessage]);
         }
-
-        const modelMessage: Message = {
-            id: crypto.randomUUID(), role: 'model', text: response.text || '',
-            imageUrl: response.imageUrl, relatedQuestionId: relatedUserMessage.id,
-        };
-        setChatHistory((prev) => [...prev, modelMessage]);
     } catch (err) {
-      setError('Hubo un error al procesar la acción. Por favor, intenta de nuevo.');
+      setError(err instanceof ContextOverflowError ? t('error.contextOverflow') : t('error.action'));
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Generates a training quiz from some documents of the selected bot.
+   * @param {KnowledgeItem[]} items The documents the quiz is about.
+   * @param {number} count The number of questions.
+   * @returns {Promise<Quiz>} The quiz.
+   */
+  const handleGenerateQuiz = (items: KnowledgeItem[], count: number): Promise<Quiz> => {
+    return geminiService.generateQuiz(items, selectedBot!, count);
+  };
+
+  /**
+   * Saves an employee's quiz result for HR review.
+   * @param {QuizResult} result The result.
+   */
+  const handleQuizComplete = async (result: QuizResult) => {
+    await storageService.saveQuizResult(result);
+    setQuizResults((prev) => [result, ...prev]);
+  };
+
+  /**
+   * Applies an HR change to an entry of the selected bot's FAQ and saves the FAQ.
+   * @param {string} entryId The ID of the entry.
+   * @param {(entry: FaqEntry) => FaqEntry} change The change to apply.
+   */
+  const updateFaqEntry = (entryId: string, change: (entry: FaqEntry) => FaqEntry) => {
+    if (!faq) return;
+    const updated: Faq = { ...faq, entries: faq.entries.map((entry) => (entry.id === entryId ? change(entry) : entry)) };
+    setFaq(updated);
+    storageService.saveFaq(updated).catch((err) => console.error('Error saving the FAQ:', err));
+  };
+
+  /**
+   * Pins an entry of the FAQ to the top, so that it is kept when the FAQ is regenerated, or unpins it.
+   * @param {string} entryId The ID of the entry.
+   */
+  const handleToggleFaqPin = (entryId: string) => {
+    updateFaqEntry(entryId, (entry) => ({ ...entry, pinned: !entry.pinned }));
+  };
+
+  /**
+   * Hides an entry of the FAQ from employees, or shows it again.
+   * @param {string} entryId The ID of the entry.
+   */
+  const handleToggleFaqHidden = (entryId: string) => {
+    updateFaqEntry(entryId, (entry) => ({ ...entry, hidden: !entry.hidden }));
+  };
+
+  /**
+   * Opens the feedback dashboard and loads the statistics of the selected bot's answer cache.
+   */
+  const openFeedbackDashboard = () => {
+    if (!selectedBot) return;
+    setCacheStats(null);
+    setShowFeedbackDashboard(true);
+    geminiService.getCacheStats(selectedBot.id)
+      .then(setCacheStats)
+      .catch((err) => console.error('Error reading the answer cache statistics:', err));
+  };
+
+  /**
+   * Empties the selected bot's answer cache and resets its statistics.
+   */
+  const handleClearCache = () => {
+    if (!selectedBot) return;
+    geminiService.clearCache(selectedBot.id)
+      .then(() => geminiService.getCacheStats(selectedBot.id))
+      .then(setCacheStats)
+      .catch((err) => console.error('Error clearing the answer cache:', err));
+  };
+
+  // A passcode in the configuration file takes precedence over one created in this browser.
+  const adminLogin = showAdminLogin && (
+    <AdminLogin
+      passcode={configuredPasscode ?? loadLocalPasscode()}
+      onUnlock={() => changeRole('admin')}
+      onClose={() => setShowAdminLogin(false)}
+    />
+  );
+
   if (appState === 'selecting') {
-    return <BotSelector bots={bots} onSelect={handleBotSelect} />;
+    return (
+      <>
+        <BotSelector
+          bots={bots}
+          error={botsError}
+          isAdmin={role === 'admin'}
+          onSelect={handleBotSelect}
+          onEdit={(bot) => setEditingBot({ bot, isNew: false })}
+          onCreate={handleCreateBot}
+          onExport={handleExportBots}
+          onToggleAdmin={handleToggleAdmin}
+        />
+        {role === 'admin' && editingBot && (
+          <BotEditor
+            bot={editingBot.bot}
+            isNew={editingBot.isNew}
+            isConfigured={configuredBots.some((b) => b.id === editingBot.bot.id)}
+            onSave={handleSaveBot}
+            onDelete={() => handleDeleteBot(editingBot.bot)}
+            onClose={() => setEditingBot(null)}
+          />
+        )}
+        {adminLogin}
+      </>
+    );
   }
 
   if (!selectedBot) return null; // Should not happen
 
+  if (appState === 'quiz') {
+    return (
+      <QuizView
+        bot={selectedBot}
+        knowledgeBase={knowledgeBase}
+        onGenerate={handleGenerateQuiz}
+        onComplete={handleQuizComplete}
+        onClose={() => setAppState('chatting')}
+      />
+    );
+  }
+
+  // Until the first question, the top of the FAQ is suggested under the welcome message.
+  const starterQuestions = chatHistory.some((m) => m.role === 'user')
+    ? []
+    : visibleFaqEntries(faq?.entries ?? []).slice(0, STARTER_QUESTION_COUNT).map((entry) => entry.question);
+
+  // The typing indicator is shown until the streamed message receives its first tokens.
+  const isWaitingForResponse = isLoading && !chatHistory.some((m) => m.id === streamingMessageId && m.text);
+
   return (
     <div className="flex h-screen font-sans bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
-      <KnowledgeManager knowledgeBase={knowledgeBase} onAddKnowledge={handleAddKnowledge} bot={selectedBot} />
+      <KnowledgeManager
+        knowledgeBase={knowledgeBase}
+        onAddKnowledge={handleAddKnowledge}
+        onUpdateKnowledge={handleUpdateKnowledge}
+        onRemoveKnowledge={handleRemoveKnowledge}
+        bot={selectedBot}
+        activeCitation={activeCitation}
+        onCloseCitation={() => setActiveCitation(null)}
+        storageEstimate={storageEstimate}
+        contextBudget={geminiService.contextBudget}
+        redactionRules={geminiService.redactionConfig.rules}
+        onExportPack={handleExportPack}
+        onImportPack={handleImportPackFile}
+        readOnly={role !== 'admin'}
+      />
       
       <div className="flex flex-col flex-1">
         <header 
           className="bg-white dark:bg-gray-800 shadow-md p-4 flex items-center space-x-4 sticky top-0 z-10 border-b-4"
           style={{ borderBottomColor: selectedBot.themeColor }}
         >
-          <img src={selectedBot.image} alt={`${selectedBot.name} Avatar`} className="w-12 h-12 rounded-full" />
-          <h1 className="text-xl font-bold">{selectedBot.name} - Asistente de RRHH</h1>
+          <BotAvatar bot={selectedBot} className="w-12 h-12 rounded-full" />
+          <h1 className="text-xl font-bold flex-1">{t('app.title', { bot: selectedBot.name })}</h1>
+          <button
+            onClick={() => setShowSessions((prev) => !prev)}
+            className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+          >
+            {t('app.sessions', { count: sessions.length })}
+          </button>
+          <button
+            onClick={() => setShowFaq((prev) => !prev)}
+            className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+          >
+            {t('app.faq')}{faqError && ' ⚠️'}
+          </button>
+          <TranscriptMenu
+            disabled={!chatHistory.some((m) => m.role === 'user') || !!streamingMessageId}
+            onExport={handleExportTranscript}
+          />
+          <button
+            onClick={() => setAppState('quiz')}
+            disabled={isLoading}
+            className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-all"
+          >
+            {t('app.quiz')}
+          </button>
+          {role === 'admin' && (
+            <button
+              onClick={openFeedbackDashboard}
+              className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            >
+              {t('app.quality')}
+            </button>
+          )}
+          {role === 'admin' && (
+            <button
+              onClick={() => setShowCaseQueue(true)}
+              className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            >
+              {t('app.cases', { count: cases.filter((c) => c.status === 'open').length })}
+            </button>
+          )}
+          {role === 'admin' && (
+            <button
+              onClick={() => setShowQuizResults(true)}
+              className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            >
+              {t('app.quizResults', { count: quizResults.length })}
+            </button>
+          )}
+          <button
+            onClick={handleToggleAdmin}
+            className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+          >
+            {role === 'admin' ? t('app.leaveAdmin') : t('app.enterAdmin')}
+          </button>
+          <button
+            onClick={handleChangeBot}
+            className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+          >
+            {t('app.changeBot')}
+          </button>
+          <LanguageSwitcher />
         </header>
 
         <main className="flex-1 overflow-y-auto p-4 sm:p-6">
           <div className="max-w-4xl mx-auto space-y-6">
-            {chatHistory.map((msg) => (
-              <ChatMessage key={msg.id} message={msg} botImage={selectedBot.image} themeColor={selectedBot.themeColor} onAction={handleAction} isLoading={isLoading} />
+            {chatHistory.filter((msg) => msg.text || msg.imageUrl).map((msg) => (
+              <ChatMessage key={msg.id} message={msg} bot={selectedBot} themeColor={selectedBot.themeColor} onAction={handleAction} onCitationClick={setActiveCitation} onFeedback={handleFeedback} onFollowUp={sendQuestion} isLoading={isLoading} />
             ))}
-            {isLoading && (
+            <StarterQuestions questions={starterQuestions} themeColor={selectedBot.themeColor} disabled={isLoading} onAsk={sendQuestion} />
+            {isWaitingForResponse && (
               <div className="flex items-start gap-3">
-                <img src={selectedBot.image} alt="Bot Avatar" className="w-10 h-10 rounded-full" />
+                <BotAvatar bot={selectedBot} className="w-10 h-10 rounded-full" />
                 <div className="max-w-xl p-4 rounded-2xl bg-white dark:bg-gray-700 flex items-center space-x-2 shadow-md">
                     <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-75"></div>
                     <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-150"></div>
@@ -177,7 +1026,7 @@ const App: React.FC = () => {
                 </div>
               </div>
             )}
-            {error && <div className="text-red-500 text-center p-2 bg-red-100 dark:bg-red-900 rounded-md">{error}</div>}
+            {error && <div className="whitespace-pre-line text-red-500 text-center p-2 bg-red-100 dark:bg-red-900 rounded-md">{error}</div>}
             <div ref={chatEndRef} />
           </div>
         </main>
@@ -186,25 +1035,108 @@ const App: React.FC = () => {
           <form onSubmit={handleSendMessage} className="max-w-4xl mx-auto flex items-center space-x-4">
             <input
               type="text" value={userInput} onChange={(e) => setUserInput(e.target.value)}
-              placeholder="Escribe tu pregunta aquí..."
+              placeholder={t('app.inputPlaceholder')}
               className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-full bg-gray-50 dark:bg-gray-700 text-gray-800 dark:text-gray-200 focus:ring-2 focus:outline-none"
               style={{'--tw-ring-color': selectedBot.themeColor} as React.CSSProperties}
               disabled={isLoading}
             />
-            <button
-              type="submit" disabled={isLoading || !userInput.trim()}
-              className="text-white rounded-full p-3 transition-all disabled:cursor-not-allowed"
-              style={{ backgroundColor: isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.themeColor, '--hover-color': selectedBot.darkThemeColor } as React.CSSProperties}
-              onMouseOver={(e) => e.currentTarget.style.backgroundColor = isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.darkThemeColor}
-              onMouseOut={(e) => e.currentTarget.style.backgroundColor = isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.themeColor}
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
-              </svg>
-            </button>
+            {streamingMessageId ? (
+              <button
+                type="button" onClick={handleStopStreaming}
+                className="flex items-center space-x-2 text-white rounded-full px-4 py-3 bg-gray-600 hover:bg-gray-700 transition-all"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
+                </svg>
+                <span className="text-sm font-medium">{t('app.stop')}</span>
+              </button>
+            ) : (
+              <button
+                type="submit" disabled={isLoading || !userInput.trim()}
+                className="text-white rounded-full p-3 transition-all disabled:cursor-not-allowed"
+                style={{ backgroundColor: isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.themeColor, '--hover-color': selectedBot.darkThemeColor } as React.CSSProperties}
+                onMouseOver={(e) => e.currentTarget.style.backgroundColor = isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.darkThemeColor}
+                onMouseOut={(e) => e.currentTarget.style.backgroundColor = isLoading || !userInput.trim() ? '#9CA3AF' : selectedBot.themeColor}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                </svg>
+              </button>
+            )}
           </form>
         </footer>
       </div>
+
+      {showSessions && (
+        <SessionList
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          bot={selectedBot}
+          disabled={isLoading}
+          onNew={() => startNewSession(selectedBot, knowledgeBase.length)}
+          onResume={handleResumeSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+        />
+      )}
+      {showFaq && (
+        <FaqPanel
+          bot={selectedBot}
+          faq={faq}
+          isGenerating={isGeneratingFaq}
+          error={faqError}
+          isAdmin={role === 'admin'}
+          disabled={isLoading}
+          onAsk={sendQuestion}
+          onCitationClick={setActiveCitation}
+          onTogglePin={handleToggleFaqPin}
+          onToggleHidden={handleToggleFaqHidden}
+        />
+      )}
+      {showFeedbackDashboard && (
+        <FeedbackDashboard
+          bot={selectedBot}
+          feedback={feedback}
+          sessions={sessions}
+          cacheStats={cacheStats}
+          onDismiss={handleDismissFeedback}
+          onClearCache={handleClearCache}
+          onClose={() => setShowFeedbackDashboard(false)}
+        />
+      )}
+      {showCaseQueue && (
+        <CaseQueue
+          bot={selectedBot}
+          cases={cases}
+          onAnswer={handleAnswerCase}
+          onClose={() => setShowCaseQueue(false)}
+        />
+      )}
+      {showQuizResults && (
+        <QuizResults
+          bot={selectedBot}
+          results={quizResults}
+          onClose={() => setShowQuizResults(false)}
+        />
+      )}
+      {escalatingMessage && (
+        <EscalationDialog
+          bot={selectedBot}
+          question={chatHistory.find((m) => m.id === escalatingMessage.relatedQuestionId)?.text || ''}
+          onSubmit={handleEscalate}
+          onClose={() => setEscalatingMessage(null)}
+        />
+      )}
+      {pendingPack && (
+        <KnowledgePackDialog
+          pack={pendingPack}
+          bot={selectedBot}
+          knowledgeBase={knowledgeBase}
+          onImport={handleImportPack}
+          onClose={() => setPendingPack(null)}
+        />
+      )}
+      {adminLogin}
     </div>
   );
 };
@@ -1,48 +0,0 @@
-import { Bot } from '../types';
-
-// Las imágenes del bot se han dejado como placeholders vacíos para evitar errores de sintaxis
-// y permitir que se agreguen manualmente más tarde.
-export const bots: Bot[] = [
-  {
-    id: 'mass',
-    name: 'Mass',
-    image: '', // Placeholder para la imagen del bot Mass
-    themeColor: '#3B82F6', // blue-500
-    darkThemeColor: '#2563EB', // blue-600
-  },
-  {
-    id: 'plazavea',
-    name: 'Plaza Vea',
-    image: '', // Placeholder para la imagen del bot Plaza Vea
-    themeColor: '#EF4444', // red-500
-    darkThemeColor: '#DC2626', // red-600
-  },
-  {
-    id: 'ripley',
-    name: 'Ripley',
-    image: '', // Placeholder para la imagen del bot Ripley
-    themeColor: '#6D28D9', // violet-700
-    darkThemeColor: '#5B21B6', // violet-800
-  },
-  {
-    id: 'metro',
-    name: 'Metro',
-    image: '', // Placeholder para la imagen del bot Metro
-    themeColor: '#E53E3E', // red-600
-    darkThemeColor: '#C53030', // red-700
-  },
-  {
-    id: 'sodimac',
-    name: 'Sodimac',
-    image: '', // Placeholder para la imagen del bot Sodimac
-    themeColor: '#0566C8', // Un azul corporativo
-    darkThemeColor: '#04509E', // Un azul más oscuro
-  },
-  {
-    id: 'tottus',
-    name: 'Tottus',
-    image: '', // Placeholder para la imagen del bot Tottus
-    themeColor: '#84CC16', // lime-500
-    darkThemeColor: '#65A30D', // lime-600
-  },
-];
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { PasscodeRecord, createLocalPasscode, verifyPasscode } from '../services/authService';
+import { useI18n } from './I18nProvider';
+
+// Minimum length of a passcode created in the browser.
+const MIN_PASSCODE_LENGTH = 6;
+
+/**
+ * @interface AdminLoginProps
+ * @property {PasscodeRecord | null} passcode - The hash of the HR passcode, or null if none was created yet.
+ * @property {() => void} onUnlock - Callback function called once the passcode is accepted.
+ * @property {() => void} onClose - Callback function to close the dialog.
+ */
+interface AdminLoginProps {
+  passcode: PasscodeRecord | null;
+  onUnlock: () => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal dialog that asks for the HR passcode to enter admin mode.
+ * When no passcode exists yet, it lets HR create one for this browser.
+ * @param {AdminLoginProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered dialog.
+ */
+const AdminLogin: React.FC<AdminLoginProps> = ({ passcode, onUnlock, onClose }) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const isCreating = !passcode;
+
+  /**
+   * Checks the passcode, or creates it, and unlocks admin mode.
+   * @param {React.FormEvent} event - The form submit event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    if (isCreating) {
+      if (value.length < MIN_PASSCODE_LENGTH) {
+        setError(t('admin.tooShort', { count: MIN_PASSCODE_LENGTH }));
+        return;
+      }
+      if (value !== confirmation) {
+        setError(t('admin.mismatch'));
+        return;
+      }
+    }
+    setIsChecking(true);
+    try {
+      if (isCreating) {
+        await createLocalPasscode(value);
+        onUnlock();
+      } else if (await verifyPasscode(value, passcode)) {
+        onUnlock();
+      } else {
+        setError(t('admin.wrong'));
+        setValue('');
+      }
+    } catch (err) {
+      console.error('Error checking passcode:', err);
+      setError(t('admin.checkFailed'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const inputClass = 'w-full p-2 mb-3 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-sm">
+        <h3 className="text-lg font-bold mb-2">{isCreating ? t('admin.createTitle') : t('admin.title')}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {isCreating ? t('admin.createHint') : t('admin.hint')}
+        </p>
+        <input type="password" autoFocus value={value} onChange={(e) => setValue(e.target.value)} placeholder={t('admin.passcode')} className={inputClass} />
+        {isCreating && (
+          <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder={t('admin.repeat')} className={inputClass} />
+        )}
+        {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+        <div className="flex justify-end space-x-4 mt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">{t('admin.cancel')}</button>
+          <button type="submit" disabled={isChecking || !value} className="px-4 py-2 rounded text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400">
+            {isChecking ? t('admin.checking') : isCreating ? t('admin.create') : t('admin.enter')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AdminLogin;
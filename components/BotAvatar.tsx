@@ -0,0 +1,34 @@
+import React from 'react';
+import { Bot } from '../types';
+
+/**
+ * @interface BotAvatarProps
+ * @property {Bot} bot - The bot whose avatar is shown.
+ * @property {string} className - The size and shape classes of the avatar.
+ */
+interface BotAvatarProps {
+  bot: Bot;
+  className: string;
+}
+
+/**
+ * Shows a bot's logo, or the initial of its name on its theme color when it has no logo.
+ * @param {BotAvatarProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered avatar.
+ */
+const BotAvatar: React.FC<BotAvatarProps> = ({ bot, className }) => {
+  if (bot.image) {
+    return <img src={bot.image} alt={`${bot.name} Avatar`} className={`${className} object-contain`} />;
+  }
+  return (
+    <div
+      className={`${className} flex items-center justify-center font-bold text-white select-none`}
+      style={{ backgroundColor: bot.themeColor, containerType: 'size' }}
+      aria-label={`${bot.name} Avatar`}
+    >
+      <span style={{ fontSize: '50cqh' }}>{bot.name.charAt(0).toUpperCase()}</span>
+    </div>
+  );
+};
+
+export default BotAvatar;
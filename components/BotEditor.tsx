@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { Bot } from '../types';
+import { validateBot } from '../services/botRegistry';
+import BotAvatar from './BotAvatar';
+
+// Logos are saved as data URLs in the browser, so large images are refused to keep the storage small.
+const MAX_LOGO_BYTES = 512 * 1024;
+
+/**
+ * @interface BotEditorProps
+ * @property {Bot} bot - The bot being edited; a new bot has an empty name.
+ * @property {boolean} isNew - Whether the bot is being created.
+ * @property {boolean} isConfigured - Whether the bot comes from the configuration file, in which case it can be reset but not deleted.
+ * @property {(bot: Bot) => void} onSave - Callback function to save the bot.
+ * @property {() => void} onDelete - Callback function to delete the bot, or reset it to its configured values.
+ * @property {() => void} onClose - Callback function to close the editor without saving.
+ */
+interface BotEditorProps {
+  bot: Bot;
+  isNew: boolean;
+  isConfigured: boolean;
+  onSave: (bot: Bot) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal form to create or edit a bot: its name, logo, theme colors, welcome message,
+ * persona and extra rules for the model.
+ * @param {BotEditorProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered bot editor.
+ */
+const BotEditor: React.FC<BotEditorProps> = ({ bot, isNew, isConfigured, onSave, onDelete, onClose }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<Bot>(bot);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  /**
+   * Updates a field of the bot being edited.
+   * @param {K} field - The field.
+   * @param {Bot[K]} value - The new value.
+   */
+  const update = <K extends keyof Bot>(field: K, value: Bot[K]) => setDraft((prev) => ({ ...prev, [field]: value }));
+
+  /**
+   * Reads the selected logo as a data URL.
+   * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+   */
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert('Por favor, selecciona una imagen para el logotipo.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      alert('El logotipo es demasiado grande. Usa una imagen de menos de 512 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update('image', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  /**
+   * Validates the bot and saves it. Empty optional texts are dropped so the defaults apply.
+   */
+  const handleSave = () => {
+    const cleaned: Bot = {
+      id: draft.id,
+      name: draft.name.trim(),
+      image: draft.image,
+      themeColor: draft.themeColor,
+      darkThemeColor: draft.darkThemeColor,
+      ...(draft.welcomeMessage?.trim() && { welcomeMessage: draft.welcomeMessage.trim() }),
+      ...(draft.persona?.trim() && { persona: draft.persona.trim() }),
+      ...(draft.rules?.trim() && { rules: draft.rules.trim() }),
+    };
+    const found = validateBot(cleaned);
+    setProblems(found);
+    if (found.length === 0) onSave(cleaned);
+  };
+
+  const inputClass = 'w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600';
+  const labelClass = 'block text-sm font-medium mb-1';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-bold mb-4">{isNew ? 'Nuevo asistente' : `Editar ${bot.name}`}</h3>
+
+        <div className="flex items-center gap-4 mb-4">
+          <BotAvatar bot={draft.name ? draft : { ...draft, name: '?' }} className="w-20 h-20 rounded-full" />
+          <div className="flex flex-col gap-2">
+            <button onClick={() => logoInputRef.current?.click()} className="px-3 py-1.5 text-sm rounded bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500">Subir logotipo</button>
+            {draft.image && <button onClick={() => update('image', '')} className="text-xs text-gray-500 hover:underline">Quitar logotipo</button>}
+          </div>
+          <input type="file" ref={logoInputRef} onChange={handleLogoChange} accept="image/png, image/jpeg, image/webp, image/svg+xml" className="hidden" />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="md:col-span-1">
+            <label className={labelClass}>Nombre</label>
+            <input type="text" value={draft.name} onChange={(e) => update('name', e.target.value)} placeholder="ej. Plaza Vea" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Color principal</label>
+            <input type="color" value={draft.themeColor} onChange={(e) => update('themeColor', e.target.value.toUpperCase())} className="w-full h-10 rounded cursor-pointer" />
+          </div>
+          <div>
+            <label className={labelClass}>Color oscuro</label>
+            <input type="color" value={draft.darkThemeColor} onChange={(e) => update('darkThemeColor', e.target.value.toUpperCase())} className="w-full h-10 rounded cursor-pointer" />
+          </div>
+        </div>
+
+        <label className={labelClass}>Mensaje de bienvenida</label>
+        <textarea
+          value={draft.welcomeMessage || ''}
+          onChange={(e) => update('welcomeMessage', e.target.value)}
+          placeholder="Vacío para usar el saludo por defecto, que indica cuántos documentos hay en la memoria."
+          className={`${inputClass} h-20 mb-4`}
+        />
+
+        <label className={labelClass}>Personalidad y tono</label>
+        <textarea
+          value={draft.persona || ''}
+          onChange={(e) => update('persona', e.target.value)}
+          placeholder="ej. una asistente de RRHH cercana y alegre, que tutea a los colaboradores y usa frases cortas"
+          className={`${inputClass} h-20 mb-1`}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Completa la frase "Eres {draft.name || 'el asistente'}, …".</p>
+
+        <label className={labelClass}>Reglas adicionales</label>
+        <textarea
+          value={draft.rules || ''}
+          onChange={(e) => update('rules', e.target.value)}
+          placeholder={'ej. Nunca menciones montos de sueldos de otras personas.\nPara dudas de planilla, deriva a planillas@empresa.com.'}
+          className={`${inputClass} h-28 mb-4`}
+        />
+
+        {problems.length > 0 && (
+          <ul className="mb-4 p-3 rounded bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300 list-disc list-inside">
+            {problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-between items-center">
+          <div>
+            {!isNew && (
+              <button
+                onClick={() => {
+                  const question = isConfigured
+                    ? `¿Restablecer "${bot.name}" a los valores de la configuración?`
+                    : `¿Eliminar el asistente "${bot.name}"?`;
+                  if (window.confirm(question)) onDelete();
+                }}
+                className="text-sm text-red-500 hover:underline"
+              >
+                {isConfigured ? 'Restablecer valores' : 'Eliminar asistente'}
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-4">
+            <button onClick={onClose} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">Cancelar</button>
+            <button onClick={handleSave} className="px-4 py-2 rounded text-white" style={{ backgroundColor: draft.themeColor }}>Guardar</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BotEditor;
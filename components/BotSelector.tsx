@@ -1,14 +1,29 @@
 import React from 'react';
 import { Bot } from '../types';
+import BotAvatar from './BotAvatar';
+import LanguageSwitcher from './LanguageSwitcher';
+import { useI18n } from './I18nProvider';
 
 /**
  * @interface BotSelectorProps
  * @property {Bot[]} bots - An array of available bot objects.
+ * @property {string | null} error - A problem loading the bot configuration, if any.
+ * @property {boolean} isAdmin - Whether HR is signed in, which enables editing the bots.
  * @property {(bot: Bot) => void} onSelect - Callback function to handle the selection of a bot.
+ * @property {(bot: Bot) => void} onEdit - Callback function to open the bot editor for a bot.
+ * @property {() => void} onCreate - Callback function to open the bot editor for a new bot.
+ * @property {() => void} onExport - Callback function to download the bot configuration.
+ * @property {() => void} onToggleAdmin - Callback function to enter or leave admin mode.
  */
 interface BotSelectorProps {
   bots: Bot[];
+  error: string | null;
+  isAdmin: boolean;
   onSelect: (bot: Bot) => void;
+  onEdit: (bot: Bot) => void;
+  onCreate: () => void;
+  onExport: () => void;
+  onToggleAdmin: () => void;
 }
 
 /**
@@ -16,27 +31,63 @@ interface BotSelectorProps {
  * @param {BotSelectorProps} props - The props for the component.
  * @returns {React.ReactElement} The rendered bot selector component.
  */
-const BotSelector: React.FC<BotSelectorProps> = ({ bots, onSelect }) => {
+const BotSelector: React.FC<BotSelectorProps> = ({ bots, error, isAdmin, onSelect, onEdit, onCreate, onExport, onToggleAdmin }) => {
+  const { t } = useI18n();
+
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex flex-col items-center justify-center p-4">
       <div className="text-center mb-10">
-        <h1 className="text-4xl font-bold text-gray-800 dark:text-white">Bienvenido al Asistente de RRHH</h1>
-        <p className="text-lg text-gray-500 dark:text-gray-400 mt-2">Por favor, selecciona el asistente de tu empresa para comenzar.</p>
+        <h1 className="text-4xl font-bold text-gray-800 dark:text-white">{t('selector.title')}</h1>
+        <p className="text-lg text-gray-500 dark:text-gray-400 mt-2">{t('selector.subtitle')}</p>
       </div>
+      {error && (
+        <div className="mb-6 max-w-3xl p-3 rounded-lg bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-sm whitespace-pre-line">
+          {error}
+        </div>
+      )}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6 max-w-7xl">
         {bots.map((bot) => (
           <div
             key={bot.id}
             onClick={() => onSelect(bot)}
-            className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 flex flex-col items-center justify-center cursor-pointer transform hover:scale-105 hover:shadow-2xl transition-all duration-300"
+            className="group relative bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 flex flex-col items-center justify-center cursor-pointer transform hover:scale-105 hover:shadow-2xl transition-all duration-300"
             style={{'--hover-shadow-color': bot.themeColor} as React.CSSProperties}
             onMouseEnter={(e) => e.currentTarget.style.boxShadow = `0 10px 15px -3px ${bot.themeColor}40, 0 4px 6px -2px ${bot.themeColor}20`}
             onMouseLeave={(e) => e.currentTarget.style.boxShadow = ''}
           >
-            <img src={bot.image} alt={bot.name} className="w-32 h-32 object-contain rounded-full mb-4" />
+            {isAdmin && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onEdit(bot); }}
+                className="absolute top-2 right-2 px-2 py-1 text-xs rounded-full text-gray-500 bg-gray-100 dark:bg-gray-700 dark:text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={t('selector.editBot', { bot: bot.name })}
+              >
+                {t('selector.edit')}
+              </button>
+            )}
+            <BotAvatar bot={bot} className="w-32 h-32 rounded-full mb-4" />
             <span className="font-semibold text-gray-700 dark:text-gray-200">{bot.name}</span>
           </div>
         ))}
+        {isAdmin && (
+          <button
+            onClick={onCreate}
+            className="rounded-2xl border-2 border-dashed border-gray-300 dark:border-gray-600 p-6 flex flex-col items-center justify-center text-gray-500 dark:text-gray-400 hover:border-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+          >
+            <span className="text-5xl mb-2">+</span>
+            <span className="font-semibold">{t('selector.newBot')}</span>
+          </button>
+        )}
+      </div>
+      <div className="mt-8 flex items-center gap-6 text-sm text-gray-500 dark:text-gray-400">
+        {isAdmin && (
+          <button onClick={onExport} className="hover:underline">
+            {t('selector.export')}
+          </button>
+        )}
+        <button onClick={onToggleAdmin} className="hover:underline">
+          {isAdmin ? t('app.leaveAdmin') : t('app.enterAdmin')}
+        </button>
+        <LanguageSwitcher />
       </div>
     </div>
   );
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Bot, HrCase } from '../types';
+import { CASE_CATEGORY_LABELS } from '../services/caseSink';
+
+/**
+ * @interface CaseQueueProps
+ * @property {Bot} bot - The bot whose conversations the cases come from.
+ * @property {HrCase[]} cases - The cases, most recent first.
+ * @property {(hrCase: HrCase, answer: string) => void} onAnswer - Callback function to answer a case.
+ * @property {() => void} onClose - Callback function to close the queue.
+ */
+interface CaseQueueProps {
+  bot: Bot;
+  cases: HrCase[];
+  onAnswer: (hrCase: HrCase, answer: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Formats a time for the case list.
+ * @param {number} time - The time, in milliseconds since the epoch.
+ * @returns {string} The formatted date and time.
+ */
+const formatTime = (time: number): string => new Date(time).toLocaleString('es', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * A single case of the queue, with the form to answer it.
+ * @param {object} props - The props for the component.
+ * @param {HrCase} props.hrCase - The case.
+ * @param {Bot} props.bot - The bot, whose color is used for the buttons.
+ * @param {(answer: string) => void} props.onAnswer - The function to call with HR's answer.
+ * @returns {React.ReactElement} The rendered case.
+ */
+const CaseCard: React.FC<{ hrCase: HrCase; bot: Bot; onAnswer: (answer: string) => void }> = ({ hrCase, bot, onAnswer }) => {
+  const [answer, setAnswer] = useState('');
+
+  return (
+    <div className="p-3 rounded border dark:border-gray-600 text-sm">
+      <div className="flex justify-between gap-2">
+        <p className="font-semibold">{hrCase.question}</p>
+        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatTime(hrCase.createdAt)}</span>
+      </div>
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+        #{hrCase.id.slice(0, 8)} · {CASE_CATEGORY_LABELS[hrCase.category]} · {hrCase.contact.name} &lt;{hrCase.contact.email}&gt;{hrCase.contact.phone ? ` · ${hrCase.contact.phone}` : ''}
+      </p>
+      {hrCase.note && <p className="mt-1 italic">"{hrCase.note}"</p>}
+      <details className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+        <summary className="cursor-pointer select-none">Conversación ({hrCase.context.length} mensajes)</summary>
+        <ul className="mt-1 space-y-1">
+          {hrCase.context.map((m, i) => (
+            <li key={i} className="whitespace-pre-wrap"><strong>{m.role === 'user' ? 'Empleado' : bot.name}:</strong> {m.text}</li>
+          ))}
+        </ul>
+      </details>
+      {hrCase.status === 'answered' ? (
+        <p className="mt-2 p-2 rounded bg-green-50 dark:bg-green-900/30 whitespace-pre-wrap">
+          <strong>Respondido el {formatTime(hrCase.answeredAt!)}:</strong> {hrCase.answer}
+        </p>
+      ) : (
+        <div className="mt-2">
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Respuesta para el empleado"
+            className="w-full p-2 h-20 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600"
+          />
+          <button
+            onClick={() => onAnswer(answer.trim())}
+            disabled={!answer.trim()}
+            className="mt-1 px-3 py-1.5 rounded text-white disabled:bg-gray-400"
+            style={answer.trim() ? { backgroundColor: bot.themeColor } : undefined}
+          >
+            Enviar respuesta
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A modal view of the cases escalated to HR from a bot's conversations. Open cases are listed first;
+ * answering a case adds the answer to the employee's conversation.
+ * @param {CaseQueueProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered queue.
+ */
+const CaseQueue: React.FC<CaseQueueProps> = ({ bot, cases, onAnswer, onClose }) => {
+  const [showAnswered, setShowAnswered] = useState(false);
+  const open = cases.filter((c) => c.status === 'open');
+  const listed = showAnswered ? [...open, ...cases.filter((c) => c.status === 'answered')] : open;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold">Casos de RRHH de {bot.name} ({open.length} abiertos)</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-xl leading-none" aria-label="Cerrar">×</button>
+        </div>
+        <label className="flex items-center gap-2 mb-3 text-sm">
+          <input type="checkbox" checked={showAnswered} onChange={(e) => setShowAnswered(e.target.checked)} />
+          Mostrar casos respondidos
+        </label>
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {listed.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No hay casos pendientes.</p>}
+          {listed.map((hrCase) => (
+            <CaseCard key={hrCase.id} hrCase={hrCase} bot={bot} onAnswer={(answer) => onAnswer(hrCase, answer)} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseQueue;
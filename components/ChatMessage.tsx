@@ -1,13 +1,23 @@
-import React from 'react';
-import { Message, ActionType } from '../types';
+import React, { useState } from 'react';
+import { Message, ActionType, KnowledgeChunk, Citation, Bot, FeedbackRating, MessageFeedback, AnswerConfidence } from '../types';
+import { MessageKey } from '../services/i18n';
+import { ACTIONS, ActionDefinition, ActionResultRenderer, getAction } from '../services/actionRegistry';
+import BotAvatar from './BotAvatar';
+import { useI18n } from './I18nProvider';
+
+// The notes shown under answers the model is not fully confident in.
+const CONFIDENCE_NOTES: Partial<Record<AnswerConfidence, MessageKey>> = {
+  medium: 'message.confidence.medium',
+  low: 'message.confidence.low',
+};
 
 /**
  * @interface ActionButtonsProps
- * @property {(action: ActionType) => void} onAction - Callback function to handle follow-up actions.
+ * @property {(action: ActionType, argument?: string) => void} onAction - Callback function to handle follow-up actions.
  * @property {boolean} disabled - Whether the action buttons should be disabled.
  */
 interface ActionButtonsProps {
-  onAction: (action: ActionType) => void;
+  onAction: (action: ActionType, argument?: string) => void;
   disabled: boolean;
 }
 
@@ -32,81 +42,356 @@ const ActionButton: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
 );
 
 /**
- * A component that renders a set of action buttons for a chat message.
+ * An inline form that asks for the argument of an action before it runs, e.g. the language to translate into.
+ * @param {object} props - The props for the component.
+ * @param {ActionDefinition} props.action - The action, which has an argument.
+ * @param {(argument: string) => void} props.onSubmit - The function to call with the value given.
+ * @param {() => void} props.onCancel - The function to call when the form is closed.
+ * @returns {React.ReactElement} The rendered argument form component.
+ */
+const ActionArgumentForm: React.FC<{ action: ActionDefinition; onSubmit: (argument: string) => void; onCancel: () => void }> = ({ action, onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const { label, placeholder, options } = action.argument;
+  const [value, setValue] = useState(options?.[0] ?? '');
+  const fieldClass = "flex-1 p-1.5 border rounded bg-gray-50 dark:bg-gray-800 dark:border-gray-600 text-gray-800 dark:text-gray-200";
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (value.trim()) onSubmit(value.trim()); }}
+      className="flex items-center gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400"
+    >
+      <label htmlFor={`action-${action.id}`}>{t(label)}</label>
+      {options ? (
+        <select id={`action-${action.id}`} value={value} onChange={(e) => setValue(e.target.value)} className={fieldClass}>
+          {options.map((option) => <option key={option} value={option}>{option}</option>)}
+        </select>
+      ) : (
+        <input
+          id={`action-${action.id}`}
+          type="text"
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={placeholder && t(placeholder)}
+          className={fieldClass}
+        />
+      )}
+      <button type="submit" disabled={!value.trim()} className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50">{t(action.label)}</button>
+      <button type="button" onClick={onCancel} className="hover:underline">{t('message.close')}</button>
+    </form>
+  );
+};
+
+/**
+ * A component that renders a button for each action of the action registry.
+ * Actions that need an argument ask for it in an inline form before they run.
  * @param {ActionButtonsProps} props - The props for the component.
  * @returns {React.ReactElement} The rendered action buttons component.
  */
-const ActionButtons: React.FC<ActionButtonsProps> = ({ onAction, disabled }) => (
-  <div className="flex items-center gap-2 mt-3 flex-wrap">
-      <ActionButton
-          onClick={() => onAction('explain')}
-          disabled={disabled}
-          icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a2 2 0 01-2-2V4a2 2 0 012-2h6.172a2 2 0 011.414.586l3.828 3.828A2 2 0 0117 8z" /></svg>}
-          label="Explicar"
-      />
-      <ActionButton
-          onClick={() => onAction('example')}
-          disabled={disabled}
-          icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>}
-          label="Ejemplo"
-      />
-      <ActionButton
-          onClick={() => onAction('image')}
-          disabled={disabled}
-          icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>}
-          label="Imagen"
-      />
-  </div>
-);
+const ActionButtons: React.FC<ActionButtonsProps> = ({ onAction, disabled }) => {
+  const { t } = useI18n();
+  const [pendingAction, setPendingAction] = useState<ActionDefinition | null>(null);
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {ACTIONS.map((action) => (
+          <ActionButton
+              key={action.id}
+              onClick={() => action.argument ? setPendingAction(action) : onAction(action.id)}
+              disabled={disabled}
+              icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={action.icon} /></svg>}
+              label={t(action.label)}
+          />
+        ))}
+      </div>
+      {pendingAction && (
+        <ActionArgumentForm
+          key={pendingAction.id}
+          action={pendingAction}
+          onSubmit={(argument) => { onAction(pendingAction.id, argument); setPendingAction(null); }}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Shows a checklist produced by the 'checklist' action, with a checkbox for each "- [ ]" line.
+ * Other lines, such as a heading the model added, are shown as text. The ticks are only kept while the chat is open.
+ * @param {object} props - The props for the component.
+ * @param {string} props.text - The text of the message.
+ * @returns {React.ReactElement} The rendered checklist component.
+ */
+const ChecklistResult: React.FC<{ text: string }> = ({ text }) => {
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const lines = text.split('\n').filter(line => line.trim());
+
+  /**
+   * Ticks or unticks an item of the checklist.
+   * @param {number} index - The line of the item.
+   */
+  const toggle = (index: number) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {lines.map((line, i) => {
+        const item = /^\s*[-*]\s*\[( |x|X)\]\s*(.*)$/.exec(line);
+        if (!item) return <li key={i} className="whitespace-pre-wrap">{line}</li>;
+        const isChecked = checked.has(i) !== (item[1] !== ' ');
+        return (
+          <li key={i}>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input type="checkbox" checked={isChecked} onChange={() => toggle(i)} className="mt-1" />
+              <span className={isChecked ? 'line-through text-gray-400' : ''}>{item[2]}</span>
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+// How the text of a message is shown, depending on the action that produced it.
+const RESULT_RENDERERS: Record<ActionResultRenderer, React.FC<{ text: string }>> = {
+  text: ({ text }) => <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">{text}</div>,
+  checklist: ChecklistResult,
+};
+
+/**
+ * A collapsible list of the knowledge chunks that were sent to the model to produce a message.
+ * @param {object} props - The props for the component.
+ * @param {KnowledgeChunk[]} props.chunks - The chunks used as context.
+ * @returns {React.ReactElement} The rendered source chunks component.
+ */
+const SourceChunks: React.FC<{ chunks: KnowledgeChunk[] }> = ({ chunks }) => {
+  const { t } = useI18n();
+
+  return (
+    <details className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+      <summary className="cursor-pointer select-none">{t('message.sourceChunks', { count: chunks.length })}</summary>
+      <ul className="mt-2 space-y-2">
+        {chunks.map((chunk) => (
+          <li key={chunk.id} className="p-2 rounded-md bg-gray-100 dark:bg-gray-800">
+            <div className="font-semibold truncate" title={chunk.itemName}>📄 {chunk.itemName} · {t('message.chunk', { number: chunk.index + 1 })}</div>
+            <p className="mt-1 line-clamp-3 whitespace-pre-wrap">{chunk.text}</p>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+/**
+ * A row of clickable chips, one per cited passage.
+ * @param {object} props - The props for the component.
+ * @param {Citation[]} props.citations - The citations to display.
+ * @param {string} props.themeColor - The theme color used for the chip borders.
+ * @param {(citation: Citation) => void} props.onClick - The function to call when a chip is clicked.
+ * @returns {React.ReactElement} The rendered citation chips component.
+ */
+const CitationChips: React.FC<{ citations: Citation[]; themeColor: string; onClick: (citation: Citation) => void }> = ({ citations, themeColor, onClick }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 mt-3 flex-wrap">
+      <span className="text-xs text-gray-500 dark:text-gray-400">{t('message.sources')}</span>
+      {citations.map((citation, i) => (
+        <button
+          key={`${citation.itemId}-${i}`}
+          onClick={() => onClick(citation)}
+          title={`"${citation.quote}"`}
+          className="max-w-[14rem] truncate px-2 py-1 text-xs font-medium rounded-full border bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 transition-all"
+          style={{ borderColor: themeColor }}
+        >
+          [{i + 1}] {citation.itemName}{citation.location ? ` · ${citation.location}` : ''}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * A row of suggested questions to ask next, sent as a new question when clicked.
+ * @param {object} props - The props for the component.
+ * @param {string[]} props.questions - The suggested questions.
+ * @param {string} props.themeColor - The theme color used for the chip text.
+ * @param {boolean} props.disabled - Whether the chips should be disabled.
+ * @param {(question: string) => void} props.onClick - The function to call with the question that was clicked.
+ * @returns {React.ReactElement} The rendered follow-up chips component.
+ */
+const FollowUpChips: React.FC<{ questions: string[]; themeColor: string; disabled: boolean; onClick: (question: string) => void }> = ({ questions, themeColor, disabled, onClick }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-3 text-xs">
+      <span className="text-gray-500 dark:text-gray-400">{t('message.followUps')}</span>
+      <div className="flex flex-col items-start gap-1 mt-1">
+        {questions.map((question) => (
+          <button
+            key={question}
+            onClick={() => onClick(question)}
+            disabled={disabled}
+            className="text-left hover:underline disabled:opacity-50 disabled:no-underline"
+            style={{ color: themeColor }}
+          >
+            → {question}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Thumbs up and down buttons to rate an answer. Once rated, an optional comment can be added.
+ * @param {object} props - The props for the component.
+ * @param {MessageFeedback} [props.feedback] - The rating already given, if any.
+ * @param {boolean} props.disabled - Whether the buttons should be disabled.
+ * @param {(rating: FeedbackRating, comment?: string) => void} props.onRate - The function to call with the rating and the comment.
+ * @returns {React.ReactElement} The rendered feedback buttons component.
+ */
+const FeedbackButtons: React.FC<{ feedback?: MessageFeedback; disabled: boolean; onRate: (rating: FeedbackRating, comment?: string) => void }> = ({ feedback, disabled, onRate }) => {
+  const { t } = useI18n();
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState(feedback?.comment || '');
+
+  /**
+   * Saves a rating and opens the comment box, keeping any comment already written.
+   * @param {FeedbackRating} rating - The rating.
+   */
+  const rate = (rating: FeedbackRating) => {
+    onRate(rating, comment.trim() || undefined);
+    setIsCommenting(true);
+  };
+
+  const buttonClass = (rating: FeedbackRating) =>
+    `px-2 py-1 rounded-full text-sm transition-all disabled:opacity-50 ${feedback?.rating === rating ? 'bg-gray-300 dark:bg-gray-500' : 'hover:bg-gray-200 dark:hover:bg-gray-600'}`;
+
+  return (
+    <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+      <div className="flex items-center gap-1">
+        <span className="mr-1">{t('message.useful')}</span>
+        <button onClick={() => rate('up')} disabled={disabled} className={buttonClass('up')} aria-label={t('message.rateUp')} aria-pressed={feedback?.rating === 'up'}>👍</button>
+        <button onClick={() => rate('down')} disabled={disabled} className={buttonClass('down')} aria-label={t('message.rateDown')} aria-pressed={feedback?.rating === 'down'}>👎</button>
+        {feedback && !isCommenting && (
+          <button onClick={() => setIsCommenting(true)} className="ml-2 hover:underline">{feedback.comment ? t('message.editComment') : t('message.addComment')}</button>
+        )}
+      </div>
+      {feedback && isCommenting && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); onRate(feedback.rating, comment.trim() || undefined); setIsCommenting(false); }}
+          className="flex items-center gap-2 mt-2"
+        >
+          <input
+            type="text"
+            autoFocus
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={feedback.rating === 'down' ? t('message.commentPlaceholderDown') : t('message.commentPlaceholder')}
+            className="flex-1 p-1.5 border rounded bg-gray-50 dark:bg-gray-800 dark:border-gray-600 text-gray-800 dark:text-gray-200"
+          />
+          <button type="submit" className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500">{t('message.send')}</button>
+          <button type="button" onClick={() => setIsCommenting(false)} className="hover:underline">{t('message.close')}</button>
+        </form>
+      )}
+    </div>
+  );
+};
 
 /**
  * @interface ChatMessageProps
  * @property {Message} message - The message object to display.
- * @property {string} botImage - The URL of the bot's avatar image.
+ * @property {Bot} bot - The bot, whose avatar is shown next to its messages.
  * @property {string} themeColor - The theme color for the user's messages.
- * @property {(action: ActionType, message: Message) => void} onAction - Callback function to handle follow-up actions.
+ * @property {(action: ActionType, message: Message, argument?: string) => void} onAction - Callback function to handle follow-up actions.
+ * @property {(citation: Citation) => void} onCitationClick - Callback function to open a cited passage.
+ * @property {(message: Message, rating: FeedbackRating, comment?: string) => void} onFeedback - Callback function to rate an answer.
+ * @property {(question: string) => void} onFollowUp - Callback function to ask a suggested question.
  * @property {boolean} isLoading - Whether the application is currently in a loading state.
  */
 interface ChatMessageProps {
   message: Message;
-  botImage: string;
+  bot: Bot;
   themeColor: string;
-  onAction: (action: ActionType, message: Message) => void;
+  onAction: (action: ActionType, message: Message, argument?: string) => void;
+  onCitationClick: (citation: Citation) => void;
+  onFeedback: (message: Message, rating: FeedbackRating, comment?: string) => void;
+  onFollowUp: (question: string) => void;
   isLoading: boolean;
 }
 
 /**
  * A component that displays a single chat message, either from the user or the model.
  * It includes the message text, an optional image, and action buttons for model messages.
+ * Answers the model did not find in the documents are set apart with an amber border and a note.
  * @param {ChatMessageProps} props - The props for the component.
  * @returns {React.ReactElement} The rendered chat message component.
  */
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, botImage, themeColor, onAction, isLoading }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, bot, themeColor, onAction, onCitationClick, onFeedback, onFollowUp, isLoading }) => {
+  const { t } = useI18n();
   const isModel = message.role === 'model';
+  const isUngrounded = isModel && message.grounded === false;
+  const MessageText = RESULT_RENDERERS[(message.actionId && getAction(message.actionId)?.renderer) || 'text'];
 
   return (
     <div className={`flex items-start gap-3 ${isModel ? '' : 'justify-end'}`}>
       {isModel && (
-        <img src={botImage} alt="Bot Avatar" className="w-10 h-10 rounded-full flex-shrink-0" />
+        <BotAvatar bot={bot} className="w-10 h-10 rounded-full flex-shrink-0" />
       )}
-      <div className={`max-w-xl p-4 rounded-2xl shadow-md ${isModel ? 'bg-white dark:bg-gray-700' : 'text-white'}`}
+      <div className={`max-w-xl p-4 rounded-2xl shadow-md ${isModel ? 'bg-white dark:bg-gray-700' : 'text-white'} ${isUngrounded ? 'border-2 border-dashed border-amber-400' : ''}`}
            style={!isModel ? { backgroundColor: themeColor } : {}}>
-        <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">{message.text}</div>
+        {isUngrounded && (
+          <p className="mb-2 text-xs font-semibold text-amber-600 dark:text-amber-400">{t('message.notGrounded')}</p>
+        )}
+        <MessageText text={message.text} />
         {message.imageUrl && (
             <div className="mt-4">
-                <img src={message.imageUrl} alt="Generated visual concept" className="rounded-lg max-w-sm w-full" />
+                <img src={message.imageUrl} alt={t('message.generatedImage')} className="rounded-lg max-w-sm w-full" />
             </div>
         )}
-        {isModel && !message.imageUrl && (
+        {isModel && message.citations && message.citations.length > 0 && (
+          <CitationChips citations={message.citations} themeColor={themeColor} onClick={onCitationClick} />
+        )}
+        {isModel && message.sourceChunks && message.sourceChunks.length > 0 && (
+          <SourceChunks chunks={message.sourceChunks} />
+        )}
+        {isModel && message.grounded && CONFIDENCE_NOTES[message.confidence] && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t(CONFIDENCE_NOTES[message.confidence])}</p>
+        )}
+        {isModel && message.omittedItems && message.omittedItems.length > 0 && (
+          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">{t('message.omitted', { items: message.omittedItems.join(', ') })}</p>
+        )}
+        {isModel && message.caseId && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('message.case', { id: message.caseId.slice(0, 8) })}</p>
+        )}
+        {isModel && !message.imageUrl && !message.caseId && (
           <ActionButtons 
-            onAction={(action) => onAction(action, message)} 
+            onAction={(action, argument) => onAction(action, message, argument)}
+            disabled={isLoading}
+          />
+        )}
+        {isModel && message.followUps && message.followUps.length > 0 && !message.caseId && (
+          <FollowUpChips questions={message.followUps} themeColor={themeColor} disabled={isLoading} onClick={onFollowUp} />
+        )}
+        {isModel && message.relatedQuestionId && !message.caseId && (
+          <FeedbackButtons
+            feedback={message.feedback}
             disabled={isLoading}
+            onRate={(rating, comment) => onFeedback(message, rating, comment)}
           />
         )}
       </div>
        {!isModel && (
         <div className="flex-shrink-0 w-10 h-10 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center text-gray-800 dark:text-gray-200 font-bold">
-          <span>TÚ</span>
+          <span>{t('message.you')}</span>
         </div>
       )}
     </div>
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Bot, CaseCategory, EmployeeContact } from '../types';
+import { CASE_CATEGORY_LABELS } from '../services/caseSink';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface EscalationDialogProps
+ * @property {Bot} bot - The bot of the conversation.
+ * @property {string} question - The question being escalated.
+ * @property {(contact: EmployeeContact, category: CaseCategory, note?: string) => void} onSubmit - Callback function to create the case.
+ * @property {() => void} onClose - Callback function to close the dialog without escalating.
+ */
+interface EscalationDialogProps {
+  bot: Bot;
+  question: string;
+  onSubmit: (contact: EmployeeContact, category: CaseCategory, note?: string) => void;
+  onClose: () => void;
+}
+
+// A loose check that catches typos; HR confirms the address when replying.
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A modal form that asks the employee for their contact details and the topic of the question
+ * before sending it to the HR team.
+ * @param {EscalationDialogProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered dialog.
+ */
+const EscalationDialog: React.FC<EscalationDialogProps> = ({ bot, question, onSubmit, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [category, setCategory] = useState<CaseCategory>('otro');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Checks the contact details and creates the case.
+   * @param {React.FormEvent} event - The form submit event.
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !EMAIL_PATTERN.test(email.trim())) {
+      setError(t('escalation.invalidContact'));
+      return;
+    }
+    onSubmit(
+      { name: name.trim(), email: email.trim(), ...(phone.trim() && { phone: phone.trim() }) },
+      category,
+      note.trim() || undefined,
+    );
+  };
+
+  const inputClass = 'w-full p-2 mb-3 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+        <h3 className="text-lg font-bold mb-2">{t('escalation.title')}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {t('escalation.hint', { bot: bot.name })}
+        </p>
+        <p className="text-sm mb-4 p-3 rounded bg-gray-100 dark:bg-gray-700 italic">"{question}"</p>
+        <input type="text" autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder={t('escalation.name')} className={inputClass} />
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t('escalation.email')} className={inputClass} />
+        <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder={t('escalation.phone')} className={inputClass} />
+        <select value={category} onChange={(e) => setCategory(e.target.value as CaseCategory)} className={inputClass}>
+          {(Object.keys(CASE_CATEGORY_LABELS) as CaseCategory[]).map((key) => (
+            <option key={key} value={key}>{t(`escalation.category.${key}`)}</option>
+          ))}
+        </select>
+        <textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('escalation.note')} className={`${inputClass} h-20`} />
+        {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+        <div className="flex justify-end space-x-4 mt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">{t('escalation.cancel')}</button>
+          <button type="submit" className="px-4 py-2 rounded text-white" style={{ backgroundColor: bot.themeColor }}>{t('escalation.submit')}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default EscalationDialog;
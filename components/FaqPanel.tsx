@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Bot, Citation, Faq, FaqEntry } from '../types';
+import { visibleFaqEntries } from '../services/faqService';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface FaqPanelProps
+ * @property {Bot} bot - The currently selected bot.
+ * @property {Faq | null} faq - The bot's FAQ, or null if it has not been generated yet.
+ * @property {boolean} isGenerating - Whether the FAQ is being generated.
+ * @property {string | null} error - The error of the last generation, if it failed.
+ * @property {boolean} isAdmin - Whether HR controls to pin and hide entries are shown.
+ * @property {boolean} disabled - Whether asking a question is disabled (e.g. while a response is loading).
+ * @property {(question: string) => void} onAsk - Callback function to ask the question of an entry in the chat.
+ * @property {(citation: Citation) => void} onCitationClick - Callback function to show the source of an entry.
+ * @property {(entryId: string) => void} onTogglePin - Callback function to pin or unpin an entry.
+ * @property {(entryId: string) => void} onToggleHidden - Callback function to hide or show an entry.
+ */
+interface FaqPanelProps {
+  bot: Bot;
+  faq: Faq | null;
+  isGenerating: boolean;
+  error: string | null;
+  isAdmin: boolean;
+  disabled: boolean;
+  onAsk: (question: string) => void;
+  onCitationClick: (citation: Citation) => void;
+  onTogglePin: (entryId: string) => void;
+  onToggleHidden: (entryId: string) => void;
+}
+
+/**
+ * A panel with the frequently asked questions generated from the bot's knowledge base. Each entry can be
+ * expanded to read its answer and source, or asked in the chat. HR also sees the hidden entries, dimmed,
+ * and can pin entries to the top or hide them from employees.
+ * @param {FaqPanelProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered FAQ panel.
+ */
+const FaqPanel: React.FC<FaqPanelProps> = ({ bot, faq, isGenerating, error, isAdmin, disabled, onAsk, onCitationClick, onTogglePin, onToggleHidden }) => {
+  const { t } = useI18n();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const visible = visibleFaqEntries(faq?.entries ?? []);
+  // HR sees every entry, the hidden ones after the visible ones.
+  const entries: FaqEntry[] = isAdmin ? [...visible, ...(faq?.entries ?? []).filter((entry) => entry.hidden)] : visible;
+
+  return (
+    <aside className="w-80 bg-white dark:bg-gray-800 p-4 flex flex-col border-l border-gray-200 dark:border-gray-700 shadow-lg">
+      <h2 className="text-lg font-bold mb-4 pb-2 border-b-2" style={{ borderBottomColor: bot.themeColor }}>
+        {t('faq.title')}
+      </h2>
+      {isGenerating && <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{faq ? t('faq.updating') : t('faq.generating')}</p>}
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+      {isAdmin && faq?.omittedItems && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mb-2">{t('faq.omitted', { items: faq.omittedItems.join(', ') })}</p>
+      )}
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+        {!isGenerating && !error && entries.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">{t('faq.empty')}</p>}
+        {entries.map((entry) => {
+          const isOpen = entry.id === openId;
+          return (
+            <div key={entry.id} className={`p-2 rounded-md border-l-4 ${isOpen ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'} ${entry.hidden ? 'opacity-50' : ''}`} style={{ borderLeftColor: entry.pinned ? bot.themeColor : 'transparent' }}>
+              <button onClick={() => setOpenId(isOpen ? null : entry.id)} className="w-full text-left text-sm font-medium" aria-expanded={isOpen}>
+                {entry.pinned && <span title={t('faq.pinned')}>📌 </span>}
+                {entry.question}
+              </button>
+              {isOpen && (
+                <div className="mt-2 text-sm space-y-2">
+                  <p className="text-gray-700 dark:text-gray-300">{entry.answer}</p>
+                  {entry.source && (
+                    <button
+                      onClick={() => onCitationClick(entry.source!)}
+                      className="text-xs px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 truncate max-w-full"
+                      title={entry.source.quote}
+                    >
+                      📄 {entry.source.itemName}{entry.source.location ? ` · ${entry.source.location}` : ''}
+                    </button>
+                  )}
+                  <div className="flex gap-3 text-xs">
+                    <button onClick={() => onAsk(entry.question)} disabled={disabled} className="hover:underline disabled:opacity-50 disabled:no-underline" style={{ color: bot.themeColor }}>
+                      {t('faq.ask')}
+                    </button>
+                    {isAdmin && (
+                      <>
+                        <button onClick={() => onTogglePin(entry.id)} className="text-gray-500 dark:text-gray-400 hover:underline">
+                          {entry.pinned ? t('faq.unpin') : t('faq.pin')}
+                        </button>
+                        <button onClick={() => onToggleHidden(entry.id)} className="text-gray-500 dark:text-gray-400 hover:underline">
+                          {entry.hidden ? t('faq.show') : t('faq.hide')}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default FaqPanel;
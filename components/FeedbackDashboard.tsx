@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { Bot, ChatSession, Feedback } from '../types';
+import { findUnansweredQuestions } from '../services/feedbackService';
+import { AnswerCacheStats } from '../services/geminiService';
+
+/**
+ * @interface FeedbackDashboardProps
+ * @property {Bot} bot - The bot whose answers are reviewed.
+ * @property {Feedback[]} feedback - The feedback given on the bot's answers.
+ * @property {ChatSession[]} sessions - The bot's saved conversations, scanned for unanswered questions.
+ * @property {AnswerCacheStats | null} cacheStats - The statistics of the bot's answer cache, while they load null.
+ * @property {(feedbackId: string) => void} onDismiss - Callback function to remove reviewed feedback.
+ * @property {() => void} onClearCache - Callback function to empty the bot's answer cache.
+ * @property {() => void} onClose - Callback function to close the dashboard.
+ */
+interface FeedbackDashboardProps {
+  bot: Bot;
+  feedback: Feedback[];
+  sessions: ChatSession[];
+  cacheStats: AnswerCacheStats | null;
+  onDismiss: (feedbackId: string) => void;
+  onClearCache: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Formats a time for the lists of the dashboard.
+ * @param {number} time - The time, in milliseconds since the epoch.
+ * @returns {string} The formatted date and time.
+ */
+const formatTime = (time: number): string => new Date(time).toLocaleString('es', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Formats the share of cache lookups that were hits.
+ * @param {number} hits - The hits.
+ * @param {number} misses - The misses.
+ * @returns {string} The hit rate as a percentage, or a dash when there were no lookups.
+ */
+const formatHitRate = (hits: number, misses: number): string =>
+  hits + misses > 0 ? `${Math.round((hits / (hits + misses)) * 100)} %` : '—';
+
+/**
+ * A modal dashboard for HR that lists the answers rated as not useful and the questions the bot
+ * could not answer from its documents, to find out which documents are missing. It also shows how often
+ * questions and images are served from the answer cache.
+ * @param {FeedbackDashboardProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered dashboard.
+ */
+const FeedbackDashboard: React.FC<FeedbackDashboardProps> = ({ bot, feedback, sessions, cacheStats, onDismiss, onClearCache, onClose }) => {
+  const [tab, setTab] = useState<'low-rated' | 'unanswered' | 'cache'>('low-rated');
+  const unanswered = useMemo(() => findUnansweredQuestions(sessions), [sessions]);
+  const lowRated = feedback.filter((f) => f.rating === 'down');
+  const positive = feedback.length - lowRated.length;
+
+  const tabClass = (name: typeof tab) =>
+    `px-3 py-1.5 text-sm font-medium rounded-full ${tab === name ? 'text-white' : 'text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold">Calidad de las respuestas de {bot.name}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-xl leading-none" aria-label="Cerrar">×</button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+          <div className="p-3 rounded bg-gray-100 dark:bg-gray-700"><div className="text-2xl font-bold">{positive}</div><div className="text-xs text-gray-500 dark:text-gray-400">👍 útiles</div></div>
+          <div className="p-3 rounded bg-gray-100 dark:bg-gray-700"><div className="text-2xl font-bold">{lowRated.length}</div><div className="text-xs text-gray-500 dark:text-gray-400">👎 no útiles</div></div>
+          <div className="p-3 rounded bg-gray-100 dark:bg-gray-700"><div className="text-2xl font-bold">{unanswered.length}</div><div className="text-xs text-gray-500 dark:text-gray-400">sin respuesta en los documentos</div></div>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          <button onClick={() => setTab('low-rated')} className={tabClass('low-rated')} style={tab === 'low-rated' ? { backgroundColor: bot.themeColor } : undefined}>
+            Respuestas mal valoradas ({lowRated.length})
+          </button>
+          <button onClick={() => setTab('unanswered')} className={tabClass('unanswered')} style={tab === 'unanswered' ? { backgroundColor: bot.themeColor } : undefined}>
+            Preguntas sin respuesta ({unanswered.length})
+          </button>
+          <button onClick={() => setTab('cache')} className={tabClass('cache')} style={tab === 'cache' ? { backgroundColor: bot.themeColor } : undefined}>
+            Caché de respuestas
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {tab === 'low-rated' && lowRated.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No hay respuestas mal valoradas.</p>
+          )}
+          {tab === 'low-rated' && lowRated.map((f) => (
+            <div key={f.id} className="p-3 rounded border dark:border-gray-600 text-sm">
+              <div className="flex justify-between gap-2">
+                <p className="font-semibold">{f.question}</p>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatTime(f.createdAt)}</span>
+              </div>
+              {f.comment && <p className="mt-1 italic">"{f.comment}"</p>}
+              <details className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                <summary className="cursor-pointer select-none">Respuesta y contexto</summary>
+                <p className="mt-1 whitespace-pre-wrap">{f.answer}</p>
+                <p className="mt-2">Fuentes: {f.citations?.length ? f.citations.map((c) => c.itemName).join(', ') : 'ninguna'}</p>
+                <p className="mt-1">Documentos en la memoria ({f.knowledgeSnapshot.length}): {f.knowledgeSnapshot.join(', ') || 'ninguno'}</p>
+              </details>
+              <button onClick={() => onDismiss(f.id)} className="mt-2 text-xs hover:underline" style={{ color: bot.themeColor }}>Marcar como revisada</button>
+            </div>
+          ))}
+
+          {tab === 'unanswered' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Preguntas de las conversaciones guardadas en este navegador cuya respuesta no estaba en los documentos. Indican qué documentos faltan en la memoria.</p>
+          )}
+          {tab === 'unanswered' && unanswered.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No hay preguntas sin respuesta.</p>
+          )}
+          {tab === 'unanswered' && unanswered.map((q) => (
+            <div key={q.messageId} className="p-3 rounded border dark:border-gray-600 text-sm">
+              <div className="flex justify-between gap-2">
+                <p className="font-semibold">{q.question}</p>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatTime(q.askedAt)}</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 line-clamp-2">{q.answer}</p>
+            </div>
+          ))}
+
+          {tab === 'cache' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Las preguntas que abren una conversación y las imágenes generadas se guardan en este navegador y se reutilizan mientras no cambien el asistente ni sus documentos.</p>
+          )}
+          {tab === 'cache' && !cacheStats && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Cargando…</p>
+          )}
+          {tab === 'cache' && cacheStats && (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 rounded border dark:border-gray-600">
+                  <div className="text-2xl font-bold">{formatHitRate(cacheStats.answerHits, cacheStats.answerMisses)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">respuestas desde la caché ({cacheStats.answerHits} de {cacheStats.answerHits + cacheStats.answerMisses})</div>
+                </div>
+                <div className="p-3 rounded border dark:border-gray-600">
+                  <div className="text-2xl font-bold">{formatHitRate(cacheStats.imageHits, cacheStats.imageMisses)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">imágenes desde la caché ({cacheStats.imageHits} de {cacheStats.imageHits + cacheStats.imageMisses})</div>
+                </div>
+                <div className="p-3 rounded border dark:border-gray-600">
+                  <div className="text-2xl font-bold">{cacheStats.entries}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">entradas guardadas</div>
+                </div>
+              </div>
+              <button onClick={onClearCache} className="text-sm hover:underline" style={{ color: bot.themeColor }}>Vaciar caché</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackDashboard;
@@ -0,0 +1,53 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, Translate, createTranslator, detectLocale, saveLocale } from '../services/i18n';
+
+/**
+ * @interface I18nContextValue
+ * @property {Locale} locale - The interface language.
+ * @property {(locale: Locale) => void} setLocale - Changes and remembers the interface language.
+ * @property {Translate} t - Looks up an interface string in the current language.
+ */
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Provides the interface language to the components below it.
+ * @param {object} props - The props for the component.
+ * @param {React.ReactNode} props.children - The components that use the translations.
+ * @returns {React.ReactElement} The provider.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale: (newLocale: Locale) => {
+      saveLocale(newLocale);
+      setLocaleState(newLocale);
+    },
+    t: createTranslator(locale),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/**
+ * Returns the interface language and its translation function.
+ * @returns {I18nContextValue} The current language, its setter and the translation function.
+ */
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside an I18nProvider.');
+  }
+  return context;
+};
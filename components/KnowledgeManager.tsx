@@ -1,102 +1,331 @@
-import React, { useRef, useState } from 'react';
-import { KnowledgeItem, Bot } from '../types';
-
-declare const pdfjsLib: any;
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnowledgeItem, Bot, Citation } from '../types';
+import { StorageEstimate } from '../services/storageService';
+import { ContextBudget, budgetRatio, documentBudgetRatio, estimateDocumentUsage, estimateKnowledgeUsage, getBudgetStatus, getDocumentBudgetStatus } from '../services/contextBudget';
+import { RedactionRule, segmentRedactions } from '../services/redactionService';
+import { KnowledgeContent, SUPPORTED_FILE_TYPES, UnsupportedFileError, parseDocumentFile } from '../services/documentParser';
+import { useI18n } from './I18nProvider';
 
 /**
  * @interface KnowledgeManagerProps
  * @property {KnowledgeItem[]} knowledgeBase - The current list of knowledge items.
  * @property {(item: KnowledgeItem) => void} onAddKnowledge - Callback function to add a new knowledge item.
+ * @property {(item: KnowledgeItem) => void} onUpdateKnowledge - Callback function to save a renamed or replaced knowledge item.
+ * @property {(itemIds: string[]) => void} onRemoveKnowledge - Callback function to remove knowledge items.
  * @property {Bot} bot - The currently selected bot.
+ * @property {Citation | null} activeCitation - The citation whose passage should be shown, if any.
+ * @property {() => void} onCloseCitation - Callback function to close the cited passage.
+ * @property {StorageEstimate | null} storageEstimate - The storage used by the saved knowledge, if known.
+ * @property {ContextBudget} contextBudget - How much knowledge a question may carry to the model.
+ * @property {RedactionRule[]} redactionRules - The rules that hide personal data from the model, previewed by HR.
+ * @property {() => void} onExportPack - Callback function to download the bot and its knowledge as a knowledge pack.
+ * @property {(file: File) => void} onImportPack - Callback function to import a knowledge pack file.
+ * @property {boolean} readOnly - Whether the knowledge can only be read, as for employees; only HR can change it.
  */
 interface KnowledgeManagerProps {
     knowledgeBase: KnowledgeItem[];
     onAddKnowledge: (item: KnowledgeItem) => void;
+    onUpdateKnowledge: (item: KnowledgeItem) => void;
+    onRemoveKnowledge: (itemIds: string[]) => void;
     bot: Bot;
+    activeCitation: Citation | null;
+    onCloseCitation: () => void;
+    storageEstimate: StorageEstimate | null;
+    contextBudget: ContextBudget;
+    redactionRules: RedactionRule[];
+    onExportPack: () => void;
+    onImportPack: (file: File) => void;
+    readOnly: boolean;
 }
 
+/**
+ * Formats a number of bytes as a human-readable size.
+ * @param {number} bytes - The number of bytes.
+ * @returns {string} The formatted size, e.g. "12.3 MB".
+ */
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Colors of the context meter when the knowledge nears or exceeds the budget.
+const BUDGET_COLORS = { warning: '#F59E0B', over: '#EF4444' };
+
+// Number of characters shown around a cited passage.
+const PASSAGE_CONTEXT = 400;
+
+/**
+ * Splits a document around the first occurrence of a quote so the quote can be highlighted.
+ * Whitespace differences between the quote and the document are ignored.
+ * @param {string} content - The document content.
+ * @param {string} quote - The quoted passage.
+ * @returns {{ before: string; match: string; after: string } | null} The surrounding text and the match, or null if the quote is not found.
+ */
+const locateQuote = (content: string, quote: string): { before: string; match: string; after: string } | null => {
+    const words = quote.trim().split(/\s+/).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (words.length === 0 || !words[0]) return null;
+    const match = new RegExp(words.join('\\s+'), 'i').exec(content);
+    if (!match) return null;
+    const start = match.index;
+    const end = start + match[0].length;
+    return {
+        before: (start > PASSAGE_CONTEXT ? '…' : '') + content.slice(Math.max(0, start - PASSAGE_CONTEXT), start),
+        match: match[0],
+        after: content.slice(end, end + PASSAGE_CONTEXT) + (end + PASSAGE_CONTEXT < content.length ? '…' : ''),
+    };
+};
+
 /**
  * A component that manages the knowledge base of the assistant.
- * It allows users to add text and upload files (images, PDFs) to the knowledge base.
+ * It allows users to add text and upload files (images, PDFs, Word, Markdown, HTML, text and CSV documents),
+ * by picking them or dropping them on the sidebar, to the knowledge base, and to view,
+ * rename, replace and delete the items it holds.
  * @param {KnowledgeManagerProps} props - The props for the component.
  * @returns {React.ReactElement} The rendered knowledge manager component.
  */
-const KnowledgeManager: React.FC<KnowledgeManagerProps> = ({ knowledgeBase, onAddKnowledge, bot }) => {
+const KnowledgeManager: React.FC<KnowledgeManagerProps> = ({ knowledgeBase, onAddKnowledge, onUpdateKnowledge, onRemoveKnowledge, bot, activeCitation, onCloseCitation, storageEstimate, contextBudget, redactionRules, onExportPack, onImportPack, readOnly }) => {
+    const { locale, t } = useI18n();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const replaceInputRef = useRef<HTMLInputElement>(null);
+    const packInputRef = useRef<HTMLInputElement>(null);
+    const passageRef = useRef<HTMLElement>(null);
     const [showTextModal, setShowTextModal] = useState(false);
     const [textContent, setTextContent] = useState('');
     const [textName, setTextName] = useState('');
     const [isParsing, setIsParsing] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+    const [previewItem, setPreviewItem] = useState<KnowledgeItem | null>(null);
+    const [replacingItem, setReplacingItem] = useState<KnowledgeItem | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [showRedactions, setShowRedactions] = useState(false);
+
+    /**
+     * Effect to scroll the highlighted passage into view whenever a new citation is opened.
+     */
+    useEffect(() => {
+        passageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [activeCitation]);
+
+    /**
+     * Effect to drop selected IDs of items that are no longer in the knowledge base (e.g. after switching bots).
+     */
+    useEffect(() => {
+        setSelectedIds((prev) => {
+            const remaining = [...prev].filter(id => knowledgeBase.some(item => item.id === id));
+            return remaining.length === prev.size ? prev : new Set(remaining);
+        });
+    }, [knowledgeBase]);
+
+    const contextUsage = useMemo(() => estimateKnowledgeUsage(knowledgeBase), [knowledgeBase]);
+    const contextStatus = getBudgetStatus(contextUsage, contextBudget);
+    const contextColor = contextStatus === 'ok' ? bot.themeColor : BUDGET_COLORS[contextStatus];
+    // Quizzes and the FAQ carry the whole text of the documents rather than the passages retrieved for a question.
+    const documentUsage = useMemo(() => estimateDocumentUsage(knowledgeBase), [knowledgeBase]);
+    const documentStatus = getDocumentBudgetStatus(documentUsage, contextBudget);
+    const documentColor = documentStatus === 'ok' ? bot.themeColor : BUDGET_COLORS[documentStatus];
+
+    // HR can preview which personal data of a document is hidden from the model.
+    const canPreviewRedactions = !readOnly && redactionRules.length > 0 && previewItem?.type === 'text';
+    const redactionCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        if (canPreviewRedactions && previewItem) {
+            segmentRedactions(previewItem.content, redactionRules)
+                .forEach(segment => segment.rule && counts.set(segment.rule.label, (counts.get(segment.rule.label) ?? 0) + 1));
+        }
+        return counts;
+    }, [canPreviewRedactions, previewItem, redactionRules]);
+
+    /**
+     * Renders the text of the document being previewed, highlighting the personal data hidden from the model when asked to.
+     * @param {string} text - The text.
+     * @returns {React.ReactNode} The rendered text.
+     */
+    const renderPreviewText = (text: string): React.ReactNode => {
+        if (!canPreviewRedactions || !showRedactions) return text;
+        return segmentRedactions(text, redactionRules).map((segment, index) => segment.rule
+            ? <mark key={index} className="bg-amber-200 dark:bg-amber-700 dark:text-white rounded px-0.5" title={segment.rule.label}>{segment.text}</mark>
+            : segment.text);
+    };
+
+    /**
+     * Opens the preview of a knowledge item, showing its text as it is.
+     * @param {KnowledgeItem} item - The item.
+     */
+    const openPreview = (item: KnowledgeItem) => {
+        setShowRedactions(false);
+        setPreviewItem(item);
+    };
+
+    const citedItem = activeCitation ? knowledgeBase.find(item => item.id === activeCitation.itemId) : undefined;
+    const citedPassage = activeCitation && citedItem?.type === 'text' ? locateQuote(citedItem.content, activeCitation.quote) : null;
+
+    /**
+     * Reads an uploaded file, reporting unsupported types and read errors to the user.
+     * @param {File} file - The uploaded file.
+     * @returns {Promise<KnowledgeContent | null>} The content, or null if the file could not be used.
+     */
+    const parseFile = async (file: File): Promise<KnowledgeContent | null> => {
+        try {
+            return await parseDocumentFile(file);
+        } catch (error) {
+            if (error instanceof UnsupportedFileError) {
+                alert(t('knowledge.unsupportedFile', { name: file.name }));
+            } else {
+                console.error("Error al procesar el archivo:", error);
+                alert(t('knowledge.readError', { name: file.name }));
+            }
+            return null;
+        }
+    };
+
+    /**
+     * Reads a list of files one after another and adds each one to the knowledge base.
+     * @param {File[]} files - The uploaded files.
+     */
+    const addFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setIsParsing(true);
+        try {
+            for (const file of files) {
+                const content = await parseFile(file);
+                if (content) {
+                    onAddKnowledge({ id: crypto.randomUUID(), name: file.name, ...content });
+                }
+            }
+        } finally {
+            setIsParsing(false);
+        }
+    };
 
     /**
      * Handles the change event of the file input.
-     * It reads the selected file and adds it to the knowledge base.
-     * Supports image and PDF files.
+     * It reads the selected files and adds them to the knowledge base.
      * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
      */
-    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = '';
+        addFiles(files);
+    };
+
+    /**
+     * Handles files dropped on the sidebar.
+     * @param {React.DragEvent<HTMLElement>} event - The drop event.
+     */
+    const handleDrop = (event: React.DragEvent<HTMLElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        if (!isParsing) addFiles(Array.from(event.dataTransfer.files));
+    };
+
+    /**
+     * Highlights the sidebar while files are dragged over it.
+     * @param {React.DragEvent<HTMLElement>} event - The drag event.
+     */
+    const handleDragOver = (event: React.DragEvent<HTMLElement>) => {
+        if (readOnly || !event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        setIsDragging(true);
+    };
+
+    /**
+     * Handles the change event of the replace input.
+     * It replaces the content of the item being replaced with the selected file, keeping its ID and name
+     * so citations and saved conversations still point to it.
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+     */
+    const handleReplaceFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (!file) return;
-
-        if (file.type.startsWith('image/')) {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                const result = e.target?.result as string;
-                onAddKnowledge({
-                    id: crypto.randomUUID(),
-                    name: file.name,
-                    type: 'image',
-                    content: result,
-                    mimeType: file.type,
-                });
-            };
-            reader.readAsDataURL(file);
-        } else if (file.type === 'application/pdf') {
-            setIsParsing(true);
-            try {
-                pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.min.mjs';
-                const reader = new FileReader();
-                reader.onload = async (e) => {
-                    try {
-                        const typedArray = new Uint8Array(e.target?.result as ArrayBuffer);
-                        const pdf = await pdfjsLib.getDocument(typedArray).promise;
-                        let fullText = '';
-                        for (let i = 1; i <= pdf.numPages; i++) {
-                            const page = await pdf.getPage(i);
-                            const textContent = await page.getTextContent();
-                            const pageText = textContent.items.map((item: { str: string }) => item.str).join(' ');
-                            fullText += pageText + '\n\n';
-                        }
-                        onAddKnowledge({
-                            id: crypto.randomUUID(),
-                            name: file.name,
-                            type: 'text', // El contenido del PDF se trata como texto
-                            content: fullText.trim(),
-                        });
-                    } catch (pdfError) {
-                        console.error("Error parsing PDF:", pdfError);
-                        alert('Hubo un error al leer el archivo PDF.');
-                    } finally {
-                        setIsParsing(false);
-                    }
-                };
-                reader.onerror = () => {
-                    console.error("Error al leer el archivo");
-                    alert("Error al leer el archivo.");
-                    setIsParsing(false);
-                };
-                reader.readAsArrayBuffer(file);
-            } catch (error) {
-                console.error("Error al procesar PDF:", error);
-                alert('No se pudo procesar el PDF. Por favor, intenta de nuevo.');
-                setIsParsing(false);
-            }
-        } else {
-            alert('Por favor, selecciona un archivo de imagen (JPEG, PNG, WEBP) o un PDF.');
+        const item = replacingItem;
+        event.target.value = '';
+        setReplacingItem(null);
+        if (!file || !item) return;
+
+        setIsParsing(true);
+        const content = await parseFile(file);
+        setIsParsing(false);
+        if (content) {
+            onUpdateKnowledge({ id: item.id, name: item.name, ...content });
         }
+    };
+
+    /**
+     * Handles the change event of the knowledge pack input.
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+     */
+    const handlePackFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
         event.target.value = '';
+        if (file) onImportPack(file);
+    };
+
+    /**
+     * Opens the file picker to replace an item with a new version.
+     * @param {KnowledgeItem} item - The item to replace.
+     */
+    const startReplacing = (item: KnowledgeItem) => {
+        setReplacingItem(item);
+        replaceInputRef.current?.click();
+    };
+
+    /**
+     * Starts renaming an item.
+     * @param {KnowledgeItem} item - The item to rename.
+     */
+    const startEditing = (item: KnowledgeItem) => {
+        setEditingId(item.id);
+        setEditingName(item.name);
+    };
+
+    /**
+     * Saves the name being edited, ignoring empty or unchanged names.
+     */
+    const commitEditing = () => {
+        const item = knowledgeBase.find(i => i.id === editingId);
+        if (item && editingName.trim() && editingName.trim() !== item.name) {
+            onUpdateKnowledge({ ...item, name: editingName.trim() });
+        }
+        setEditingId(null);
+    };
+
+    /**
+     * Asks for confirmation before deleting an item.
+     * @param {KnowledgeItem} item - The item to delete.
+     */
+    const confirmDelete = (item: KnowledgeItem) => {
+        if (window.confirm(t('knowledge.confirmDelete', { name: item.name }))) {
+            onRemoveKnowledge([item.id]);
+        }
+    };
+
+    /**
+     * Asks for confirmation before deleting every selected item.
+     */
+    const confirmBulkDelete = () => {
+        if (window.confirm(t('knowledge.confirmBulkDelete', { count: selectedIds.size }))) {
+            onRemoveKnowledge([...selectedIds]);
+            setSelectedIds(new Set());
+        }
+    };
+
+    /**
+     * Adds an item to the selection or removes it.
+     * @param {string} itemId - The ID of the item.
+     */
+    const toggleSelected = (itemId: string) => {
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(itemId)) next.delete(itemId);
+            else next.add(itemId);
+            return next;
+        });
     };
 
+    const allSelected = knowledgeBase.length > 0 && selectedIds.size === knowledgeBase.length;
+
     /**
      * Handles the addition of a new text-based knowledge item from the modal.
      */
@@ -150,37 +379,238 @@ const KnowledgeManager: React.FC<KnowledgeManagerProps> = ({ knowledgeBase, onAd
 
     return (
         <>
-            <aside className="w-80 bg-white dark:bg-gray-800 p-4 flex flex-col border-r border-gray-200 dark:border-gray-700 shadow-lg">
+            <aside
+                className="w-80 bg-white dark:bg-gray-800 p-4 flex flex-col border-r border-gray-200 dark:border-gray-700 shadow-lg relative"
+                style={isDragging ? { outline: `4px dashed ${bot.themeColor}`, outlineOffset: '-4px' } : undefined}
+                onDragOver={handleDragOver}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+                onDrop={handleDrop}
+            >
+                {isDragging && (
+                    <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/80 dark:bg-gray-800/80 pointer-events-none">
+                        <p className="text-sm font-semibold" style={{ color: bot.themeColor }}>{t('knowledge.dropHint')}</p>
+                    </div>
+                )}
                 <h2
                   className="text-lg font-bold mb-4 pb-2 border-b-2"
                   style={{ borderBottomColor: bot.themeColor }}
                 >
-                  Memoria del Asistente
+                  {readOnly ? t('knowledge.titleEmployee') : t('knowledge.titleAdmin')}
                 </h2>
+                {activeCitation && (
+                    <div className="mb-4 p-3 rounded-md border-l-4 bg-gray-50 dark:bg-gray-900 max-h-80 overflow-y-auto" style={{ borderLeftColor: bot.themeColor }}>
+                        <div className="flex items-start justify-between gap-2 mb-2">
+                            <div className="min-w-0">
+                                <p className="text-sm font-semibold truncate" title={activeCitation.itemName}>{activeCitation.itemName}</p>
+                                {activeCitation.location && <p className="text-xs text-gray-500 dark:text-gray-400">{activeCitation.location}</p>}
+                            </div>
+                            <button onClick={onCloseCitation} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label={t('knowledge.closeCitation')}>✕</button>
+                        </div>
+                        {!citedItem && <p className="text-xs text-gray-500 dark:text-gray-400">{t('knowledge.citedItemMissing')}</p>}
+                        {citedItem?.type === 'image' && <img src={citedItem.content} alt={citedItem.name} className="rounded-md mb-2" />}
+                        {citedPassage ? (
+                            <p className="text-xs whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                                {citedPassage.before}
+                                <mark ref={passageRef} className="rounded px-0.5 text-gray-900" style={{ backgroundColor: `${bot.themeColor}40` }}>{citedPassage.match}</mark>
+                                {citedPassage.after}
+                            </p>
+                        ) : (
+                            citedItem && <blockquote className="text-xs italic text-gray-700 dark:text-gray-300">"{activeCitation.quote}"</blockquote>
+                        )}
+                    </div>
+                )}
+                {!readOnly && knowledgeBase.length > 0 && (
+                    <div className="flex items-center justify-between mb-2 text-xs text-gray-500 dark:text-gray-400">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={() => setSelectedIds(allSelected ? new Set() : new Set(knowledgeBase.map(item => item.id)))}
+                            />
+                            {t('knowledge.selectAll')}
+                        </label>
+                        {selectedIds.size > 0 && (
+                            <button onClick={confirmBulkDelete} className="font-medium text-red-500 hover:underline">
+                                {t('knowledge.deleteSelected', { count: selectedIds.size })}
+                            </button>
+                        )}
+                    </div>
+                )}
                 <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-                    {knowledgeBase.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">La memoria está vacía. Añade documentos o imágenes.</p>}
+                    {knowledgeBase.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {readOnly ? t('knowledge.emptyEmployee') : t('knowledge.emptyAdmin')}
+                        </p>
+                    )}
                     {knowledgeBase.map(item => (
-                        <div key={item.id} className="p-2 rounded-md bg-gray-100 dark:bg-gray-700 flex items-center space-x-2">
-                            <span className="text-lg">{item.type === 'text' ? '📄' : '🖼️'}</span>
-                            <span className="text-sm truncate" title={item.name}>{item.name}</span>
+                        <div key={item.id} className="group p-2 rounded-md bg-gray-100 dark:bg-gray-700">
+                            <div className="flex items-center space-x-2">
+                                {!readOnly && (
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.has(item.id)}
+                                        onChange={() => toggleSelected(item.id)}
+                                        aria-label={t('knowledge.selectItem', { name: item.name })}
+                                    />
+                                )}
+                                <span className="text-lg">{item.type === 'text' ? '📄' : '🖼️'}</span>
+                                {editingId === item.id ? (
+                                    <input
+                                        autoFocus
+                                        value={editingName}
+                                        onChange={(e) => setEditingName(e.target.value)}
+                                        onBlur={commitEditing}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitEditing();
+                                            if (e.key === 'Escape') setEditingId(null);
+                                        }}
+                                        className="flex-1 min-w-0 p-1 text-sm border rounded bg-gray-50 dark:bg-gray-600 dark:border-gray-500"
+                                    />
+                                ) : (
+                                    <button onClick={() => openPreview(item)} className="flex-1 min-w-0 text-left text-sm truncate hover:underline" title={item.name}>
+                                        {item.name}
+                                    </button>
+                                )}
+                            </div>
+                            {!readOnly && editingId !== item.id && (
+                                <div className="flex gap-3 mt-1 pl-6 text-xs text-gray-500 dark:text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={() => openPreview(item)} className="hover:underline">{t('knowledge.view')}</button>
+                                    <button onClick={() => startEditing(item)} className="hover:underline">{t('knowledge.rename')}</button>
+                                    <button onClick={() => startReplacing(item)} disabled={isParsing} className="hover:underline disabled:cursor-not-allowed">{t('knowledge.replace')}</button>
+                                    <button onClick={() => confirmDelete(item)} className="hover:underline hover:text-red-500">{t('knowledge.delete')}</button>
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
-                <div className="mt-4 pt-4 border-t dark:border-gray-600 space-y-3">
-                    <ActionButton onClick={() => setShowTextModal(true)} disabled={isParsing} icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>} label="Añadir Texto" />
-                    <ActionButton onClick={() => fileInputRef.current?.click()} disabled={isParsing} icon={isParsing ? <LoadingSpinner /> : <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>} label={isParsing ? "Procesando..." : "Subir Archivo"} />
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/png, image/jpeg, image/webp, application/pdf" className="hidden" />
-                </div>
+                {!readOnly && (
+                    <div className="mt-4 pt-4 border-t dark:border-gray-600 space-y-3">
+                        <ActionButton onClick={() => setShowTextModal(true)} disabled={isParsing} icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>} label={t('knowledge.addText')} />
+                        <ActionButton onClick={() => fileInputRef.current?.click()} disabled={isParsing} icon={isParsing ? <LoadingSpinner /> : <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>} label={isParsing ? t('knowledge.processing') : t('knowledge.uploadFile')} />
+                        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                            <button onClick={onExportPack} disabled={knowledgeBase.length === 0} className="hover:underline disabled:opacity-50 disabled:no-underline">{t('knowledge.exportPack')}</button>
+                            <button onClick={() => packInputRef.current?.click()} disabled={isParsing} className="hover:underline disabled:opacity-50">{t('knowledge.importPack')}</button>
+                        </div>
+                        {storageEstimate && storageEstimate.quota > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                <div className="flex justify-between mb-1">
+                                    <span>{t('knowledge.storage')}</span>
+                                    <span>{t('knowledge.storageUsage', { usage: formatBytes(storageEstimate.usage), quota: formatBytes(storageEstimate.quota) })}</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                                    <div
+                                        className="h-full rounded-full"
+                                        style={{ width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%`, backgroundColor: bot.themeColor }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        {knowledgeBase.length > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                <div className="flex justify-between mb-1">
+                                    <span>{t('knowledge.context')}</span>
+                                    <span>{t('knowledge.contextUsage', { tokens: contextUsage.tokens.toLocaleString(locale), limit: contextBudget.maxTokens.toLocaleString(locale) })}</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                                    <div
+                                        className="h-full rounded-full"
+                                        style={{ width: `${Math.min(100, budgetRatio(contextUsage, contextBudget) * 100)}%`, backgroundColor: contextColor }}
+                                    />
+                                </div>
+                                {contextUsage.images > 0 && (
+                                    <p className="mt-1">{t('knowledge.contextImages', { count: contextUsage.images, limit: contextBudget.maxImages })}</p>
+                                )}
+                                {contextStatus !== 'ok' && (
+                                    <p className="mt-1" style={{ color: contextColor }}>
+                                        {contextStatus === 'warning'
+                                            ? t('knowledge.contextWarning')
+                                            : t(contextBudget.overflow === 'refuse' ? 'knowledge.contextOverRefuse' : 'knowledge.contextOverTrim')}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {documentUsage.chunks > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                <div className="flex justify-between mb-1">
+                                    <span>{t('knowledge.documentContext')}</span>
+                                    <span>{t('knowledge.contextUsage', { tokens: documentUsage.usage.tokens.toLocaleString(locale), limit: contextBudget.maxTokens.toLocaleString(locale) })}</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                                    <div
+                                        className="h-full rounded-full"
+                                        style={{ width: `${Math.min(100, documentBudgetRatio(documentUsage, contextBudget) * 100)}%`, backgroundColor: documentColor }}
+                                    />
+                                </div>
+                                <p className="mt-1">{t('knowledge.documentChunks', { count: documentUsage.chunks, limit: contextBudget.maxDocumentChunks })}</p>
+                                {documentStatus !== 'ok' && (
+                                    <p className="mt-1" style={{ color: documentColor }}>
+                                        {documentStatus === 'warning'
+                                            ? t('knowledge.documentWarning')
+                                            : t(contextBudget.overflow === 'refuse' ? 'knowledge.documentOverRefuse' : 'knowledge.documentOverTrim')}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={SUPPORTED_FILE_TYPES} multiple className="hidden" />
+                        <input type="file" ref={replaceInputRef} onChange={handleReplaceFileChange} accept={SUPPORTED_FILE_TYPES} className="hidden" />
+                        <input type="file" ref={packInputRef} onChange={handlePackFileChange} accept=".json,application/json" className="hidden" />
+                    </div>
+                )}
             </aside>
             {showTextModal && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
                     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
-                        <h3 className="text-lg font-bold mb-4">Añadir Conocimiento de Texto</h3>
-                        <input type="text" value={textName} onChange={(e) => setTextName(e.target.value)} placeholder="Nombre del documento (ej. 'Política de Vacaciones')" className="w-full p-2 mb-4 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600" />
-                        <textarea value={textContent} onChange={(e) => setTextContent(e.target.value)} placeholder="Pega aquí el contenido del manual o política..." className="w-full h-40 p-2 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600"></textarea>
+                        <h3 className="text-lg font-bold mb-4">{t('knowledge.textModalTitle')}</h3>
+                        <input type="text" value={textName} onChange={(e) => setTextName(e.target.value)} placeholder={t('knowledge.textNamePlaceholder')} className="w-full p-2 mb-4 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600" />
+                        <textarea value={textContent} onChange={(e) => setTextContent(e.target.value)} placeholder={t('knowledge.textContentPlaceholder')} className="w-full h-40 p-2 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600"></textarea>
                         <div className="flex justify-end space-x-4 mt-4">
-                            <button onClick={() => setShowTextModal(false)} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">Cancelar</button>
-                            <button onClick={handleAddText} className="px-4 py-2 rounded text-white" style={{backgroundColor: bot.themeColor}}>Añadir</button>
+                            <button onClick={() => setShowTextModal(false)} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">{t('knowledge.cancel')}</button>
+                            <button onClick={handleAddText} className="px-4 py-2 rounded text-white" style={{backgroundColor: bot.themeColor}}>{t('knowledge.add')}</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {previewItem && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={() => setPreviewItem(null)}>
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex items-start justify-between gap-4 mb-4">
+                            <div className="min-w-0">
+                                <h3 className="text-lg font-bold truncate" title={previewItem.name}>{previewItem.name}</h3>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {previewItem.type === 'text'
+                                        ? `${previewItem.pages ? t('knowledge.pageCount', { count: previewItem.pages.length }) : ''}${t('knowledge.charCount', { count: previewItem.content.length.toLocaleString(locale) })}`
+                                        : previewItem.mimeType}
+                                </p>
+                            </div>
+                            <button onClick={() => setPreviewItem(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label={t('knowledge.closePreview')}>✕</button>
+                        </div>
+                        {canPreviewRedactions && (
+                            <div className="flex items-center justify-between gap-4 mb-3 text-xs text-gray-600 dark:text-gray-300">
+                                <p>
+                                    {redactionCounts.size > 0
+                                        ? t('knowledge.redactionSummary', { items: [...redactionCounts].map(([label, count]) => `${label} (${count})`).join(', ') })
+                                        : t('knowledge.redactionNone')}
+                                </p>
+                                {redactionCounts.size > 0 && (
+                                    <button onClick={() => setShowRedactions(!showRedactions)} className="whitespace-nowrap hover:underline" style={{ color: bot.themeColor }}>
+                                        {showRedactions ? t('knowledge.redactionHide') : t('knowledge.redactionShow')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        <div className="flex-1 overflow-y-auto rounded border dark:border-gray-600 bg-gray-50 dark:bg-gray-900 p-3">
+                            {previewItem.type === 'image' ? (
+                                <img src={previewItem.content} alt={previewItem.name} className="max-w-full mx-auto rounded-md" />
+                            ) : previewItem.pages ? (
+                                previewItem.pages.map(page => (
+                                    <section key={page.pageNumber} className="mb-4">
+                                        <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 pb-1 border-b dark:border-gray-700">{t('knowledge.page', { page: page.pageNumber })}</p>
+                                        <p className="text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300">{renderPreviewText(page.text)}</p>
+                                    </section>
+                                ))
+                            ) : (
+                                <p className="text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300">{renderPreviewText(previewItem.content)}</p>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, KnowledgeItem } from '../types';
+import { KnowledgeImportMode, KnowledgeImportPlan, KnowledgePack, planKnowledgeImport } from '../services/knowledgePackService';
+
+/**
+ * @interface KnowledgePackDialogProps
+ * @property {KnowledgePack} pack - The pack being imported.
+ * @property {Bot} bot - The bot whose memory receives the pack.
+ * @property {KnowledgeItem[]} knowledgeBase - The bot's current knowledge items.
+ * @property {(plan: KnowledgeImportPlan, applyBotConfig: boolean) => void} onImport - Callback function to import the pack.
+ * @property {() => void} onClose - Callback function to close the dialog without importing.
+ */
+interface KnowledgePackDialogProps {
+  pack: KnowledgePack;
+  bot: Bot;
+  knowledgeBase: KnowledgeItem[];
+  onImport: (plan: KnowledgeImportPlan, applyBotConfig: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal dialog that summarizes a knowledge pack and asks whether to merge it with the
+ * knowledge base or replace it, and whether to apply the bot configuration it carries.
+ * @param {KnowledgePackDialogProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered dialog.
+ */
+const KnowledgePackDialog: React.FC<KnowledgePackDialogProps> = ({ pack, bot, knowledgeBase, onImport, onClose }) => {
+  const [mode, setMode] = useState<KnowledgeImportMode>('merge');
+  const [applyBotConfig, setApplyBotConfig] = useState(false);
+  const [plan, setPlan] = useState<KnowledgeImportPlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  // Bumped by "Reintentar" to work out the import again after an error.
+  const [attempt, setAttempt] = useState(0);
+
+  /**
+   * Effect to work out the import again whenever the mode changes, to show how many duplicates are skipped.
+   * The result of a run that was superseded, e.g. by a later change of mode, is dropped.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    setPlan(null);
+    setPlanError(null);
+    planKnowledgeImport(pack, knowledgeBase, mode)
+      .then((result) => {
+        if (!cancelled) setPlan(result);
+      })
+      .catch((err) => {
+        console.error('Error planning the knowledge pack import:', err);
+        if (!cancelled) setPlanError(err instanceof Error ? err.message : 'Error desconocido.');
+      });
+    return () => { cancelled = true; };
+  }, [pack, knowledgeBase, mode, attempt]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+        <h3 className="text-lg font-bold mb-2">Importar paquete de conocimiento</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Paquete de {pack.bot.name}, exportado el {new Date(pack.exportedAt).toLocaleString('es')}, con {pack.items.length} documento(s).
+        </p>
+
+        <label className="flex items-start gap-2 mb-2 text-sm">
+          <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+          <span><strong>Combinar:</strong> añade los documentos nuevos y conserva los {knowledgeBase.length} que ya hay en la memoria.</span>
+        </label>
+        <label className="flex items-start gap-2 mb-4 text-sm">
+          <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+          <span><strong>Reemplazar:</strong> elimina los documentos actuales de {bot.name} y deja solo los del paquete.</span>
+        </label>
+
+        <label className="flex items-start gap-2 mb-4 text-sm">
+          <input type="checkbox" checked={applyBotConfig} onChange={(e) => setApplyBotConfig(e.target.checked)} className="mt-1" />
+          <span>Aplicar también la configuración del asistente del paquete (nombre, logotipo, colores, bienvenida, personalidad y reglas).</span>
+        </label>
+
+        {planError ? (
+          <div className="text-sm mb-4 p-3 rounded bg-red-50 dark:bg-red-900/30 text-red-500">
+            No se pudo preparar la importación: {planError}{' '}
+            <button onClick={() => setAttempt((n) => n + 1)} className="underline font-medium">Reintentar</button>
+          </div>
+        ) : (
+          <p className="text-sm mb-4 p-3 rounded bg-gray-100 dark:bg-gray-700">
+            {plan
+              ? `Se añadirán ${plan.toAdd.length} documento(s)${plan.toRemove.length ? ` y se eliminarán ${plan.toRemove.length}` : ''}. ${plan.duplicates} duplicado(s) se omitirán.`
+              : 'Buscando duplicados...'}
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} className="px-4 py-2 rounded text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">Cancelar</button>
+          <button
+            onClick={() => plan && onImport(plan, applyBotConfig)}
+            disabled={!plan}
+            className="px-4 py-2 rounded text-white disabled:bg-gray-400"
+            style={plan ? { backgroundColor: bot.themeColor } : undefined}
+          >
+            Importar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgePackDialog;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { LOCALES, Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+/**
+ * A compact select to change the interface language.
+ * @returns {React.ReactElement} The rendered switcher.
+ */
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('language.label')}
+      title={t('language.label')}
+      className="text-sm px-2 py-1 rounded border bg-white dark:bg-gray-700 dark:border-gray-600"
+    >
+      {(Object.keys(LOCALES) as Locale[]).map((key) => (
+        <option key={key} value={key}>{LOCALES[key].label}</option>
+      ))}
+    </select>
+  );
+};
+
+export default LanguageSwitcher;
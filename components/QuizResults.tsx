@@ -0,0 +1,118 @@
+import React from 'react';
+import { Bot, QuizResult } from '../types';
+import { isQuizPassed } from '../services/quizService';
+
+/**
+ * @interface QuizResultsProps
+ * @property {Bot} bot - The bot whose quizzes were taken.
+ * @property {QuizResult[]} results - The results, most recent first.
+ * @property {() => void} onClose - Callback function to close the view.
+ */
+interface QuizResultsProps {
+  bot: Bot;
+  results: QuizResult[];
+  onClose: () => void;
+}
+
+/**
+ * Formats a time for the result list.
+ * @param {number} time - The time, in milliseconds since the epoch.
+ * @returns {string} The formatted date and time.
+ */
+const formatTime = (time: number): string => new Date(time).toLocaleString('es', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Groups results by employee, identified by their email address.
+ * @param {QuizResult[]} results - The results, most recent first.
+ * @returns {QuizResult[][]} The results of each employee, most recent first, starting with the employee who took a quiz last.
+ */
+const groupByEmployee = (results: QuizResult[]): QuizResult[][] => {
+  const groups = new Map<string, QuizResult[]>();
+  results.forEach((result) => {
+    const key = result.employee.email.toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), result]);
+  });
+  return [...groups.values()];
+};
+
+/**
+ * A single attempt at a quiz, with the questions the employee got wrong.
+ * @param {object} props - The props for the component.
+ * @param {QuizResult} props.result - The result.
+ * @returns {React.ReactElement} The rendered attempt.
+ */
+const AttemptRow: React.FC<{ result: QuizResult }> = ({ result }) => {
+  const { quiz, answers, score } = result;
+  const total = quiz.questions.length;
+  const mistakes = quiz.questions.map((question, i) => ({ question, answer: answers[i] })).filter(({ question, answer }) => answer !== question.answerIndex);
+
+  return (
+    <li className="text-xs">
+      <details>
+        <summary className="cursor-pointer select-none">
+          {formatTime(result.completedAt)} · {score}/{total}{' '}
+          <span className={isQuizPassed(score, total) ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}>
+            {isQuizPassed(score, total) ? 'Aprobado' : 'No aprobado'}
+          </span>
+          {' '}· {quiz.itemNames.join(', ')}
+        </summary>
+        {mistakes.length === 0 ? (
+          <p className="mt-1 ml-4 text-gray-500 dark:text-gray-400">Todas las respuestas son correctas.</p>
+        ) : (
+          <ul className="mt-1 ml-4 space-y-1">
+            {mistakes.map(({ question, answer }) => (
+              <li key={question.id}>
+                <p className="font-semibold">{question.question}</p>
+                <p className="text-red-600 dark:text-red-400">Respondió: {answer === null ? 'sin responder' : question.options[answer]}</p>
+                <p className="text-green-600 dark:text-green-400">Correcta: {question.options[question.answerIndex]}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </details>
+    </li>
+  );
+};
+
+/**
+ * A modal view of the training quizzes taken by employees with a bot, grouped by employee, so that HR can
+ * check who has read the documents, e.g. the code of conduct during onboarding.
+ * @param {QuizResultsProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered results view.
+ */
+const QuizResults: React.FC<QuizResultsProps> = ({ bot, results, onClose }) => {
+  const employees = groupByEmployee(results);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold">Cuestionarios de {bot.name} ({employees.length} empleados)</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-xl leading-none" aria-label="Cerrar">×</button>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {employees.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">Ningún empleado ha hecho todavía un cuestionario.</p>}
+          {employees.map((attempts) => {
+            const { employee } = attempts[0];
+            const passed = attempts.some((result) => isQuizPassed(result.score, result.quiz.questions.length));
+            return (
+              <div key={employee.email.toLowerCase()} className="p-3 rounded border dark:border-gray-600 text-sm">
+                <div className="flex justify-between gap-2">
+                  <p className="font-semibold">{employee.name} &lt;{employee.email}&gt;</p>
+                  <span className={`text-xs whitespace-nowrap ${passed ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {passed ? 'Ha aprobado' : 'Pendiente de aprobar'} · {attempts.length} {attempts.length === 1 ? 'intento' : 'intentos'}
+                  </span>
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {attempts.map((result) => <AttemptRow key={result.id} result={result} />)}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizResults;
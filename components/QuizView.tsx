@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { Bot, KnowledgeItem, Quiz, QuizResult } from '../types';
+import { DEFAULT_QUIZ_LENGTH, MAX_QUIZ_LENGTH, QUIZ_PASS_RATIO, isQuizPassed, scoreQuiz } from '../services/quizService';
+import { ContextOverflowError } from '../services/contextBudget';
+import { EMAIL_PATTERN } from './EscalationDialog';
+import BotAvatar from './BotAvatar';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface QuizViewProps
+ * @property {Bot} bot - The bot whose documents the quiz is about.
+ * @property {KnowledgeItem[]} knowledgeBase - The bot's knowledge base; only its text documents can be chosen.
+ * @property {(items: KnowledgeItem[], count: number) => Promise<Quiz>} onGenerate - Callback function to generate a quiz.
+ * @property {(result: QuizResult) => Promise<void>} onComplete - Callback function to save the result of a quiz.
+ * @property {() => void} onClose - Callback function to go back to the chat.
+ */
+interface QuizViewProps {
+  bot: Bot;
+  knowledgeBase: KnowledgeItem[];
+  onGenerate: (items: KnowledgeItem[], count: number) => Promise<Quiz>;
+  onComplete: (result: QuizResult) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * The training quiz mode: the employee chooses some documents, answers the multiple-choice questions
+ * generated from them and gets a score with the explanation and source of each question.
+ * The result is saved with the employee's name and email for HR review.
+ * @param {QuizViewProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered quiz view.
+ */
+const QuizView: React.FC<QuizViewProps> = ({ bot, knowledgeBase, onGenerate, onComplete, onClose }) => {
+  const { t } = useI18n();
+  const documents = knowledgeBase.filter((item) => item.type === 'text');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(documents.map((item) => item.id)));
+  const [count, setCount] = useState(DEFAULT_QUIZ_LENGTH);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Adds a document to the quiz or removes it.
+   * @param {string} id - The ID of the document.
+   */
+  const toggleDocument = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  /**
+   * Checks the employee's details and generates a quiz from the chosen documents.
+   * @param {React.FormEvent} event - The form submit event.
+   */
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (selectedIds.size === 0 || !name.trim() || !EMAIL_PATTERN.test(email.trim())) {
+      setError(t('quiz.invalidSetup'));
+      return;
+    }
+    setError(null);
+    setIsGenerating(true);
+    try {
+      const generated = await onGenerate(documents.filter((item) => selectedIds.has(item.id)), count);
+      setQuiz(generated);
+      setAnswers(generated.questions.map(() => null));
+      setResult(null);
+    } catch (err) {
+      setError(err instanceof ContextOverflowError ? t('quiz.tooLong') : t('quiz.error'));
+      console.error(err);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Scores the quiz, shows the result and saves it.
+   */
+  const handleSubmit = () => {
+    if (!quiz) return;
+    const completed: QuizResult = {
+      id: crypto.randomUUID(),
+      botId: quiz.botId,
+      employee: { name: name.trim(), email: email.trim() },
+      quiz,
+      answers,
+      score: scoreQuiz(quiz.questions, answers),
+      completedAt: Date.now(),
+    };
+    setResult(completed);
+    onComplete(completed).catch((err) => {
+      setError(t('quiz.saveError'));
+      console.error(err);
+    });
+  };
+
+  /**
+   * Goes back to the choice of documents to take another quiz.
+   */
+  const handleRetry = () => {
+    setQuiz(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const answeredCount = answers.filter((answer) => answer !== null).length;
+  const inputClass = 'w-full p-2 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600';
+
+  return (
+    <div className="min-h-screen font-sans bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header
+        className="bg-white dark:bg-gray-800 shadow-md p-4 flex items-center space-x-4 sticky top-0 z-10 border-b-4"
+        style={{ borderBottomColor: bot.themeColor }}
+      >
+        <BotAvatar bot={bot} className="w-12 h-12 rounded-full" />
+        <h1 className="text-xl font-bold flex-1">{t('quiz.title', { bot: bot.name })}</h1>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+        >
+          {t('quiz.back')}
+        </button>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 sm:p-6 space-y-4">
+        {!quiz && (
+          <form onSubmit={handleStart} className="bg-white dark:bg-gray-800 rounded-2xl shadow-md p-6 space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('quiz.intro')}</p>
+            {documents.length === 0 ? (
+              <p className="text-sm text-amber-600 dark:text-amber-400">{t('quiz.noDocuments')}</p>
+            ) : (
+              <fieldset>
+                <legend className="text-sm font-semibold mb-2">{t('quiz.documents')}</legend>
+                <div className="space-y-1 max-h-60 overflow-y-auto">
+                  {documents.map((item) => (
+                    <label key={item.id} className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggleDocument(item.id)} />
+                      <span className="truncate" title={item.name}>📄 {item.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              {t('quiz.count')}
+              <select value={count} onChange={(e) => setCount(Number(e.target.value))} className="p-1 border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600">
+                {Array.from({ length: MAX_QUIZ_LENGTH }, (_, i) => i + 1).map((n) => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('quiz.name')} className={inputClass} />
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t('quiz.email')} className={inputClass} />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <button
+              type="submit"
+              disabled={isGenerating || documents.length === 0}
+              className="px-4 py-2 rounded text-white disabled:bg-gray-400 disabled:cursor-not-allowed"
+              style={!isGenerating && documents.length > 0 ? { backgroundColor: bot.themeColor } : undefined}
+            >
+              {isGenerating ? t('quiz.generating') : t('quiz.start')}
+            </button>
+          </form>
+        )}
+
+        {quiz && !result && quiz.omittedItems && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">{t('quiz.omitted', { items: quiz.omittedItems.join(', ') })}</p>
+        )}
+
+        {quiz && result && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md p-6">
+            <p className="text-lg font-bold">{t('quiz.score', { score: result.score, total: quiz.questions.length })}</p>
+            <p className={`text-sm mt-1 ${isQuizPassed(result.score, quiz.questions.length) ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+              {isQuizPassed(result.score, quiz.questions.length) ? t('quiz.passed') : t('quiz.failed', { percent: Math.round(QUIZ_PASS_RATIO * 100) })}
+            </p>
+            {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+            <button onClick={handleRetry} className="mt-3 text-sm hover:underline" style={{ color: bot.themeColor }}>{t('quiz.retry')}</button>
+          </div>
+        )}
+
+        {quiz && quiz.questions.map((question, i) => {
+          const chosen = answers[i];
+          const isRight = chosen === question.answerIndex;
+          return (
+            <div
+              key={question.id}
+              className={`bg-white dark:bg-gray-800 rounded-2xl shadow-md p-6 ${result ? `border-l-4 ${isRight ? 'border-green-500' : 'border-red-500'}` : ''}`}
+            >
+              <p className="font-semibold">{i + 1}. {question.question}</p>
+              <div className="mt-3 space-y-2">
+                {question.options.map((option, j) => (
+                  <label
+                    key={j}
+                    className={`flex items-start gap-2 text-sm p-2 rounded ${result && j === question.answerIndex ? 'bg-green-50 dark:bg-green-900/30' : ''} ${result && j === chosen && !isRight ? 'bg-red-50 dark:bg-red-900/30' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name={question.id}
+                      checked={chosen === j}
+                      disabled={!!result}
+                      onChange={() => setAnswers((prev) => prev.map((answer, k) => (k === i ? j : answer)))}
+                      className="mt-1"
+                    />
+                    <span>{option}</span>
+                  </label>
+                ))}
+              </div>
+              {result && (
+                <div className="mt-3 text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                  {chosen === null && <p className="text-red-500">{t('quiz.noAnswer')}</p>}
+                  <p>{question.explanation}</p>
+                  {question.source && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('quiz.source', { source: `${question.source.itemName}${question.source.location ? ` · ${question.source.location}` : ''}` })} <em>"{question.source.quote}"</em>
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {quiz && !result && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500 dark:text-gray-400">{t('quiz.progress', { answered: answeredCount, total: quiz.questions.length })}</span>
+            <button
+              onClick={handleSubmit}
+              disabled={answeredCount === 0}
+              className="px-4 py-2 rounded text-white disabled:bg-gray-400 disabled:cursor-not-allowed"
+              style={answeredCount > 0 ? { backgroundColor: bot.themeColor } : undefined}
+            >
+              {t('quiz.submit')}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default QuizView;
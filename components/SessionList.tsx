@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ChatSession, Bot } from '../types';
+import { Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface SessionListProps
+ * @property {ChatSession[]} sessions - The saved chat sessions of the current bot, most recent first.
+ * @property {string | null} currentSessionId - The ID of the session that is open in the chat.
+ * @property {Bot} bot - The currently selected bot.
+ * @property {boolean} disabled - Whether switching sessions is disabled (e.g. while a response is loading).
+ * @property {() => void} onNew - Callback function to start a new conversation.
+ * @property {(session: ChatSession) => void} onResume - Callback function to resume a saved conversation.
+ * @property {(sessionId: string, title: string) => void} onRename - Callback function to rename a conversation.
+ * @property {(sessionId: string) => void} onDelete - Callback function to delete a conversation.
+ */
+interface SessionListProps {
+  sessions: ChatSession[];
+  currentSessionId: string | null;
+  bot: Bot;
+  disabled: boolean;
+  onNew: () => void;
+  onResume: (session: ChatSession) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+/**
+ * Formats the date of a session for the list, showing only the time for today's sessions.
+ * @param {number} timestamp - The time in milliseconds since the epoch.
+ * @param {Locale} locale - The interface language.
+ * @returns {string} The formatted date.
+ */
+const formatSessionDate = (timestamp: number, locale: Locale): string => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+/**
+ * A panel that lists the saved conversations of the current bot and lets the user
+ * start, resume, rename and delete them.
+ * @param {SessionListProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered session list component.
+ */
+const SessionList: React.FC<SessionListProps> = ({ sessions, currentSessionId, bot, disabled, onNew, onResume, onRename, onDelete }) => {
+  const { locale, t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  /**
+   * Starts renaming a session.
+   * @param {ChatSession} session - The session to rename.
+   */
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  /**
+   * Saves the title being edited, ignoring empty titles.
+   */
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * Asks for confirmation before deleting a session.
+   * @param {ChatSession} session - The session to delete.
+   */
+  const confirmDelete = (session: ChatSession) => {
+    if (window.confirm(t('sessions.confirmDelete', { title: session.title }))) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <aside className="w-64 bg-white dark:bg-gray-800 p-4 flex flex-col border-l border-gray-200 dark:border-gray-700 shadow-lg">
+      <h2 className="text-lg font-bold mb-4 pb-2 border-b-2" style={{ borderBottomColor: bot.themeColor }}>
+        {t('sessions.title')}
+      </h2>
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="w-full mb-4 px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed"
+        style={!disabled ? { backgroundColor: bot.themeColor } : {}}
+      >
+        {t('sessions.new')}
+      </button>
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+        {sessions.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">{t('sessions.empty')}</p>}
+        {sessions.map((session) => {
+          const isCurrent = session.id === currentSessionId;
+          return (
+            <div
+              key={session.id}
+              className={`group p-2 rounded-md border-l-4 ${isCurrent ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+              style={{ borderLeftColor: isCurrent ? bot.themeColor : 'transparent' }}
+            >
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full p-1 text-sm border rounded bg-gray-50 dark:bg-gray-700 dark:border-gray-600"
+                />
+              ) : (
+                <button
+                  onClick={() => onResume(session)}
+                  disabled={disabled || isCurrent}
+                  className="w-full text-left disabled:cursor-default"
+                >
+                  <span className="block text-sm font-medium truncate" title={session.title}>{session.title}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{formatSessionDate(session.updatedAt, locale)}</span>
+                </button>
+              )}
+              {editingId !== session.id && (
+                <div className="flex gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startEditing(session)} className="hover:underline">{t('sessions.rename')}</button>
+                  <button onClick={() => confirmDelete(session)} disabled={disabled} className="hover:underline hover:text-red-500 disabled:cursor-not-allowed">{t('sessions.delete')}</button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default SessionList;
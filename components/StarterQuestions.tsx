@@ -0,0 +1,47 @@
+import React from 'react';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface StarterQuestionsProps
+ * @property {string[]} questions - The suggested questions, taken from the top of the bot's FAQ.
+ * @property {string} themeColor - The theme color used for the chip borders and text.
+ * @property {boolean} disabled - Whether the chips should be disabled.
+ * @property {(question: string) => void} onAsk - Callback function to ask the question that was clicked.
+ */
+interface StarterQuestionsProps {
+  questions: string[];
+  themeColor: string;
+  disabled: boolean;
+  onAsk: (question: string) => void;
+}
+
+/**
+ * A row of chips with questions to start a conversation, shown under the welcome message.
+ * @param {StarterQuestionsProps} props - The props for the component.
+ * @returns {React.ReactElement | null} The rendered chips, or nothing if there are no questions.
+ */
+const StarterQuestions: React.FC<StarterQuestionsProps> = ({ questions, themeColor, disabled, onAsk }) => {
+  const { t } = useI18n();
+  if (questions.length === 0) return null;
+
+  return (
+    <div className="pl-[3.25rem]">
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('faq.starters')}</p>
+      <div className="flex flex-wrap gap-2">
+        {questions.map((question) => (
+          <button
+            key={question}
+            onClick={() => onAsk(question)}
+            disabled={disabled}
+            className="px-3 py-1.5 text-sm rounded-full border bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            style={{ borderColor: themeColor, color: themeColor }}
+          >
+            {question}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StarterQuestions;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { TranscriptFormat } from '../services/transcriptService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+/**
+ * @interface TranscriptMenuProps
+ * @property {boolean} disabled - Whether the conversation cannot be exported yet, e.g. while it has no question.
+ * @property {(format: TranscriptFormat) => void} onExport - Callback function to export the conversation in a format.
+ */
+interface TranscriptMenuProps {
+  disabled: boolean;
+  onExport: (format: TranscriptFormat) => void;
+}
+
+// The export options, in the order they are listed.
+const FORMATS: { format: TranscriptFormat; label: MessageKey }[] = [
+  { format: 'markdown', label: 'transcript.markdown' },
+  { format: 'json', label: 'transcript.json' },
+  { format: 'html', label: 'transcript.print' },
+];
+
+/**
+ * A header button that opens a menu to export the open conversation.
+ * @param {TranscriptMenuProps} props - The props for the component.
+ * @returns {React.ReactElement} The rendered menu.
+ */
+const TranscriptMenu: React.FC<TranscriptMenuProps> = ({ disabled, onExport }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative" onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsOpen(false); }}>
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={disabled}
+        className="px-3 py-1.5 text-sm font-medium rounded-full text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {t('transcript.export')}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-44 py-1 rounded-lg shadow-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 z-20">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => { setIsOpen(false); onExport(format); }}
+              className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptMenu;
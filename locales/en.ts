@@ -0,0 +1,229 @@
+import type { Catalog } from '../services/i18n';
+
+/**
+ * The English catalog of interface strings.
+ */
+const en: Catalog = {
+  // App
+  'app.title': '{bot} - HR Assistant',
+  'app.sessions': 'Conversations ({count})',
+  'app.quality': 'Quality',
+  'app.cases': 'Cases ({count})',
+  'app.quiz': 'Quiz',
+  'app.quizResults': 'Results ({count})',
+  'app.faq': 'FAQ',
+  'app.enterAdmin': 'HR access',
+  'app.leaveAdmin': 'Leave HR mode',
+  'app.changeBot': 'Change assistant',
+  'app.inputPlaceholder': 'Type your question here...',
+  'app.stop': 'Stop',
+  'app.defaultTranscriptTitle': 'Conversation',
+  'welcome.withDocuments.one': "Hi! I'm {bot}, your HR assistant. I already have {count} document in my memory. Ask me anything.",
+  'welcome.withDocuments.other': "Hi! I'm {bot}, your HR assistant. I already have {count} documents in my memory. Ask me anything.",
+  'welcome.emptyAdmin': "Hi! I'm {bot}, your HR assistant. To get started, add documents, PDFs or images to my memory with the panel on the left. Then ask me anything.",
+  'welcome.emptyEmployee': "Hi! I'm {bot}, your HR assistant. I don't have any documents in my memory yet; the HR team will add them soon. Please try again later.",
+  'error.botConfig': 'The assistant configuration could not be loaded.',
+  'error.savedBots': 'The saved changes to the assistants could not be loaded.',
+  'error.saveBot': 'The assistant "{bot}" could not be saved.',
+  'error.loadMemory': "This assistant's saved memory could not be loaded.",
+  'error.saveKnowledge': '"{name}" could not be saved in the memory. The storage may be full.',
+  'error.removeKnowledge': 'Some documents could not be removed from the memory.',
+  'error.exportPack': 'The knowledge pack could not be exported.',
+  'error.readFile': '"{name}" could not be read.',
+  'error.savePack': 'The pack could not be saved in the memory. The storage may be full.',
+  'error.deliverCase': "The case could not be sent to HR. It is kept in this device's case queue.",
+  'error.escalateWithoutQuestion': 'Ask a question first so it can be escalated to HR.',
+  'error.emptyMemoryAdmin': 'Please add at least one document or image to the memory before asking.',
+  'error.emptyMemoryEmployee': "The assistant doesn't have any documents yet. Ask the HR team to add them.",
+  'error.answer': 'There was an error contacting the assistant. Please try again.',
+  'error.missingQuestion': 'The original question for this action could not be found.',
+  'error.action': 'There was an error processing the action. Please try again.',
+  'error.contextOverflow': "The assistant's memory exceeds the model's context limit, so the question was not sent. Ask the HR team to reduce the documents or images.",
+  'chat.imageIntro': "Here's a visual representation of the concept:",
+  'case.sent': "I've sent your question to the HR team (case #{id}). They will contact you at {email}, and their answer will also appear in this conversation.",
+  'case.answer': 'Answer from the HR team: {answer}',
+
+  // Language switcher
+  'language.label': 'Language',
+
+  // BotSelector
+  'selector.title': 'Welcome to the HR Assistant',
+  'selector.subtitle': "Please select your company's assistant to get started.",
+  'selector.edit': 'Edit',
+  'selector.editBot': 'Edit {bot}',
+  'selector.newBot': 'New assistant',
+  'selector.export': 'Download assistant configuration (bots.json)',
+
+  // KnowledgeManager
+  'knowledge.titleAdmin': "Assistant's Memory",
+  'knowledge.titleEmployee': "Assistant's Documents",
+  'knowledge.dropHint': 'Drop the files to add them to the memory',
+  'knowledge.closeCitation': 'Close citation',
+  'knowledge.citedItemMissing': 'This document is no longer in the memory.',
+  'knowledge.selectAll': 'Select all',
+  'knowledge.deleteSelected': 'Delete selected ({count})',
+  'knowledge.emptyAdmin': 'The memory is empty. Add documents or images, or drop them here.',
+  'knowledge.emptyEmployee': 'There are no documents yet. The HR team will add them soon.',
+  'knowledge.selectItem': 'Select {name}',
+  'knowledge.view': 'View',
+  'knowledge.rename': 'Rename',
+  'knowledge.replace': 'Replace',
+  'knowledge.delete': 'Delete',
+  'knowledge.addText': 'Add Text',
+  'knowledge.uploadFile': 'Upload File',
+  'knowledge.processing': 'Processing...',
+  'knowledge.exportPack': 'Export pack',
+  'knowledge.importPack': 'Import pack',
+  'knowledge.storage': 'Storage',
+  'knowledge.storageUsage': '{usage} of {quota}',
+  'knowledge.context': 'Context per question',
+  'knowledge.contextUsage': '~{tokens} of {limit} tokens',
+  'knowledge.contextImages': '{count} of {limit} images per question',
+  'knowledge.contextWarning': "The memory is nearing the model's context limit.",
+  'knowledge.contextOverTrim': 'The memory exceeds the context limit: some images or passages will not be sent to the model.',
+  'knowledge.contextOverRefuse': 'The memory exceeds the context limit: questions will be refused until you remove images or documents.',
+  'knowledge.documentContext': 'Quiz and FAQ context',
+  'knowledge.documentChunks': '{count} of {limit} chunks',
+  'knowledge.documentWarning': 'The documents are close to the context limit of quizzes and the FAQ.',
+  'knowledge.documentOverTrim': 'The documents exceed the context limit: quizzes and the FAQ will not cover all of them.',
+  'knowledge.documentOverRefuse': 'The documents exceed the context limit: no FAQ or quiz on all the documents will be generated until you remove some.',
+  'knowledge.textModalTitle': 'Add Text Knowledge',
+  'knowledge.textNamePlaceholder': "Document name (e.g. 'Vacation Policy')",
+  'knowledge.textContentPlaceholder': 'Paste the content of the handbook or policy here...',
+  'knowledge.cancel': 'Cancel',
+  'knowledge.add': 'Add',
+  'knowledge.pageCount': '{count} pages · ',
+  'knowledge.charCount': '{count} characters',
+  'knowledge.closePreview': 'Close preview',
+  'knowledge.page': 'Page {page}',
+  'knowledge.redactionSummary': 'Personal data hidden from the model: {items}.',
+  'knowledge.redactionNone': 'No personal data to hide from the model was found.',
+  'knowledge.redactionShow': 'Highlight hidden data',
+  'knowledge.redactionHide': 'Show plain text',
+  'knowledge.unsupportedFile': '"{name}" is not a supported file type. Use images (JPEG, PNG, WEBP), PDF, Word (.docx), Markdown, HTML, text or CSV.',
+  'knowledge.readError': 'There was an error reading the file "{name}".',
+  'knowledge.confirmDelete': 'Delete "{name}" from the memory?',
+  'knowledge.confirmBulkDelete': 'Delete {count} document(s) from the memory?',
+
+  // ChatMessage
+  'message.explain': 'Explain',
+  'message.example': 'Example',
+  'message.summarize': 'Summarize',
+  'message.checklist': 'Checklist',
+  'message.translate': 'Translate',
+  'message.compare': 'Compare',
+  'message.translateTo': 'Translate into:',
+  'message.compareWith': 'Compare with the policy on:',
+  'message.comparePlaceholder': 'e.g. remote work',
+  'message.image': 'Image',
+  'message.escalate': 'Escalate to HR',
+  'message.sourceChunks': 'Passages consulted ({count})',
+  'message.chunk': 'passage {number}',
+  'message.sources': 'Sources:',
+  'message.useful': 'Was this helpful?',
+  'message.rateUp': 'Helpful answer',
+  'message.rateDown': 'Unhelpful answer',
+  'message.addComment': 'Add comment',
+  'message.editComment': 'Edit comment',
+  'message.commentPlaceholderDown': 'What was missing or wrong? (optional)',
+  'message.commentPlaceholder': 'Comment (optional)',
+  'message.send': 'Send',
+  'message.close': 'Close',
+  'message.case': 'HR case #{id}',
+  'message.omitted': 'Because of the context limit, these were not consulted: {items}',
+  'message.notGrounded': 'I could not find this information in the documents.',
+  'message.confidence.medium': 'Medium confidence: it is worth confirming with HR.',
+  'message.confidence.low': 'Low confidence: confirm it with HR before acting on it.',
+  'message.followUps': 'You can also ask:',
+  'message.generatedImage': 'Visual representation of the concept',
+  'message.you': 'YOU',
+
+  // SessionList
+  'sessions.title': 'Conversations',
+  'sessions.new': '+ New conversation',
+  'sessions.empty': 'There are no saved conversations yet.',
+  'sessions.rename': 'Rename',
+  'sessions.delete': 'Delete',
+  'sessions.confirmDelete': 'Delete the conversation "{title}"?',
+
+  // TranscriptMenu
+  'transcript.export': 'Export',
+  'transcript.markdown': 'Markdown (.md)',
+  'transcript.json': 'JSON (.json)',
+  'transcript.print': 'Print or PDF',
+
+  // AdminLogin
+  'admin.createTitle': 'Create HR passcode',
+  'admin.title': 'HR access',
+  'admin.createHint': "There is no passcode yet. Create one for this browser; you'll need it to manage the memory and the assistants.",
+  'admin.hint': 'Enter the passcode to manage the memory and the assistants.',
+  'admin.passcode': 'Passcode',
+  'admin.repeat': 'Repeat the passcode',
+  'admin.tooShort': 'The passcode must have at least {count} characters.',
+  'admin.mismatch': "The passcodes don't match.",
+  'admin.wrong': 'The passcode is not correct.',
+  'admin.checkFailed': 'The passcode could not be checked.',
+  'admin.cancel': 'Cancel',
+  'admin.checking': 'Checking...',
+  'admin.create': 'Create and enter',
+  'admin.enter': 'Enter',
+
+  // EscalationDialog
+  'escalation.title': 'Escalate to HR',
+  'escalation.hint': 'A person from the HR team will review your question and your conversation with {bot}. Their answer will appear in this conversation.',
+  'escalation.name': 'Full name',
+  'escalation.email': 'Email',
+  'escalation.phone': 'Phone (optional)',
+  'escalation.note': 'Additional details (optional)',
+  'escalation.invalidContact': 'Enter your name and a valid email so HR can contact you.',
+  'escalation.cancel': 'Cancel',
+  'escalation.submit': 'Send to HR',
+  'escalation.category.nomina': 'Payroll and settlement',
+  'escalation.category.vacaciones': 'Vacation and leave',
+  'escalation.category.beneficios': 'Benefits',
+  'escalation.category.contrato': 'Contract and schedules',
+  'escalation.category.otro': 'Other',
+
+  // QuizView
+  'quiz.title': '{bot} training quiz',
+  'quiz.back': 'Back to chat',
+  'quiz.intro': 'Choose the documents you want to be quizzed on. Your result will be recorded for the HR team.',
+  'quiz.documents': 'Documents',
+  'quiz.noDocuments': 'This assistant has no text documents to generate a quiz from yet.',
+  'quiz.count': 'Number of questions',
+  'quiz.name': 'Full name',
+  'quiz.email': 'Email',
+  'quiz.invalidSetup': 'Choose at least one document and enter your name and a valid email address.',
+  'quiz.start': 'Generate quiz',
+  'quiz.generating': 'Generating questions...',
+  'quiz.error': 'The quiz could not be generated. Please try again.',
+  'quiz.tooLong': 'The chosen documents exceed the model\'s context limit. Choose fewer documents.',
+  'quiz.omitted': 'The documents did not fit whole within the model\'s limit; the questions do not cover: {items}.',
+  'quiz.progress': '{answered} of {total} answered',
+  'quiz.submit': 'Submit',
+  'quiz.score': 'You got {score} of {total} questions right.',
+  'quiz.passed': 'Passed!',
+  'quiz.failed': 'Not passed: you need at least {percent}% right.',
+  'quiz.noAnswer': 'Not answered.',
+  'quiz.source': 'Source: {source}',
+  'quiz.retry': 'Take another quiz',
+  'quiz.saveError': 'Your result could not be saved. Please let the HR team know.',
+
+  // FaqPanel
+  'faq.title': 'Frequently asked questions',
+  'faq.generating': 'Generating the FAQ from the documents...',
+  'faq.updating': 'Updating with the latest document changes...',
+  'faq.empty': 'No frequently asked questions yet. They are generated automatically once the assistant has documents.',
+  'faq.error': 'The FAQ could not be generated. It will be retried when the documents change.',
+  'faq.tooLong': 'The documents exceed the model\'s context limit and the configured policy does not allow trimming them, so no FAQ was generated.',
+  'faq.omitted': 'The documents did not fit whole within the model\'s limit; the questions do not cover: {items}.',
+  'faq.ask': 'Ask in the chat',
+  'faq.pin': 'Pin',
+  'faq.unpin': 'Unpin',
+  'faq.pinned': 'Pinned by HR',
+  'faq.hide': 'Hide',
+  'faq.show': 'Show',
+  'faq.starters': 'You could start with:',
+};
+
+export default en;
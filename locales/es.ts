@@ -0,0 +1,228 @@
+/**
+ * The Spanish catalog of interface strings. It is the reference catalog: every other catalog
+ * must define the same keys. Values may contain `{name}` placeholders.
+ */
+const es = {
+  // App
+  'app.title': '{bot} - Asistente de RRHH',
+  'app.sessions': 'Conversaciones ({count})',
+  'app.quality': 'Calidad',
+  'app.cases': 'Casos ({count})',
+  'app.quiz': 'Cuestionario',
+  'app.quizResults': 'Resultados ({count})',
+  'app.faq': 'Preguntas frecuentes',
+  'app.enterAdmin': 'Acceso RRHH',
+  'app.leaveAdmin': 'Salir del modo RRHH',
+  'app.changeBot': 'Cambiar asistente',
+  'app.inputPlaceholder': 'Escribe tu pregunta aquí...',
+  'app.stop': 'Detener',
+  'app.defaultTranscriptTitle': 'Conversación',
+  'welcome.withDocuments.one': '¡Hola! Soy {bot}, tu asistente de RRHH. Ya tengo {count} documento en mi memoria. Hazme cualquier pregunta.',
+  'welcome.withDocuments.other': '¡Hola! Soy {bot}, tu asistente de RRHH. Ya tengo {count} documentos en mi memoria. Hazme cualquier pregunta.',
+  'welcome.emptyAdmin': '¡Hola! Soy {bot}, tu asistente de RRHH. Para empezar, añade documentos, PDFs o imágenes a mi memoria usando el panel de la izquierda. Luego, hazme cualquier pregunta.',
+  'welcome.emptyEmployee': '¡Hola! Soy {bot}, tu asistente de RRHH. Aún no tengo documentos en mi memoria; el equipo de RRHH los añadirá pronto. Vuelve a intentarlo más tarde.',
+  'error.botConfig': 'No se pudo cargar la configuración de asistentes.',
+  'error.savedBots': 'No se pudieron cargar los cambios guardados de los asistentes.',
+  'error.saveBot': 'No se pudo guardar el asistente "{bot}".',
+  'error.loadMemory': 'No se pudo cargar la memoria guardada de este asistente.',
+  'error.saveKnowledge': 'No se pudo guardar "{name}" en la memoria. Es posible que el almacenamiento esté lleno.',
+  'error.removeKnowledge': 'No se pudieron eliminar algunos documentos de la memoria.',
+  'error.exportPack': 'No se pudo exportar el paquete de conocimiento.',
+  'error.readFile': 'No se pudo leer "{name}".',
+  'error.savePack': 'No se pudo guardar el paquete en la memoria. Es posible que el almacenamiento esté lleno.',
+  'error.deliverCase': 'No se pudo enviar el caso a RRHH. Queda guardado en la cola de casos de este equipo.',
+  'error.escalateWithoutQuestion': 'Haz primero una pregunta para poder escalarla a RRHH.',
+  'error.emptyMemoryAdmin': 'Por favor, añade al menos un documento o imagen a la memoria antes de preguntar.',
+  'error.emptyMemoryEmployee': 'El asistente aún no tiene documentos. Pide al equipo de RRHH que los añada.',
+  'error.answer': 'Hubo un error al contactar al asistente. Por favor, intenta de nuevo.',
+  'error.missingQuestion': 'No se pudo encontrar la pregunta original para esta acción.',
+  'error.action': 'Hubo un error al procesar la acción. Por favor, intenta de nuevo.',
+  'error.contextOverflow': 'La memoria del asistente supera el límite de contexto del modelo y la pregunta no se envió. Pide al equipo de RRHH que reduzca los documentos o imágenes.',
+  'chat.imageIntro': 'Aquí tienes una representación visual del concepto:',
+  'case.sent': 'He enviado tu consulta al equipo de RRHH (caso #{id}). Te contactarán en {email}, y su respuesta aparecerá también en esta conversación.',
+  'case.answer': 'Respuesta del equipo de RRHH: {answer}',
+
+  // Language switcher
+  'language.label': 'Idioma',
+
+  // BotSelector
+  'selector.title': 'Bienvenido al Asistente de RRHH',
+  'selector.subtitle': 'Por favor, selecciona el asistente de tu empresa para comenzar.',
+  'selector.edit': 'Editar',
+  'selector.editBot': 'Editar {bot}',
+  'selector.newBot': 'Nuevo asistente',
+  'selector.export': 'Descargar configuración de asistentes (bots.json)',
+
+  // KnowledgeManager
+  'knowledge.titleAdmin': 'Memoria del Asistente',
+  'knowledge.titleEmployee': 'Documentos del Asistente',
+  'knowledge.dropHint': 'Suelta los archivos para añadirlos a la memoria',
+  'knowledge.closeCitation': 'Cerrar cita',
+  'knowledge.citedItemMissing': 'Este documento ya no está en la memoria.',
+  'knowledge.selectAll': 'Seleccionar todo',
+  'knowledge.deleteSelected': 'Eliminar seleccionados ({count})',
+  'knowledge.emptyAdmin': 'La memoria está vacía. Añade documentos o imágenes, o arrástralos aquí.',
+  'knowledge.emptyEmployee': 'Aún no hay documentos. El equipo de RRHH los añadirá pronto.',
+  'knowledge.selectItem': 'Seleccionar {name}',
+  'knowledge.view': 'Ver',
+  'knowledge.rename': 'Renombrar',
+  'knowledge.replace': 'Reemplazar',
+  'knowledge.delete': 'Eliminar',
+  'knowledge.addText': 'Añadir Texto',
+  'knowledge.uploadFile': 'Subir Archivo',
+  'knowledge.processing': 'Procesando...',
+  'knowledge.exportPack': 'Exportar paquete',
+  'knowledge.importPack': 'Importar paquete',
+  'knowledge.storage': 'Almacenamiento',
+  'knowledge.storageUsage': '{usage} de {quota}',
+  'knowledge.context': 'Contexto por pregunta',
+  'knowledge.contextUsage': '~{tokens} de {limit} tokens',
+  'knowledge.contextImages': '{count} de {limit} imágenes por pregunta',
+  'knowledge.contextWarning': 'La memoria se acerca al límite de contexto del modelo.',
+  'knowledge.contextOverTrim': 'La memoria supera el límite de contexto: algunas imágenes o fragmentos no se enviarán al modelo.',
+  'knowledge.contextOverRefuse': 'La memoria supera el límite de contexto: las preguntas se rechazarán hasta que elimines imágenes o documentos.',
+  'knowledge.documentContext': 'Contexto de cuestionarios y preguntas frecuentes',
+  'knowledge.documentChunks': '{count} de {limit} fragmentos',
+  'knowledge.documentWarning': 'Los documentos se acercan al límite de contexto de los cuestionarios y las preguntas frecuentes.',
+  'knowledge.documentOverTrim': 'Los documentos superan el límite de contexto: los cuestionarios y las preguntas frecuentes no cubrirán todos.',
+  'knowledge.documentOverRefuse': 'Los documentos superan el límite de contexto: no se generarán preguntas frecuentes ni cuestionarios de todos los documentos hasta que elimines alguno.',
+  'knowledge.textModalTitle': 'Añadir Conocimiento de Texto',
+  'knowledge.textNamePlaceholder': "Nombre del documento (ej. 'Política de Vacaciones')",
+  'knowledge.textContentPlaceholder': 'Pega aquí el contenido del manual o política...',
+  'knowledge.cancel': 'Cancelar',
+  'knowledge.add': 'Añadir',
+  'knowledge.pageCount': '{count} páginas · ',
+  'knowledge.charCount': '{count} caracteres',
+  'knowledge.closePreview': 'Cerrar vista previa',
+  'knowledge.page': 'Página {page}',
+  'knowledge.redactionSummary': 'Datos personales que se ocultan al modelo: {items}.',
+  'knowledge.redactionNone': 'No se han detectado datos personales que ocultar al modelo.',
+  'knowledge.redactionShow': 'Resaltar datos ocultados',
+  'knowledge.redactionHide': 'Ver texto sin resaltar',
+  'knowledge.unsupportedFile': '"{name}" no es un tipo de archivo compatible. Usa imágenes (JPEG, PNG, WEBP), PDF, Word (.docx), Markdown, HTML, texto o CSV.',
+  'knowledge.readError': 'Hubo un error al leer el archivo "{name}".',
+  'knowledge.confirmDelete': '¿Eliminar "{name}" de la memoria?',
+  'knowledge.confirmBulkDelete': '¿Eliminar {count} documento(s) de la memoria?',
+
+  // ChatMessage
+  'message.explain': 'Explicar',
+  'message.example': 'Ejemplo',
+  'message.summarize': 'Resumir',
+  'message.checklist': 'Checklist',
+  'message.translate': 'Traducir',
+  'message.compare': 'Comparar',
+  'message.translateTo': 'Traducir al:',
+  'message.compareWith': 'Comparar con la política de:',
+  'message.comparePlaceholder': 'p. ej. teletrabajo',
+  'message.image': 'Imagen',
+  'message.escalate': 'Escalar a RRHH',
+  'message.sourceChunks': 'Fragmentos consultados ({count})',
+  'message.chunk': 'fragmento {number}',
+  'message.sources': 'Fuentes:',
+  'message.useful': '¿Te ha sido útil?',
+  'message.rateUp': 'Respuesta útil',
+  'message.rateDown': 'Respuesta no útil',
+  'message.addComment': 'Añadir comentario',
+  'message.editComment': 'Editar comentario',
+  'message.commentPlaceholderDown': '¿Qué faltaba o era incorrecto? (opcional)',
+  'message.commentPlaceholder': 'Comentario (opcional)',
+  'message.send': 'Enviar',
+  'message.close': 'Cerrar',
+  'message.case': 'Caso de RRHH #{id}',
+  'message.omitted': 'Por el límite de contexto, no se consultaron: {items}',
+  'message.notGrounded': 'No encontré esta información en los documentos.',
+  'message.confidence.medium': 'Confianza media: conviene confirmarlo con RRHH.',
+  'message.confidence.low': 'Confianza baja: confírmalo con RRHH antes de actuar.',
+  'message.followUps': 'También puedes preguntar:',
+  'message.generatedImage': 'Representación visual del concepto',
+  'message.you': 'TÚ',
+
+  // SessionList
+  'sessions.title': 'Conversaciones',
+  'sessions.new': '+ Nueva conversación',
+  'sessions.empty': 'Aún no hay conversaciones guardadas.',
+  'sessions.rename': 'Renombrar',
+  'sessions.delete': 'Eliminar',
+  'sessions.confirmDelete': '¿Eliminar la conversación "{title}"?',
+
+  // TranscriptMenu
+  'transcript.export': 'Exportar',
+  'transcript.markdown': 'Markdown (.md)',
+  'transcript.json': 'JSON (.json)',
+  'transcript.print': 'Imprimir o PDF',
+
+  // AdminLogin
+  'admin.createTitle': 'Crear código de RRHH',
+  'admin.title': 'Acceso de RRHH',
+  'admin.createHint': 'Aún no hay un código de acceso. Crea uno para este navegador; lo necesitarás para gestionar la memoria y los asistentes.',
+  'admin.hint': 'Introduce el código de acceso para gestionar la memoria y los asistentes.',
+  'admin.passcode': 'Código de acceso',
+  'admin.repeat': 'Repite el código',
+  'admin.tooShort': 'El código debe tener al menos {count} caracteres.',
+  'admin.mismatch': 'Los códigos no coinciden.',
+  'admin.wrong': 'El código no es correcto.',
+  'admin.checkFailed': 'No se pudo comprobar el código.',
+  'admin.cancel': 'Cancelar',
+  'admin.checking': 'Comprobando...',
+  'admin.create': 'Crear y entrar',
+  'admin.enter': 'Entrar',
+
+  // EscalationDialog
+  'escalation.title': 'Escalar a RRHH',
+  'escalation.hint': 'Una persona del equipo de RRHH revisará tu pregunta y la conversación con {bot}. Su respuesta aparecerá en esta conversación.',
+  'escalation.name': 'Nombre y apellidos',
+  'escalation.email': 'Correo electrónico',
+  'escalation.phone': 'Teléfono (opcional)',
+  'escalation.note': 'Detalles adicionales (opcional)',
+  'escalation.invalidContact': 'Indica tu nombre y un correo electrónico válido para que RRHH pueda contactarte.',
+  'escalation.cancel': 'Cancelar',
+  'escalation.submit': 'Enviar a RRHH',
+  'escalation.category.nomina': 'Nómina y liquidación',
+  'escalation.category.vacaciones': 'Vacaciones y permisos',
+  'escalation.category.beneficios': 'Beneficios',
+  'escalation.category.contrato': 'Contrato y horarios',
+  'escalation.category.otro': 'Otro',
+
+  // QuizView
+  'quiz.title': 'Cuestionario de formación de {bot}',
+  'quiz.back': 'Volver al chat',
+  'quiz.intro': 'Elige los documentos sobre los que quieres responder. Tu resultado quedará registrado para el equipo de RRHH.',
+  'quiz.documents': 'Documentos',
+  'quiz.noDocuments': 'Este asistente aún no tiene documentos de texto para generar un cuestionario.',
+  'quiz.count': 'Número de preguntas',
+  'quiz.name': 'Nombre y apellidos',
+  'quiz.email': 'Correo electrónico',
+  'quiz.invalidSetup': 'Elige al menos un documento e indica tu nombre y un correo electrónico válido.',
+  'quiz.start': 'Generar cuestionario',
+  'quiz.generating': 'Generando preguntas...',
+  'quiz.error': 'No se pudo generar el cuestionario. Por favor, intenta de nuevo.',
+  'quiz.tooLong': 'Los documentos elegidos superan el límite de contexto del modelo. Elige menos documentos.',
+  'quiz.omitted': 'Los documentos no cabían enteros en el límite del modelo; las preguntas no cubren: {items}.',
+  'quiz.progress': '{answered} de {total} respondidas',
+  'quiz.submit': 'Entregar',
+  'quiz.score': 'Has acertado {score} de {total} preguntas.',
+  'quiz.passed': '¡Aprobado!',
+  'quiz.failed': 'No aprobado: necesitas acertar al menos el {percent} %.',
+  'quiz.noAnswer': 'Sin responder.',
+  'quiz.source': 'Fuente: {source}',
+  'quiz.retry': 'Hacer otro cuestionario',
+  'quiz.saveError': 'No se pudo guardar tu resultado. Avisa al equipo de RRHH.',
+
+  // FaqPanel
+  'faq.title': 'Preguntas frecuentes',
+  'faq.generating': 'Generando las preguntas frecuentes a partir de los documentos...',
+  'faq.updating': 'Actualizando con los últimos cambios de los documentos...',
+  'faq.empty': 'Aún no hay preguntas frecuentes. Se generan automáticamente cuando el asistente tiene documentos.',
+  'faq.error': 'No se pudieron generar las preguntas frecuentes. Se volverá a intentar cuando cambien los documentos.',
+  'faq.tooLong': 'Los documentos superan el límite de contexto del modelo y la política configurada impide recortarlos, así que no se han generado preguntas frecuentes.',
+  'faq.omitted': 'Los documentos no cabían enteros en el límite del modelo; las preguntas no cubren: {items}.',
+  'faq.ask': 'Preguntar en el chat',
+  'faq.pin': 'Fijar',
+  'faq.unpin': 'Dejar de fijar',
+  'faq.pinned': 'Fijada por RRHH',
+  'faq.hide': 'Ocultar',
+  'faq.show': 'Mostrar',
+  'faq.starters': 'Puedes empezar por:',
+};
+
+export default es;
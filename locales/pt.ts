@@ -0,0 +1,229 @@
+import type { Catalog } from '../services/i18n';
+
+/**
+ * The Portuguese catalog of interface strings.
+ */
+const pt: Catalog = {
+  // App
+  'app.title': '{bot} - Assistente de RH',
+  'app.sessions': 'Conversas ({count})',
+  'app.quality': 'Qualidade',
+  'app.cases': 'Casos ({count})',
+  'app.quiz': 'Questionário',
+  'app.quizResults': 'Resultados ({count})',
+  'app.faq': 'Perguntas frequentes',
+  'app.enterAdmin': 'Acesso RH',
+  'app.leaveAdmin': 'Sair do modo RH',
+  'app.changeBot': 'Trocar assistente',
+  'app.inputPlaceholder': 'Escreva sua pergunta aqui...',
+  'app.stop': 'Parar',
+  'app.defaultTranscriptTitle': 'Conversa',
+  'welcome.withDocuments.one': 'Olá! Sou {bot}, seu assistente de RH. Já tenho {count} documento na minha memória. Faça qualquer pergunta.',
+  'welcome.withDocuments.other': 'Olá! Sou {bot}, seu assistente de RH. Já tenho {count} documentos na minha memória. Faça qualquer pergunta.',
+  'welcome.emptyAdmin': 'Olá! Sou {bot}, seu assistente de RH. Para começar, adicione documentos, PDFs ou imagens à minha memória usando o painel da esquerda. Depois, faça qualquer pergunta.',
+  'welcome.emptyEmployee': 'Olá! Sou {bot}, seu assistente de RH. Ainda não tenho documentos na minha memória; a equipe de RH vai adicioná-los em breve. Tente novamente mais tarde.',
+  'error.botConfig': 'Não foi possível carregar a configuração dos assistentes.',
+  'error.savedBots': 'Não foi possível carregar as alterações salvas dos assistentes.',
+  'error.saveBot': 'Não foi possível salvar o assistente "{bot}".',
+  'error.loadMemory': 'Não foi possível carregar a memória salva deste assistente.',
+  'error.saveKnowledge': 'Não foi possível salvar "{name}" na memória. O armazenamento pode estar cheio.',
+  'error.removeKnowledge': 'Não foi possível remover alguns documentos da memória.',
+  'error.exportPack': 'Não foi possível exportar o pacote de conhecimento.',
+  'error.readFile': 'Não foi possível ler "{name}".',
+  'error.savePack': 'Não foi possível salvar o pacote na memória. O armazenamento pode estar cheio.',
+  'error.deliverCase': 'Não foi possível enviar o caso ao RH. Ele fica salvo na fila de casos deste equipamento.',
+  'error.escalateWithoutQuestion': 'Faça primeiro uma pergunta para poder encaminhá-la ao RH.',
+  'error.emptyMemoryAdmin': 'Por favor, adicione pelo menos um documento ou imagem à memória antes de perguntar.',
+  'error.emptyMemoryEmployee': 'O assistente ainda não tem documentos. Peça à equipe de RH que os adicione.',
+  'error.answer': 'Ocorreu um erro ao contatar o assistente. Por favor, tente novamente.',
+  'error.missingQuestion': 'Não foi possível encontrar a pergunta original desta ação.',
+  'error.action': 'Ocorreu um erro ao processar a ação. Por favor, tente novamente.',
+  'error.contextOverflow': 'A memória do assistente excede o limite de contexto do modelo e a pergunta não foi enviada. Peça à equipe de RH que reduza os documentos ou imagens.',
+  'chat.imageIntro': 'Aqui está uma representação visual do conceito:',
+  'case.sent': 'Enviei sua consulta à equipe de RH (caso #{id}). Eles vão contatar você em {email}, e a resposta também aparecerá nesta conversa.',
+  'case.answer': 'Resposta da equipe de RH: {answer}',
+
+  // Language switcher
+  'language.label': 'Idioma',
+
+  // BotSelector
+  'selector.title': 'Bem-vindo ao Assistente de RH',
+  'selector.subtitle': 'Por favor, selecione o assistente da sua empresa para começar.',
+  'selector.edit': 'Editar',
+  'selector.editBot': 'Editar {bot}',
+  'selector.newBot': 'Novo assistente',
+  'selector.export': 'Baixar configuração dos assistentes (bots.json)',
+
+  // KnowledgeManager
+  'knowledge.titleAdmin': 'Memória do Assistente',
+  'knowledge.titleEmployee': 'Documentos do Assistente',
+  'knowledge.dropHint': 'Solte os arquivos para adicioná-los à memória',
+  'knowledge.closeCitation': 'Fechar citação',
+  'knowledge.citedItemMissing': 'Este documento não está mais na memória.',
+  'knowledge.selectAll': 'Selecionar tudo',
+  'knowledge.deleteSelected': 'Excluir selecionados ({count})',
+  'knowledge.emptyAdmin': 'A memória está vazia. Adicione documentos ou imagens, ou arraste-os para cá.',
+  'knowledge.emptyEmployee': 'Ainda não há documentos. A equipe de RH vai adicioná-los em breve.',
+  'knowledge.selectItem': 'Selecionar {name}',
+  'knowledge.view': 'Ver',
+  'knowledge.rename': 'Renomear',
+  'knowledge.replace': 'Substituir',
+  'knowledge.delete': 'Excluir',
+  'knowledge.addText': 'Adicionar Texto',
+  'knowledge.uploadFile': 'Enviar Arquivo',
+  'knowledge.processing': 'Processando...',
+  'knowledge.exportPack': 'Exportar pacote',
+  'knowledge.importPack': 'Importar pacote',
+  'knowledge.storage': 'Armazenamento',
+  'knowledge.storageUsage': '{usage} de {quota}',
+  'knowledge.context': 'Contexto por pergunta',
+  'knowledge.contextUsage': '~{tokens} de {limit} tokens',
+  'knowledge.contextImages': '{count} de {limit} imagens por pergunta',
+  'knowledge.contextWarning': 'A memória está se aproximando do limite de contexto do modelo.',
+  'knowledge.contextOverTrim': 'A memória excede o limite de contexto: algumas imagens ou trechos não serão enviados ao modelo.',
+  'knowledge.contextOverRefuse': 'A memória excede o limite de contexto: as perguntas serão recusadas até que você remova imagens ou documentos.',
+  'knowledge.documentContext': 'Contexto de questionários e perguntas frequentes',
+  'knowledge.documentChunks': '{count} de {limit} fragmentos',
+  'knowledge.documentWarning': 'Os documentos estão próximos do limite de contexto dos questionários e das perguntas frequentes.',
+  'knowledge.documentOverTrim': 'Os documentos excedem o limite de contexto: os questionários e as perguntas frequentes não cobrirão todos.',
+  'knowledge.documentOverRefuse': 'Os documentos excedem o limite de contexto: não serão geradas perguntas frequentes nem questionários de todos os documentos até que você remova algum.',
+  'knowledge.textModalTitle': 'Adicionar Conhecimento em Texto',
+  'knowledge.textNamePlaceholder': "Nome do documento (ex. 'Política de Férias')",
+  'knowledge.textContentPlaceholder': 'Cole aqui o conteúdo do manual ou da política...',
+  'knowledge.cancel': 'Cancelar',
+  'knowledge.add': 'Adicionar',
+  'knowledge.pageCount': '{count} páginas · ',
+  'knowledge.charCount': '{count} caracteres',
+  'knowledge.closePreview': 'Fechar pré-visualização',
+  'knowledge.page': 'Página {page}',
+  'knowledge.redactionSummary': 'Dados pessoais ocultados do modelo: {items}.',
+  'knowledge.redactionNone': 'Não foram encontrados dados pessoais para ocultar do modelo.',
+  'knowledge.redactionShow': 'Destacar dados ocultados',
+  'knowledge.redactionHide': 'Ver texto sem destaque',
+  'knowledge.unsupportedFile': '"{name}" não é um tipo de arquivo compatível. Use imagens (JPEG, PNG, WEBP), PDF, Word (.docx), Markdown, HTML, texto ou CSV.',
+  'knowledge.readError': 'Ocorreu um erro ao ler o arquivo "{name}".',
+  'knowledge.confirmDelete': 'Excluir "{name}" da memória?',
+  'knowledge.confirmBulkDelete': 'Excluir {count} documento(s) da memória?',
+
+  // ChatMessage
+  'message.explain': 'Explicar',
+  'message.example': 'Exemplo',
+  'message.summarize': 'Resumir',
+  'message.checklist': 'Checklist',
+  'message.translate': 'Traduzir',
+  'message.compare': 'Comparar',
+  'message.translateTo': 'Traduzir para:',
+  'message.compareWith': 'Comparar com a política de:',
+  'message.comparePlaceholder': 'p. ex. teletrabalho',
+  'message.image': 'Imagem',
+  'message.escalate': 'Encaminhar ao RH',
+  'message.sourceChunks': 'Trechos consultados ({count})',
+  'message.chunk': 'trecho {number}',
+  'message.sources': 'Fontes:',
+  'message.useful': 'Isso foi útil?',
+  'message.rateUp': 'Resposta útil',
+  'message.rateDown': 'Resposta não útil',
+  'message.addComment': 'Adicionar comentário',
+  'message.editComment': 'Editar comentário',
+  'message.commentPlaceholderDown': 'O que faltou ou estava errado? (opcional)',
+  'message.commentPlaceholder': 'Comentário (opcional)',
+  'message.send': 'Enviar',
+  'message.close': 'Fechar',
+  'message.case': 'Caso de RH #{id}',
+  'message.omitted': 'Por causa do limite de contexto, não foram consultados: {items}',
+  'message.notGrounded': 'Não encontrei esta informação nos documentos.',
+  'message.confidence.medium': 'Confiança média: convém confirmar com o RH.',
+  'message.confidence.low': 'Confiança baixa: confirme com o RH antes de agir.',
+  'message.followUps': 'Você também pode perguntar:',
+  'message.generatedImage': 'Representação visual do conceito',
+  'message.you': 'VOCÊ',
+
+  // SessionList
+  'sessions.title': 'Conversas',
+  'sessions.new': '+ Nova conversa',
+  'sessions.empty': 'Ainda não há conversas salvas.',
+  'sessions.rename': 'Renomear',
+  'sessions.delete': 'Excluir',
+  'sessions.confirmDelete': 'Excluir a conversa "{title}"?',
+
+  // TranscriptMenu
+  'transcript.export': 'Exportar',
+  'transcript.markdown': 'Markdown (.md)',
+  'transcript.json': 'JSON (.json)',
+  'transcript.print': 'Imprimir ou PDF',
+
+  // AdminLogin
+  'admin.createTitle': 'Criar código de RH',
+  'admin.title': 'Acesso de RH',
+  'admin.createHint': 'Ainda não há um código de acesso. Crie um para este navegador; você vai precisar dele para gerenciar a memória e os assistentes.',
+  'admin.hint': 'Digite o código de acesso para gerenciar a memória e os assistentes.',
+  'admin.passcode': 'Código de acesso',
+  'admin.repeat': 'Repita o código',
+  'admin.tooShort': 'O código deve ter pelo menos {count} caracteres.',
+  'admin.mismatch': 'Os códigos não coincidem.',
+  'admin.wrong': 'O código não está correto.',
+  'admin.checkFailed': 'Não foi possível verificar o código.',
+  'admin.cancel': 'Cancelar',
+  'admin.checking': 'Verificando...',
+  'admin.create': 'Criar e entrar',
+  'admin.enter': 'Entrar',
+
+  // EscalationDialog
+  'escalation.title': 'Encaminhar ao RH',
+  'escalation.hint': 'Uma pessoa da equipe de RH vai analisar sua pergunta e a conversa com {bot}. A resposta aparecerá nesta conversa.',
+  'escalation.name': 'Nome completo',
+  'escalation.email': 'E-mail',
+  'escalation.phone': 'Telefone (opcional)',
+  'escalation.note': 'Detalhes adicionais (opcional)',
+  'escalation.invalidContact': 'Informe seu nome e um e-mail válido para que o RH possa contatar você.',
+  'escalation.cancel': 'Cancelar',
+  'escalation.submit': 'Enviar ao RH',
+  'escalation.category.nomina': 'Folha de pagamento e rescisão',
+  'escalation.category.vacaciones': 'Férias e licenças',
+  'escalation.category.beneficios': 'Benefícios',
+  'escalation.category.contrato': 'Contrato e horários',
+  'escalation.category.otro': 'Outro',
+
+  // QuizView
+  'quiz.title': 'Questionário de formação de {bot}',
+  'quiz.back': 'Voltar ao chat',
+  'quiz.intro': 'Escolha os documentos sobre os quais quer responder. O seu resultado ficará registado para a equipa de RH.',
+  'quiz.documents': 'Documentos',
+  'quiz.noDocuments': 'Este assistente ainda não tem documentos de texto para gerar um questionário.',
+  'quiz.count': 'Número de perguntas',
+  'quiz.name': 'Nome completo',
+  'quiz.email': 'Correio eletrónico',
+  'quiz.invalidSetup': 'Escolha pelo menos um documento e indique o seu nome e um correio eletrónico válido.',
+  'quiz.start': 'Gerar questionário',
+  'quiz.generating': 'A gerar perguntas...',
+  'quiz.error': 'Não foi possível gerar o questionário. Por favor, tente novamente.',
+  'quiz.tooLong': 'Os documentos escolhidos excedem o limite de contexto do modelo. Escolha menos documentos.',
+  'quiz.omitted': 'Os documentos não couberam inteiros no limite do modelo; as perguntas não cobrem: {items}.',
+  'quiz.progress': '{answered} de {total} respondidas',
+  'quiz.submit': 'Entregar',
+  'quiz.score': 'Acertou {score} de {total} perguntas.',
+  'quiz.passed': 'Aprovado!',
+  'quiz.failed': 'Não aprovado: precisa de acertar pelo menos {percent} %.',
+  'quiz.noAnswer': 'Sem resposta.',
+  'quiz.source': 'Fonte: {source}',
+  'quiz.retry': 'Fazer outro questionário',
+  'quiz.saveError': 'Não foi possível guardar o seu resultado. Avise a equipa de RH.',
+
+  // FaqPanel
+  'faq.title': 'Perguntas frequentes',
+  'faq.generating': 'Gerando as perguntas frequentes a partir dos documentos...',
+  'faq.updating': 'Atualizando com as últimas alterações dos documentos...',
+  'faq.empty': 'Ainda não há perguntas frequentes. Elas são geradas automaticamente quando o assistente tem documentos.',
+  'faq.error': 'Não foi possível gerar as perguntas frequentes. Será tentado novamente quando os documentos mudarem.',
+  'faq.tooLong': 'Os documentos excedem o limite de contexto do modelo e a política configurada não permite recortá-los, então as perguntas frequentes não foram geradas.',
+  'faq.omitted': 'Os documentos não couberam inteiros no limite do modelo; as perguntas não cobrem: {items}.',
+  'faq.ask': 'Perguntar no chat',
+  'faq.pin': 'Fixar',
+  'faq.unpin': 'Desafixar',
+  'faq.pinned': 'Fixada pelo RH',
+  'faq.hide': 'Ocultar',
+  'faq.show': 'Mostrar',
+  'faq.starters': 'Você pode começar por:',
+};
+
+export default pt;
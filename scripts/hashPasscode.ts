@@ -0,0 +1,13 @@
+import { hashPasscode } from '../services/authService';
+
+// Prints the "admin" entry of public/bots.json for an HR passcode, so the passcode itself never
+// has to be written in the configuration. Usage: npm run hash-passcode -- <passcode>
+const passcode = process.argv[2];
+if (!passcode) {
+  console.error('Usage: npm run hash-passcode -- <passcode>');
+  process.exit(1);
+}
+
+hashPasscode(passcode).then(record => {
+  console.log(JSON.stringify({ admin: record }, null, 2));
+});
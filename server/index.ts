@@ -0,0 +1,185 @@
+import http from 'node:http';
+import { createAssistantEngine } from '../services/assistantEngine';
+import { createProvider, loadProviderConfig } from '../services/llmProvider';
+import { createRateLimiter } from './rateLimiter';
+import { HttpError, parseAssistantRequest, parseImageRequest, parseEmbedRequest, parseQuizRequest, parseFaqRequest } from './validation';
+
+// The server reads the same .env.local file as Vite, but its variables are never sent to the browser.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file: the process environment is used as is.
+}
+
+const PORT = Number(process.env.SERVER_PORT || 8787);
+// Maximum size of a request body. Requests carry the selected chunks and the knowledge base images.
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 10 * 1024 * 1024);
+// Origin allowed to call the API from another host; unset when the API is served from the same origin.
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+// Whether to identify clients by the X-Forwarded-For header set by a reverse proxy.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Cost of an image request in rate-limit tokens, since it is much more expensive than a text answer.
+const IMAGE_COST = 5;
+// Cost of a quiz or FAQ request, which sends whole documents and asks for several questions at once.
+const DOCUMENTS_COST = 3;
+// The cost of each route that is not a plain assistant request.
+const ROUTE_COSTS: Record<string, number> = { '/api/image': IMAGE_COST, '/api/quiz': DOCUMENTS_COST, '/api/faq': DOCUMENTS_COST };
+
+const engine = createAssistantEngine(createProvider(loadProviderConfig(process.env)));
+const rateLimit = createRateLimiter({
+  capacity: Number(process.env.RATE_LIMIT_BURST || 20),
+  refillPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE || 20),
+});
+
+/**
+ * Returns the identifier used to rate-limit a client.
+ * @param {http.IncomingMessage} req - The request.
+ * @returns {string} The client's IP address.
+ */
+const getClientId = (req: http.IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Reads and parses the JSON body of a request, refusing bodies larger than the size limit.
+ * @param {http.IncomingMessage} req - The request.
+ * @returns {Promise<unknown>} The parsed body, to be validated.
+ */
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  if (Number(req.headers['content-length'] || 0) > MAX_BODY_BYTES) {
+    throw new HttpError(413, 'La solicitud es demasiado grande.');
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'La solicitud es demasiado grande.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'El cuerpo de la solicitud no es JSON válido.');
+  }
+};
+
+/**
+ * Sends a JSON response.
+ * @param {http.ServerResponse} res - The response.
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} data - The data to send.
+ */
+const sendJson = (res: http.ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+};
+
+// The assistant endpoints and the task each one runs.
+const ASSISTANT_ROUTES = {
+  '/api/answer': 'answer',
+  '/api/action': 'action',
+} as const;
+
+/**
+ * Handles a request to the API.
+ * @param {http.IncomingMessage} req - The request.
+ * @param {http.ServerResponse} res - The response.
+ */
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    sendJson(res, 200, { status: 'ok' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    throw new HttpError(405, 'Método no permitido.');
+  }
+
+  const task = ASSISTANT_ROUTES[url.pathname as keyof typeof ASSISTANT_ROUTES];
+  const isKnownRoute = task || ['/api/image', '/api/quiz', '/api/faq', '/api/embed'].includes(url.pathname);
+  if (!isKnownRoute) {
+    throw new HttpError(404, 'Ruta no encontrada.');
+  }
+
+  const limit = rateLimit(getClientId(req), ROUTE_COSTS[url.pathname] ?? 1);
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+    throw new HttpError(429, 'Demasiadas solicitudes. Por favor, espera un momento e intenta de nuevo.');
+  }
+
+  const body = await readJsonBody(req);
+
+  if (task) {
+    const request = parseAssistantRequest(body, task);
+    if (url.searchParams.get('stream') !== '1') {
+      sendJson(res, 200, await engine.complete(request));
+      return;
+    }
+
+    // Stop generating when the client goes away (e.g. the employee pressed "Detener").
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+    try {
+      for await (const snapshot of engine.stream(request, controller.signal)) {
+        res.write(`${JSON.stringify(snapshot)}\n`);
+      }
+    } catch (error) {
+      console.error("Error streaming answer:", error);
+      res.write(`${JSON.stringify({ error: 'Hubo un error al generar la respuesta.' })}\n`);
+    }
+    res.end();
+    return;
+  }
+
+  if (url.pathname === '/api/image') {
+    const { question, answer } = parseImageRequest(body);
+    sendJson(res, 200, { imageUrl: await engine.generateImage(question, answer) });
+    return;
+  }
+
+  if (url.pathname === '/api/quiz') {
+    sendJson(res, 200, { questions: await engine.generateQuiz(parseQuizRequest(body)) });
+    return;
+  }
+
+  if (url.pathname === '/api/faq') {
+    sendJson(res, 200, { entries: await engine.generateFaq(parseFaqRequest(body)) });
+    return;
+  }
+
+  if (!engine.embed) {
+    throw new HttpError(501, 'El proveedor configurado no admite embeddings.');
+  }
+  sendJson(res, 200, { embeddings: await engine.embed(parseEmbedRequest(body)) });
+};
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error("Error handling request:", error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Error interno del servidor.' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`HR assistant API listening on http://localhost:${PORT}`);
+});
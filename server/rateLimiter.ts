@@ -0,0 +1,49 @@
+/**
+ * @interface RateLimiterOptions
+ * @property {number} capacity - The maximum number of tokens a client can hold, i.e. the largest burst allowed.
+ * @property {number} refillPerMinute - The number of tokens given back to each client per minute.
+ */
+export interface RateLimiterOptions {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/**
+ * @interface RateLimitResult
+ * @property {boolean} allowed - Whether the request may proceed.
+ * @property {number} retryAfterSeconds - When the request is refused, how long the client should wait.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Creates a per-client token bucket rate limiter. Each request takes a number of tokens from the client's
+ * bucket (expensive requests such as image generation take more), and buckets refill continuously.
+ * @param {RateLimiterOptions} options - The limiter options.
+ * @returns {(clientId: string, cost?: number) => RateLimitResult} A function that checks and records a request.
+ */
+export const createRateLimiter = (options: RateLimiterOptions) => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = options.refillPerMinute / 60000;
+
+  return (clientId: string, cost = 1): RateLimitResult => {
+    const now = Date.now();
+    const bucket = buckets.get(clientId) || { tokens: options.capacity, updatedAt: now };
+    bucket.tokens = Math.min(options.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(clientId, bucket);
+
+    // Full buckets carry no information, so they are dropped to keep memory bounded.
+    buckets.forEach((b, id) => {
+      if (id !== clientId && b.tokens + (now - b.updatedAt) * refillPerMs >= options.capacity) buckets.delete(id);
+    });
+
+    if (bucket.tokens < cost) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((cost - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= cost;
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
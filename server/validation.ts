@@ -0,0 +1,189 @@
+import { BotPersona, KnowledgeChunk, KnowledgeItem, Message } from '../types';
+import { AssistantRequest, AssistantTask, FaqRequest, QuizRequest } from '../services/assistantEngine';
+import { getPromptAction } from '../services/actionRegistry';
+import { MAX_QUIZ_LENGTH } from '../services/quizService';
+import { FAQ_LENGTH } from '../services/faqService';
+import { defaultContextBudget } from '../services/contextBudget';
+import { MAX_HISTORY_MESSAGES } from '../services/conversationService';
+import { JsonObject, isJsonObject, isStringArray } from '../services/structuredAnswerService';
+
+// Limits on the content of a request, on top of the overall body size limit.
+const MAX_QUESTION_CHARS = 4000;
+const MAX_ANSWER_CHARS = 20000;
+const MAX_CHUNKS = 20;
+// A quiz or a FAQ is generated from whole documents, so it may carry many more chunks than an answer.
+// The client trims its requests to the same limit.
+const MAX_DOCUMENT_CHUNKS = defaultContextBudget.maxDocumentChunks;
+const MAX_IMAGES = 10;
+const MAX_EMBED_TEXTS = 500;
+const MAX_PERSONA_CHARS = 2000;
+const MAX_RULES_CHARS = 8000;
+const MAX_LANGUAGE_CHARS = 40;
+const MAX_ARGUMENT_CHARS = 200;
+
+/**
+ * An error that is reported to the client with an HTTP status code.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Throws a 400 error if a condition does not hold. The types the condition checks hold after the call.
+ * @param {boolean} condition - The condition.
+ * @param {string} message - The error message.
+ */
+const check: (condition: boolean, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new HttpError(400, message);
+};
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+const isOptionalString = (value: unknown, maxLength: number): value is string | undefined =>
+  value === undefined || isString(value, maxLength);
+
+const isList = (value: unknown, maxLength: number): value is unknown[] =>
+  Array.isArray(value) && value.length <= maxLength;
+
+/**
+ * Tells whether a value is a message of the chat history, with the fields the model reads.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it is a history message.
+ */
+const isHistoryMessage = (value: unknown): value is Pick<Message, 'id' | 'role' | 'text'> =>
+  isJsonObject(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string' && typeof value.id === 'string';
+
+/**
+ * Tells whether a value is a text chunk of the knowledge base.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it is a chunk.
+ */
+const isChunk = (value: unknown): value is KnowledgeChunk =>
+  isJsonObject(value) && typeof value.id === 'string' && typeof value.text === 'string' && typeof value.itemId === 'string'
+  && typeof value.itemName === 'string' && typeof value.index === 'number'
+  && (value.pageNumber === undefined || typeof value.pageNumber === 'number');
+
+/**
+ * Tells whether a value is an image item of the knowledge base.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it is an image item.
+ */
+const isImageItem = (value: unknown): value is KnowledgeItem =>
+  isJsonObject(value) && value.type === 'image' && typeof value.id === 'string' && typeof value.name === 'string'
+  && typeof value.content === 'string' && typeof value.mimeType === 'string';
+
+/**
+ * Checks the bot and the interface language of a request.
+ * @param {unknown} body - The parsed JSON body.
+ */
+const checkBotAndLanguage: (body: unknown) => asserts body is JsonObject & { bot: BotPersona; language?: string } = (body) => {
+  check(isJsonObject(body), 'El cuerpo de la solicitud no es válido.');
+  check(isJsonObject(body.bot) && isString(body.bot.name, 200), 'Falta el nombre del asistente.');
+  check(isOptionalString(body.bot.persona, MAX_PERSONA_CHARS), 'La personalidad del asistente no es válida o es demasiado larga.');
+  check(isOptionalString(body.bot.rules, MAX_RULES_CHARS), 'Las reglas del asistente no son válidas o son demasiado largas.');
+  check(isOptionalString(body.language, MAX_LANGUAGE_CHARS), 'El idioma no es válido.');
+};
+
+/**
+ * Checks the text chunks of the context of a request.
+ * @param {unknown} context - The context of the body.
+ * @param {number} maxChunks - The most chunks the request may carry.
+ */
+const checkChunks: (context: unknown, maxChunks: number) => asserts context is JsonObject & { chunks: KnowledgeChunk[] } = (context, maxChunks) => {
+  check(isJsonObject(context) && isList(context.chunks, maxChunks), 'El contexto no es válido o tiene demasiados fragmentos.');
+  check(context.chunks.every(isChunk), 'El contexto contiene fragmentos no válidos.');
+};
+
+/**
+ * Validates the body of an answer or action request.
+ * @param {unknown} body - The parsed JSON body.
+ * @param {AssistantTask} task - The task of the endpoint.
+ * @returns {AssistantRequest} The request.
+ */
+export const parseAssistantRequest = (body: unknown, task: AssistantTask): AssistantRequest => {
+  checkBotAndLanguage(body);
+  check(isString(body.question, MAX_QUESTION_CHARS) && body.question.trim().length > 0, 'La pregunta falta o es demasiado larga.');
+  check(isOptionalString(body.originalAnswer, MAX_ANSWER_CHARS) && (task === 'answer' || body.originalAnswer !== undefined), 'Falta la respuesta original o es demasiado larga.');
+  const action = task === 'action' && typeof body.action === 'string' ? getPromptAction(body.action) : undefined;
+  check(task === 'answer' || !!action, 'La acción no existe.');
+  check(isOptionalString(body.argument, MAX_ARGUMENT_CHARS), 'El valor de la acción no es válido o es demasiado largo.');
+  check(!action?.argument || (body.argument !== undefined && body.argument.trim().length > 0), 'Falta el valor de la acción.');
+  check(isList(body.history, MAX_HISTORY_MESSAGES), 'El historial no es válido o es demasiado largo.');
+  check(body.history.every(isHistoryMessage), 'El historial contiene mensajes no válidos.');
+  checkChunks(body.context, MAX_CHUNKS);
+  check(isList(body.context.images, MAX_IMAGES), 'El contexto tiene demasiadas imágenes.');
+  check(body.context.images.every(isImageItem), 'El contexto contiene imágenes no válidas.');
+
+  return {
+    task,
+    bot: { name: body.bot.name, persona: body.bot.persona, rules: body.bot.rules },
+    question: body.question,
+    originalAnswer: body.originalAnswer,
+    action: action?.id,
+    argument: action?.argument ? body.argument : undefined,
+    history: body.history.map(({ id, role, text }) => ({ id, role, text })),
+    context: { chunks: body.context.chunks, images: body.context.images },
+    language: body.language,
+  };
+};
+
+/**
+ * Validates the body of a request generated from the text of whole documents, such as a quiz or a FAQ.
+ * @param {unknown} body - The parsed JSON body.
+ * @param {number} maxCount - The most questions or entries that may be asked for.
+ * @returns {QuizRequest} The request.
+ */
+const parseDocumentsRequest = (body: unknown, maxCount: number): QuizRequest => {
+  checkBotAndLanguage(body);
+  check(typeof body.count === 'number' && Number.isInteger(body.count) && body.count >= 1 && body.count <= maxCount, `El número de preguntas debe estar entre 1 y ${maxCount}.`);
+  checkChunks(body.context, MAX_DOCUMENT_CHUNKS);
+  check(body.context.chunks.length > 0, 'Se necesita al menos un documento con texto.');
+
+  return {
+    bot: { name: body.bot.name, persona: body.bot.persona, rules: body.bot.rules },
+    count: body.count,
+    context: { chunks: body.context.chunks, images: [] },
+    language: body.language,
+  };
+};
+
+/**
+ * Validates the body of a quiz request. Quizzes are generated from the text of the documents only.
+ * @param {unknown} body - The parsed JSON body.
+ * @returns {QuizRequest} The request.
+ */
+export const parseQuizRequest = (body: unknown): QuizRequest => parseDocumentsRequest(body, MAX_QUIZ_LENGTH);
+
+/**
+ * Validates the body of a FAQ request. The FAQ is generated from the text of the documents only.
+ * @param {unknown} body - The parsed JSON body.
+ * @returns {FaqRequest} The request.
+ */
+export const parseFaqRequest = (body: unknown): FaqRequest => parseDocumentsRequest(body, FAQ_LENGTH);
+
+/**
+ * Validates the body of an image request.
+ * @param {unknown} body - The parsed JSON body.
+ * @returns {{ question: string; answer: string }} The question and answer to illustrate.
+ */
+export const parseImageRequest = (body: unknown): { question: string; answer: string } => {
+  check(isJsonObject(body) && isString(body.question, MAX_QUESTION_CHARS) && isString(body.answer, MAX_ANSWER_CHARS), 'La pregunta o la respuesta falta o es demasiado larga.');
+  return { question: body.question, answer: body.answer };
+};
+
+/**
+ * Validates the body of an embedding request.
+ * @param {unknown} body - The parsed JSON body.
+ * @returns {string[]} The texts to embed.
+ */
+export const parseEmbedRequest = (body: unknown): string[] => {
+  check(isJsonObject(body) && isList(body.texts, MAX_EMBED_TEXTS), 'La lista de textos no es válida o es demasiado larga.');
+  check(isStringArray(body.texts) && body.texts.every(text => text.length <= MAX_ANSWER_CHARS), 'La lista de textos contiene elementos no válidos.');
+  return body.texts;
+};
@@ -0,0 +1,187 @@
+import { MessageKey } from './i18n';
+
+/**
+ * What an action does when it runs.
+ * 'prompt': Asks the model about a previous answer, with the prompt the action builds.
+ * 'image': Generates an image for a previous answer.
+ * 'escalate': Sends the question to a person of the HR team.
+ */
+export type ActionKind = 'prompt' | 'image' | 'escalate';
+
+/**
+ * How the result of a prompt action is shown in the chat.
+ * 'text': As plain text, like any answer.
+ * 'checklist': As a list of items that can be ticked off.
+ */
+export type ActionResultRenderer = 'text' | 'checklist';
+
+/**
+ * @interface ActionPromptInput
+ * @property {string} question - The original question.
+ * @property {string} answer - The previous answer.
+ * @property {string} [argument] - The value the user gave for the action's argument, if it has one.
+ */
+export interface ActionPromptInput {
+  question: string;
+  answer: string;
+  argument?: string;
+}
+
+/**
+ * @interface ActionPrompt
+ * @property {string} taskNote - A sentence describing the task, added to the system instruction.
+ * @property {(input: ActionPromptInput) => string} build - Builds the user prompt.
+ * @property {boolean} [retrieveArgument] - Whether the argument is added to the retrieval query, so that the
+ * knowledge it names is sent along with the request.
+ */
+export interface ActionPrompt {
+  taskNote: string;
+  build: (input: ActionPromptInput) => string;
+  retrieveArgument?: boolean;
+}
+
+/**
+ * @interface ActionArgument
+ * A value the user gives before the action runs, e.g. the language to translate into.
+ * @property {MessageKey} label - The label of the field.
+ * @property {MessageKey} [placeholder] - The placeholder of a free-text field.
+ * @property {string[]} [options] - The values to choose from; the field is free text when there are none.
+ */
+export interface ActionArgument {
+  label: MessageKey;
+  placeholder?: MessageKey;
+  options?: string[];
+}
+
+/**
+ * @interface ActionDefinition
+ * A follow-up action offered under each answer. Prompt actions need nothing but their definition:
+ * the buttons, the server route and the rendering of their result all come from the registry.
+ * @property {string} id - The identifier of the action.
+ * @property {MessageKey} label - The label of the button.
+ * @property {string} icon - The path of the 24×24 outline icon of the button.
+ * @property {ActionKind} kind - What the action does.
+ * @property {ActionPrompt} [prompt] - How the model is asked, for prompt actions.
+ * @property {ActionArgument} [argument] - The value asked to the user before the action runs, if any.
+ * @property {ActionResultRenderer} [renderer] - How the result is shown, for prompt actions; plain text by default.
+ */
+export interface ActionDefinition {
+  id: string;
+  label: MessageKey;
+  icon: string;
+  kind: ActionKind;
+  prompt?: ActionPrompt;
+  argument?: ActionArgument;
+  renderer?: ActionResultRenderer;
+}
+
+/**
+ * Quotes the original question and the previous answer for the prompt of an action.
+ * @param {ActionPromptInput} input - The input of the action.
+ * @returns {string} The quoted question and answer.
+ */
+const quoteAnswer = ({ question, answer }: ActionPromptInput): string =>
+  `Pregunta Original: "${question}"\nRespuesta Anterior: "${answer}"`;
+
+// The actions offered under each answer, in the order of their buttons.
+export const ACTIONS: ActionDefinition[] = [
+  {
+    id: 'explain',
+    label: 'message.explain',
+    icon: 'M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a2 2 0 01-2-2V4a2 2 0 012-2h6.172a2 2 0 011.414.586l3.828 3.828A2 2 0 0117 8z',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado no entendió una respuesta y ha pedido una explicación alternativa. Usa el idioma de la respuesta anterior.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, explica la respuesta anterior de una manera diferente, usando una analogía o términos más sencillos para que sea más fácil de entender.`,
+    },
+  },
+  {
+    id: 'example',
+    label: 'message.example',
+    icon: 'M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado ha solicitado un ejemplo práctico relacionado con una respuesta. Usa el idioma de la respuesta anterior.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, proporciona un ejemplo concreto y práctico que ilustre el punto principal de la respuesta anterior.`,
+    },
+  },
+  {
+    id: 'summarize',
+    label: 'message.summarize',
+    icon: 'M4 6h16M4 12h10M4 18h6',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado ha pedido un resumen de una respuesta. Usa el idioma de la respuesta anterior.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, resume la respuesta anterior en un máximo de 3 frases, conservando los plazos, importes y condiciones importantes.`,
+    },
+  },
+  {
+    id: 'checklist',
+    label: 'message.checklist',
+    icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado ha pedido convertir una respuesta en una lista de pasos que pueda ir marcando. Usa el idioma de la respuesta anterior.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, convierte la respuesta anterior en una lista de comprobación: una línea por paso o requisito, cada una empezando por "- [ ] ", en el orden en que el empleado debe hacerlos. No añadas nada más que la lista.`,
+    },
+    renderer: 'checklist',
+  },
+  {
+    id: 'translate',
+    label: 'message.translate',
+    icon: 'M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado ha pedido traducir una respuesta a otro idioma. Responde en el idioma pedido, aunque la pregunta esté en otro.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, traduce la respuesta anterior al idioma "${input.argument}", sin cambiar su contenido. Conserva los nombres de los documentos tal cual.`,
+    },
+    argument: {
+      label: 'message.translateTo',
+      options: ['English', 'Español', 'Português', 'Français', 'Deutsch', 'Italiano', 'Català', 'Galego', 'Euskara'],
+    },
+  },
+  {
+    id: 'compare',
+    label: 'message.compare',
+    icon: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+    kind: 'prompt',
+    prompt: {
+      taskNote: 'Un empleado ha pedido comparar lo que dice una respuesta con otra política de la empresa. Usa el idioma de la respuesta anterior.',
+      build: input => `${quoteAnswer(input)}\n\nPor favor, compara la política de la respuesta anterior con la política sobre "${input.argument}" según los documentos: qué tienen en común, en qué se diferencian y qué implica para el empleado. Si los documentos no describen esa otra política, dilo.`,
+      retrieveArgument: true,
+    },
+    argument: {
+      label: 'message.compareWith',
+      placeholder: 'message.comparePlaceholder',
+    },
+  },
+  {
+    id: 'image',
+    label: 'message.image',
+    icon: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z',
+    kind: 'image',
+  },
+  {
+    id: 'escalate',
+    label: 'message.escalate',
+    icon: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z',
+    kind: 'escalate',
+  },
+];
+
+/**
+ * Looks up an action of the registry.
+ * @param {string} id - The identifier of the action.
+ * @returns {ActionDefinition | undefined} The action, if it is registered.
+ */
+export const getAction = (id: string): ActionDefinition | undefined => ACTIONS.find(action => action.id === id);
+
+/**
+ * Looks up a prompt action of the registry, i.e. one the model runs.
+ * @param {string} id - The identifier of the action.
+ * @returns {ActionDefinition & { prompt: ActionPrompt } | undefined} The action, if it is a registered prompt action.
+ */
+export const getPromptAction = (id: string): (ActionDefinition & { prompt: ActionPrompt }) | undefined => {
+  const action = getAction(id);
+  return action?.kind === 'prompt' && action.prompt ? action as ActionDefinition & { prompt: ActionPrompt } : undefined;
+};
@@ -0,0 +1,233 @@
+import { Bot, CachedResponse, GeneratedAnswer, KnowledgeItem } from '../types';
+import { hashKnowledgeContent } from './knowledgePackService';
+import * as storageService from './storageService';
+
+// Where the hit and miss counters of each bot are kept.
+const STATS_KEY_PREFIX = 'asistente-rrhh:cache-stats:';
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * @interface AnswerCacheConfig
+ * @property {number} ttlMs - How long a cached response is served, in milliseconds; 0 disables the cache.
+ */
+export interface AnswerCacheConfig {
+  ttlMs: number;
+}
+
+/**
+ * @interface CacheStats
+ * @property {number} answerHits - The questions answered from the cache.
+ * @property {number} answerMisses - The cacheable questions that had to be sent to the model.
+ * @property {number} imageHits - The images served from the cache.
+ * @property {number} imageMisses - The images that had to be generated.
+ */
+export interface CacheStats {
+  answerHits: number;
+  answerMisses: number;
+  imageHits: number;
+  imageMisses: number;
+}
+
+/**
+ * @interface AnswerCache
+ * A cache of model responses, keyed by the bot, a snapshot of its configuration and knowledge, and the request.
+ * Because the snapshot is part of the key, a response is never served for knowledge it was not generated from.
+ * @property {(bot: Bot, knowledgeBase: KnowledgeItem[], question: string, language: string) => Promise<GeneratedAnswer | null>} getAnswer - Returns a cached answer to a question.
+ * @property {(bot: Bot, knowledgeBase: KnowledgeItem[], question: string, language: string, answer: GeneratedAnswer) => Promise<void>} putAnswer - Caches an answer to a question.
+ * @property {(bot: Bot, knowledgeBase: KnowledgeItem[], question: string, answer: string) => Promise<string | null>} getImage - Returns a cached image for an answer.
+ * @property {(bot: Bot, knowledgeBase: KnowledgeItem[], question: string, answer: string, imageUrl: string) => Promise<void>} putImage - Caches an image for an answer.
+ * @property {(botId: string) => Promise<void>} invalidate - Deletes the cached responses of a bot.
+ */
+export interface AnswerCache {
+  getAnswer: (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, language: string) => Promise<GeneratedAnswer | null>;
+  putAnswer: (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, language: string, answer: GeneratedAnswer) => Promise<void>;
+  getImage: (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, answer: string) => Promise<string | null>;
+  putImage: (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, answer: string, imageUrl: string) => Promise<void>;
+  invalidate: (botId: string) => Promise<void>;
+}
+
+/**
+ * Reads the answer cache configuration from environment variables.
+ * `ANSWER_CACHE_TTL_HOURS` sets how long responses are served; it defaults to 24 hours, and 0 disables the cache.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {AnswerCacheConfig} The answer cache configuration.
+ */
+export const loadAnswerCacheConfig = (env: Record<string, string | undefined>): AnswerCacheConfig => {
+  const hours = env.ANSWER_CACHE_TTL_HOURS === undefined || env.ANSWER_CACHE_TTL_HOURS === '' ? NaN : Number(env.ANSWER_CACHE_TTL_HOURS);
+  return { ttlMs: (Number.isFinite(hours) && hours >= 0 ? hours : 24) * HOUR_MS };
+};
+
+/**
+ * Normalizes a question so that trivial differences do not miss the cache:
+ * case, accents, punctuation such as "¿" and "?", and spacing.
+ * @param {string} question - The question.
+ * @returns {string} The normalized question.
+ */
+export const normalizeQuestion = (question: string): string =>
+  question
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Hashes a text with SHA-256.
+ * @param {string} text - The text.
+ * @returns {Promise<string>} The hash, as hexadecimal.
+ */
+const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Snapshots of the knowledge bases already hashed, so a knowledge base is hashed once per change.
+const snapshots = new WeakMap<KnowledgeItem[], { bot: Bot; snapshot: Promise<string> }>();
+
+/**
+ * Hashes what a bot's answers depend on: its name, persona and rules, and the IDs, names and contents
+ * of its knowledge items. Any change to them gives a new snapshot.
+ * @param {Bot} bot - The bot.
+ * @param {KnowledgeItem[]} knowledgeBase - The bot's knowledge base.
+ * @returns {Promise<string>} The snapshot hash.
+ */
+export const createKnowledgeSnapshot = (bot: Bot, knowledgeBase: KnowledgeItem[]): Promise<string> => {
+  const cached = snapshots.get(knowledgeBase);
+  if (cached && cached.bot === bot) return cached.snapshot;
+
+  const snapshot = Promise.all(knowledgeBase.map(async item => `${item.id}\n${item.name}\n${await hashKnowledgeContent(item)}`))
+    .then(items => hashText(JSON.stringify({ bot: [bot.id, bot.name, bot.persona ?? '', bot.rules ?? ''], items })));
+  snapshots.set(knowledgeBase, { bot, snapshot });
+  return snapshot;
+};
+
+/**
+ * Loads the hit and miss counters of a bot.
+ * @param {string} botId - The ID of the bot.
+ * @returns {CacheStats} The counters.
+ */
+export const loadCacheStats = (botId: string): CacheStats => {
+  const empty: CacheStats = { answerHits: 0, answerMisses: 0, imageHits: 0, imageMisses: 0 };
+  try {
+    return { ...empty, ...JSON.parse(localStorage.getItem(STATS_KEY_PREFIX + botId) || '{}') };
+  } catch {
+    return empty;
+  }
+};
+
+/**
+ * Counts a cache lookup as a hit or a miss.
+ * @param {string} botId - The ID of the bot.
+ * @param {'answer' | 'image'} kind - The kind of response looked up.
+ * @param {boolean} hit - Whether the response was in the cache.
+ */
+const recordLookup = (botId: string, kind: 'answer' | 'image', hit: boolean) => {
+  const stats = loadCacheStats(botId);
+  const counter: keyof CacheStats = `${kind}${hit ? 'Hits' : 'Misses'}`;
+  stats[counter] += 1;
+  try {
+    localStorage.setItem(STATS_KEY_PREFIX + botId, JSON.stringify(stats));
+  } catch {
+    // The counters are only informative.
+  }
+};
+
+/**
+ * Resets the hit and miss counters of a bot.
+ * @param {string} botId - The ID of the bot.
+ */
+export const resetCacheStats = (botId: string): void => {
+  try {
+    localStorage.removeItem(STATS_KEY_PREFIX + botId);
+  } catch {
+    // Nothing to reset.
+  }
+};
+
+/**
+ * Creates an answer cache backed by IndexedDB. Entries older than the TTL are deleted when they are looked up.
+ * Cache failures are logged and treated as misses, so they never block an answer.
+ * @param {AnswerCacheConfig} config - The answer cache configuration.
+ * @returns {AnswerCache} The answer cache.
+ */
+export const createAnswerCache = (config: AnswerCacheConfig): AnswerCache => {
+  const enabled = config.ttlMs > 0;
+
+  /**
+   * Looks up a cached response and counts the lookup. If the key cannot be built, the lookup is a miss.
+   * @param {string} botId - The ID of the bot.
+   * @param {'answer' | 'image'} kind - The kind of response.
+   * @param {() => Promise<string>} buildKey - Builds the cache key.
+   * @returns {Promise<CachedResponse | null>} The fresh cached response, if any.
+   */
+  const lookup = async (botId: string, kind: 'answer' | 'image', buildKey: () => Promise<string>) => {
+    try {
+      const key = await buildKey();
+      const entry = await storageService.loadCachedResponse(key);
+      const fresh = entry && Date.now() - entry.createdAt < config.ttlMs ? entry : null;
+      if (entry && !fresh) await storageService.deleteCachedResponse(key);
+      recordLookup(botId, kind, !!fresh);
+      return fresh;
+    } catch (error) {
+      console.error("Error reading the answer cache:", error);
+      return null;
+    }
+  };
+
+  /**
+   * Saves a response in the cache. If the key cannot be built, nothing is saved.
+   * @param {() => Promise<string>} buildKey - Builds the cache key.
+   * @param {Omit<CachedResponse, 'key' | 'createdAt'>} entry - The response.
+   */
+  const store = async (buildKey: () => Promise<string>, entry: Omit<CachedResponse, 'key' | 'createdAt'>) => {
+    try {
+      await storageService.saveCachedResponse({ ...entry, key: await buildKey(), createdAt: Date.now() });
+    } catch (error) {
+      console.error("Error writing the answer cache:", error);
+    }
+  };
+
+  /**
+   * Builds the cache key of an answer. The language is part of it, since the same question gets an answer in each language.
+   */
+  const answerKey = async (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, language: string) =>
+    `answer:${bot.id}:${await createKnowledgeSnapshot(bot, knowledgeBase)}:${language}:${normalizeQuestion(question)}`;
+
+  /**
+   * Builds the cache key of an image, which illustrates a given answer to a question.
+   */
+  const imageKey = async (bot: Bot, knowledgeBase: KnowledgeItem[], question: string, answer: string) =>
+    `image:${bot.id}:${await createKnowledgeSnapshot(bot, knowledgeBase)}:${normalizeQuestion(question)}:${await hashText(answer)}`;
+
+  return {
+    getAnswer: async (bot, knowledgeBase, question, language) => {
+      if (!enabled) return null;
+      const entry = await lookup(bot.id, 'answer', () => answerKey(bot, knowledgeBase, question, language));
+      return entry?.answer ?? null;
+    },
+
+    putAnswer: async (bot, knowledgeBase, question, language, answer) => {
+      if (!enabled) return;
+      await store(() => answerKey(bot, knowledgeBase, question, language), { botId: bot.id, kind: 'answer', answer });
+    },
+
+    getImage: async (bot, knowledgeBase, question, answer) => {
+      if (!enabled) return null;
+      const entry = await lookup(bot.id, 'image', () => imageKey(bot, knowledgeBase, question, answer));
+      return entry?.imageUrl ?? null;
+    },
+
+    putImage: async (bot, knowledgeBase, question, answer, imageUrl) => {
+      if (!enabled) return;
+      await store(() => imageKey(bot, knowledgeBase, question, answer), { botId: bot.id, kind: 'image', imageUrl });
+    },
+
+    invalidate: async (botId) => {
+      try {
+        await storageService.clearCachedResponses(botId);
+      } catch (error) {
+        console.error("Error clearing the answer cache:", error);
+      }
+    },
+  };
+};
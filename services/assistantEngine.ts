@@ -0,0 +1,388 @@
+import { KnowledgeItem, KnowledgeChunk, GeneratedAnswer, Message, BotPersona, QuizQuestion, FaqEntry } from '../types';
+import { LLMProvider, LLMPart, LLMTurn, TextRequest } from './llmProvider';
+import { Embedder } from './retrievalService';
+import { getPromptAction } from './actionRegistry';
+import { formatChunkLabel, resolveCitations } from './citationService';
+import { ANSWER_FORMAT_INSTRUCTION, ANSWER_SCHEMA, AnswerFormatError, extractPartialAnswer, parseStructuredAnswer } from './structuredAnswerService';
+import { QUIZ_SCHEMA, buildQuizInstruction, parseQuiz } from './quizService';
+import { FAQ_SCHEMA, buildFaqInstruction, parseFaq } from './faqService';
+import { HistoryPolicy, defaultHistoryPolicy, splitHistory, toContents, formatTranscript } from './conversationService';
+
+/**
+ * The kinds of text requests the assistant answers.
+ * 'answer': Answer a new question.
+ * 'action': Run a prompt action of the action registry on a previous answer, e.g. explain or summarize it.
+ */
+export type AssistantTask = 'answer' | 'action';
+
+/**
+ * @interface AnswerContext
+ * The part of the knowledge base sent along with a request.
+ * @property {KnowledgeChunk[]} chunks - The text chunks selected by retrieval.
+ * @property {KnowledgeItem[]} images - The image items of the knowledge base.
+ */
+export interface AnswerContext {
+  chunks: KnowledgeChunk[];
+  images: KnowledgeItem[];
+}
+
+/**
+ * @interface AssistantRequest
+ * @property {AssistantTask} task - The kind of request.
+ * @property {BotPersona} bot - The name, persona and extra rules of the bot.
+ * @property {string} question - The user's question, or the original question for actions.
+ * @property {string} [originalAnswer] - The previous answer, for actions.
+ * @property {string} [action] - The ID of the prompt action to run, for actions.
+ * @property {string} [argument] - The value the user gave for the action's argument, if it has one.
+ * @property {Message[]} history - The chat history that precedes the question.
+ * @property {AnswerContext} context - The knowledge sent as context.
+ * @property {string} [language] - The language of the user's interface, named in Spanish (e.g. "inglés"), used when the language of the question is unclear.
+ */
+export interface AssistantRequest {
+  task: AssistantTask;
+  bot: BotPersona;
+  question: string;
+  originalAnswer?: string;
+  action?: string;
+  argument?: string;
+  history: Message[];
+  context: AnswerContext;
+  language?: string;
+}
+
+/**
+ * @interface QuizRequest
+ * @property {BotPersona} bot - The name, persona and extra rules of the bot.
+ * @property {number} count - The number of questions.
+ * @property {AnswerContext} context - The documents the quiz is about.
+ * @property {string} [language] - The language of the user's interface, named in Spanish, in which the quiz is written.
+ */
+export interface QuizRequest {
+  bot: BotPersona;
+  count: number;
+  context: AnswerContext;
+  language?: string;
+}
+
+/**
+ * A request for the FAQ of a bot's documents. It carries the same fields as a quiz request; `count` is the
+ * number of entries asked for.
+ */
+export type FaqRequest = QuizRequest;
+
+/**
+ * @interface AssistantEngine
+ * Runs assistant requests, either locally against a provider or remotely through the proxy server.
+ * @property {(request: AssistantRequest) => Promise<GeneratedAnswer>} complete - Answers a request at once.
+ * @property {(request: AssistantRequest, signal?: AbortSignal) => AsyncGenerator<GeneratedAnswer>} stream - Answers a request, yielding snapshots of the answer.
+ * @property {(question: string, answer: string) => Promise<string>} generateImage - Generates an image for a question and answer, as a data URL.
+ * @property {(request: QuizRequest) => Promise<QuizQuestion[]>} generateQuiz - Generates the multiple-choice questions of a training quiz.
+ * @property {(request: FaqRequest) => Promise<FaqEntry[]>} generateFaq - Generates the frequently asked questions about some documents.
+ * @property {Embedder} [embed] - Computes embeddings for retrieval, if supported.
+ */
+export interface AssistantEngine {
+  complete: (request: AssistantRequest) => Promise<GeneratedAnswer>;
+  stream: (request: AssistantRequest, signal?: AbortSignal) => AsyncGenerator<GeneratedAnswer>;
+  generateImage: (question: string, answer: string) => Promise<string>;
+  generateQuiz: (request: QuizRequest) => Promise<QuizQuestion[]>;
+  generateFaq: (request: FaqRequest) => Promise<FaqEntry[]>;
+  embed?: Embedder;
+}
+
+// How many conversations an engine keeps the history summary of; a server engine serves many.
+const MAX_SUMMARIZED_CONVERSATIONS = 200;
+// The persona used when a bot does not define its own.
+const DEFAULT_PERSONA = 'un asistente de Recursos Humanos experto y amigable';
+
+/**
+ * Builds the system instruction for the AI model from the bot's persona and extra rules.
+ * The grounding rules are always included, whatever the bot's configuration says.
+ * The model answers in the language of the employee, even though the documents are in Spanish.
+ * @param {BotPersona} bot - The name, persona and extra rules of the bot.
+ * @param {string} [taskNote] - A sentence describing the current task, added after the grounding rules.
+ * @param {string} [language] - The language of the user's interface, named in Spanish, used when the language of the question is unclear.
+ * @returns {string} The system instruction.
+ */
+const buildSystemInstruction = (bot: BotPersona, taskNote?: string, language = 'español'): string => {
+  const persona = `Eres ${bot.name}, ${bot.persona?.trim() || DEFAULT_PERSONA}.`;
+  const grounding = `Tu conocimiento se limita estrictamente a los documentos e imágenes que se te proporcionan como contexto. Tu objetivo es ayudar a los empleados a comprender las políticas de la empresa. Responde únicamente basándote en el material proporcionado. Si la respuesta no está en el material, indica amablemente que no tienes esa información. Responde en el idioma en que el empleado escribe su pregunta, aunque los documentos estén en español; si no está claro, responde en ${language}. Los datos personales aparecen sustituidos por marcadores como [DNI_1] o [EMAIL_1]; si necesitas mencionarlos, copia el marcador tal cual.`;
+  const rules = bot.rules?.trim() ? `\n\nReglas adicionales de la empresa:\n${bot.rules.trim()}` : '';
+  return `${persona} ${grounding}${taskNote ? ` ${taskNote}` : ''}${rules}`;
+};
+
+/**
+ * Builds the system instruction and user prompt for a request.
+ * @param {AssistantRequest} request - The request.
+ * @returns {{ systemInstruction: string; userPrompt: string }} The prompts.
+ */
+const buildPrompts = (request: AssistantRequest): { systemInstruction: string; userPrompt: string } => {
+  const { task, bot, question, originalAnswer, action, argument, language } = request;
+  if (task === 'action') {
+    const { prompt } = getPromptAction(action ?? '') ?? {};
+    if (!prompt) throw new Error(`Unknown action: ${action}`);
+    return {
+      systemInstruction: buildSystemInstruction(bot, prompt.taskNote, language),
+      userPrompt: prompt.build({ question, answer: originalAnswer ?? '', argument }),
+    };
+  }
+  return { systemInstruction: buildSystemInstruction(bot, undefined, language), userPrompt: question };
+};
+
+/**
+ * Builds the knowledge parts for the AI model from the retrieved chunks and the image items of the knowledge base.
+ * Chunks are grouped by the document they come from and labelled with their section so the model can cite them.
+ * Images are always included since they cannot be ranked by text.
+ * @param {AnswerContext} context - The knowledge sent as context.
+ * @returns {LLMPart[]} The knowledge parts.
+ */
+const buildKnowledgeParts = (context: AnswerContext): LLMPart[] => {
+  const parts: LLMPart[] = [];
+  const chunksByItem = new Map<string, KnowledgeChunk[]>();
+  context.chunks.forEach(chunk => chunksByItem.set(chunk.itemId, [...(chunksByItem.get(chunk.itemId) || []), chunk]));
+
+  chunksByItem.forEach(itemChunks => {
+    const text = itemChunks
+      .sort((a, b) => a.index - b.index)
+      .map(chunk => `[Sección: ${formatChunkLabel(chunk)}]\n${chunk.text}`)
+      .join('\n\n');
+    parts.push({ text: `--- INICIO DEL DOCUMENTO: ${itemChunks[0].itemName} ---\n${text}\n--- FIN DEL DOCUMENTO ---` });
+  });
+
+  context.images.forEach(item => {
+    if (item.type === 'image' && item.mimeType) {
+      // Remove the data URL prefix e.g., "data:image/jpeg;base64,"
+      const base64Data = item.content.split(',')[1];
+      if (base64Data) {
+        parts.push({
+          inlineData: {
+            mimeType: item.mimeType,
+            data: base64Data,
+          }
+        });
+      }
+    }
+  });
+  return parts;
+};
+
+/**
+ * Returns the knowledge items that the model may cite for a context.
+ * @param {AnswerContext} context - The knowledge sent as context.
+ * @returns {Pick<KnowledgeItem, 'id' | 'name'>[]} The citable items.
+ */
+const citableItems = (context: AnswerContext): Pick<KnowledgeItem, 'id' | 'name'>[] => [
+  ...context.images,
+  ...context.chunks.map(chunk => ({ id: chunk.itemId, name: chunk.itemName })),
+];
+
+/**
+ * Turns the response of the model into an answer, resolving the sources it cites.
+ * A response that does not follow the answer schema, e.g. from a model without structured output or a stream
+ * stopped half-way, is kept as plain text and its grounding is left unknown.
+ * @param {string} raw - The raw response.
+ * @param {AnswerContext} context - The knowledge sent as context.
+ * @param {boolean} [partial] - Whether the response was cut short on purpose, e.g. because the user stopped it.
+ * @returns {GeneratedAnswer} The answer.
+ * @throws {AnswerFormatError} If a complete response has no answer at all.
+ */
+const toAnswer = (raw: string, context: AnswerContext, partial = false): GeneratedAnswer => {
+  const { chunks } = context;
+  try {
+    const structured = parseStructuredAnswer(raw);
+    return {
+      text: structured.answer,
+      chunks,
+      citations: resolveCitations(structured.sources, citableItems(context), chunks),
+      grounded: structured.grounded,
+      confidence: structured.confidence,
+      followUps: structured.followUps,
+    };
+  } catch (error) {
+    if (!(error instanceof AnswerFormatError)) throw error;
+    const text = raw.trimStart().startsWith('{') ? extractPartialAnswer(raw) : raw.trim();
+    if (!partial) {
+      if (!text) throw error;
+      console.warn(error.message);
+    }
+    return { text, chunks, citations: [] };
+  }
+};
+
+/**
+ * Creates an engine that runs assistant requests against a model provider.
+ * @param {LLMProvider} provider - The model provider.
+ * @param {HistoryPolicy} [historyPolicy] - How much of the earlier conversation is sent with each question.
+ * @returns {AssistantEngine} The engine.
+ */
+export const createAssistantEngine = (provider: LLMProvider, historyPolicy: HistoryPolicy = defaultHistoryPolicy): AssistantEngine => {
+  // The latest summary of each conversation, keyed by the ID of the last message it covers, which stays in the
+  // history while older messages are cut from long conversations. Each turn that leaves the window is added to
+  // the summary rather than summarizing everything again.
+  const summaryCache = new Map<string, string>();
+
+  /**
+   * Summarizes the older turns of a conversation that no longer fit in the history window, extending the
+   * previous summary of the conversation with the turns dropped since.
+   * @param {Message[]} messages - The messages to summarize, in chronological order.
+   * @returns {Promise<string>} The summary.
+   */
+  const summarizeHistory = async (messages: Message[]): Promise<string> => {
+    let coveredCount = messages.length;
+    while (coveredCount > 0 && !summaryCache.has(messages[coveredCount - 1].id)) coveredCount--;
+    const previous = coveredCount > 0 ? summaryCache.get(messages[coveredCount - 1].id)! : '';
+    if (coveredCount === messages.length) return previous;
+
+    const transcript = formatTranscript(messages.slice(coveredCount));
+    const response = await provider.generateText({
+      systemInstruction: 'Resume en español, en un máximo de 5 frases, la siguiente conversación entre un empleado y un asistente de RRHH. Si se da un resumen anterior, intégralo con los nuevos turnos en un único resumen. Conserva los datos personales relevantes que el empleado haya mencionado (tipo de contrato, antigüedad, área) y los temas consultados.',
+      turns: [{ role: 'user', parts: [{ text: previous ? `Resumen anterior:\n${previous}\n\nNuevos turnos:\n${transcript}` : transcript }] }],
+    });
+    const summary = response.trim();
+    if (coveredCount > 0) summaryCache.delete(messages[coveredCount - 1].id);
+    summaryCache.set(messages[messages.length - 1].id, summary);
+    // The oldest conversations are forgotten first; the map keeps insertion order.
+    if (summaryCache.size > MAX_SUMMARIZED_CONVERSATIONS) {
+      summaryCache.delete(summaryCache.keys().next().value!);
+    }
+    return summary;
+  };
+
+  /**
+   * Builds the earlier turns of the conversation according to the history policy.
+   * Turns outside the window are dropped or, with the 'summarize' policy, replaced by a summary.
+   * @param {Message[]} history - The chat history that precedes the current question.
+   * @returns {Promise<LLMTurn[]>} The multi-turn contents.
+   */
+  const buildHistoryContents = async (history: Message[]): Promise<LLMTurn[]> => {
+    const { recent, older } = splitHistory(history, historyPolicy);
+    const contents = toContents(recent);
+    if (historyPolicy.mode === 'summarize' && older.length > 0) {
+      try {
+        const summary = await summarizeHistory(older);
+        if (summary) {
+          contents.unshift(
+            { role: 'user', parts: [{ text: `Resumen de la conversación anterior:\n${summary}` }] },
+            { role: 'model', parts: [{ text: 'Entendido, tendré en cuenta ese contexto.' }] },
+          );
+        }
+      } catch (error) {
+        console.error("Error summarizing history:", error);
+      }
+    }
+    return contents;
+  };
+
+  /**
+   * Builds the provider request for an assistant request: the system instruction, the multi-turn contents,
+   * with the knowledge context attached to the last user turn, and the schema of the answer.
+   * @param {AssistantRequest} request - The request.
+   * @returns {Promise<TextRequest>} The provider request.
+   */
+  const prepareRequest = async (request: AssistantRequest): Promise<TextRequest> => {
+    const { systemInstruction, userPrompt } = buildPrompts(request);
+    const promptParts: LLMPart[] = [
+      ...buildKnowledgeParts(request.context),
+      { text: `\n---\nBasado en el contexto anterior, responde la siguiente pregunta del empleado:\n"${userPrompt}"` }
+    ];
+
+    const turns = await buildHistoryContents(request.history);
+    const lastTurn = turns[turns.length - 1];
+    // A previous question may have gone unanswered (e.g. after an error), so consecutive user turns are merged.
+    if (lastTurn?.role === 'user') {
+      lastTurn.parts = [...lastTurn.parts, ...promptParts];
+    } else {
+      turns.push({ role: 'user', parts: promptParts });
+    }
+    return { systemInstruction: `${systemInstruction}\n\n${ANSWER_FORMAT_INSTRUCTION}`, turns, responseSchema: ANSWER_SCHEMA };
+  };
+
+  return {
+    /**
+     * Generates an answer at once. The model answers with a structured answer, whose cited sources are
+     * resolved into citations. Errors are thrown, so they are never mistaken for an answer.
+     */
+    complete: async (request) => {
+      const response = await provider.generateText(await prepareRequest(request));
+      return toAnswer(response, request.context);
+    },
+
+    /**
+     * Streams an answer. Each yielded value holds the text of the answer received so far; the citations,
+     * grounding, confidence and follow-up questions are set in the last value. If the signal is aborted,
+     * the stream ends with the partial text. Errors are thrown so the caller can tell them apart from a partial answer.
+     */
+    stream: async function* (request, signal) {
+      const { chunks } = request.context;
+      const providerRequest = await prepareRequest(request);
+      let rawText = '';
+      try {
+        for await (const delta of provider.streamText({ ...providerRequest, signal })) {
+          rawText += delta;
+          const text = rawText.trimStart().startsWith('{') ? extractPartialAnswer(rawText) : rawText;
+          yield { text, chunks, citations: [] };
+        }
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+      }
+      yield toAnswer(rawText, request.context, signal?.aborted);
+    },
+
+    /**
+     * Generates an image for a concept: the model first writes a short image prompt from the question and
+     * answer, and the image model then draws it.
+     */
+    generateImage: async (question, answer) => {
+      try {
+        const promptGenerationInstruction = `Basado en la siguiente pregunta y respuesta de un manual de empleado, crea un prompt corto y descriptivo en inglés para un modelo de generación de imágenes de IA. El prompt debe capturar la idea central de manera visual y abstracta. Debe ser apto para un entorno profesional. El prompt no debe contener más de 20 palabras.`;
+        const promptGenerationUserPrompt = `Pregunta: "${question}"\nRespuesta: "${answer}"\n\nGenera el prompt para la imagen:`;
+
+        const imagePromptResponse = await provider.generateText({
+            systemInstruction: promptGenerationInstruction,
+            turns: [{ role: 'user', parts: [{ text: promptGenerationUserPrompt }] }],
+        });
+        const imagePrompt = imagePromptResponse.trim();
+
+        return await provider.generateImage(imagePrompt);
+      } catch (error) {
+        console.error("Error generating image:", error);
+        throw new Error("No se pudo generar la imagen. Por favor, intenta de nuevo.");
+      }
+    },
+
+    /**
+     * Generates a training quiz from the documents of the request. The model answers with the questions described
+     * by the quiz schema, and the passage each question is based on is resolved into a citation.
+     */
+    generateQuiz: async ({ bot, count, context, language = 'español' }) => {
+      const response = await provider.generateText({
+        systemInstruction: buildSystemInstruction(bot, `Un empleado nuevo va a hacer un cuestionario de formación sobre los documentos. Escribe las preguntas, las opciones y las explicaciones en ${language}.`, language),
+        turns: [{ role: 'user', parts: [...buildKnowledgeParts(context), { text: `\n---\n${buildQuizInstruction(count)}` }] }],
+        responseSchema: QUIZ_SCHEMA,
+      });
+      return parseQuiz(response).slice(0, count).map(({ source, ...question }): QuizQuestion => ({
+        id: crypto.randomUUID(),
+        ...question,
+        source: resolveCitations([source], citableItems(context), context.chunks)[0],
+      }));
+    },
+
+    /**
+     * Generates the FAQ of the documents of the request. The model answers with the entries described
+     * by the FAQ schema, and the passage each answer is based on is resolved into a citation.
+     */
+    generateFaq: async ({ bot, count, context, language = 'español' }) => {
+      const response = await provider.generateText({
+        systemInstruction: buildSystemInstruction(bot, `Vas a preparar las preguntas frecuentes de los empleados sobre los documentos. Escribe las preguntas y las respuestas en ${language}.`, language),
+        turns: [{ role: 'user', parts: [...buildKnowledgeParts(context), { text: `\n---\n${buildFaqInstruction(count)}` }] }],
+        responseSchema: FAQ_SCHEMA,
+      });
+      return parseFaq(response).slice(0, count).map(({ source, ...entry }): FaqEntry => ({
+        id: crypto.randomUUID(),
+        ...entry,
+        source: resolveCitations([source], citableItems(context), context.chunks)[0],
+      }));
+    },
+
+    embed: provider.embed,
+  };
+};
@@ -0,0 +1,96 @@
+import { Role } from '../types';
+
+// Where a passcode created in this browser is kept, when the configuration does not define one.
+const LOCAL_PASSCODE_KEY = 'asistente-rrhh:admin-passcode';
+// Where the role is kept, so a reload does not lock the admin out; it is forgotten when the tab closes.
+const ROLE_KEY = 'asistente-rrhh:role';
+const PBKDF2_ITERATIONS = 210000;
+
+/**
+ * @interface PasscodeRecord
+ * A salted PBKDF2-SHA256 hash of the admin passcode. The passcode itself is never stored.
+ * @property {string} salt - The random salt, as hexadecimal.
+ * @property {string} hash - The derived key, as hexadecimal.
+ */
+export interface PasscodeRecord {
+  salt: string;
+  hash: string;
+}
+
+/**
+ * Converts bytes to hexadecimal.
+ * @param {ArrayBuffer | Uint8Array} bytes - The bytes.
+ * @returns {string} The hexadecimal string.
+ */
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Derives the hash of a passcode with a salt.
+ * @param {string} passcode - The passcode.
+ * @param {string} salt - The salt, as hexadecimal.
+ * @returns {Promise<string>} The hash, as hexadecimal.
+ */
+const derive = async (passcode: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const saltBytes = new Uint8Array(salt.match(/../g)!.map(pair => parseInt(pair, 16)));
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toHex(bits);
+};
+
+/**
+ * Hashes a new passcode with a random salt.
+ * @param {string} passcode - The passcode.
+ * @returns {Promise<PasscodeRecord>} The salted hash.
+ */
+export const hashPasscode = async (passcode: string): Promise<PasscodeRecord> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, hash: await derive(passcode, salt) };
+};
+
+/**
+ * Checks a passcode against its salted hash.
+ * @param {string} passcode - The passcode entered by the user.
+ * @param {PasscodeRecord} record - The salted hash.
+ * @returns {Promise<boolean>} Whether the passcode is correct.
+ */
+export const verifyPasscode = async (passcode: string, record: PasscodeRecord): Promise<boolean> =>
+  (await derive(passcode, record.salt)) === record.hash;
+
+/**
+ * Returns the admin passcode created in this browser, if any.
+ * @returns {PasscodeRecord | null} The salted hash, or null if no passcode was created.
+ */
+export const loadLocalPasscode = (): PasscodeRecord | null => {
+  try {
+    const record = JSON.parse(localStorage.getItem(LOCAL_PASSCODE_KEY) || 'null');
+    return record && typeof record.salt === 'string' && typeof record.hash === 'string' ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates the admin passcode of this browser.
+ * @param {string} passcode - The new passcode.
+ * @returns {Promise<PasscodeRecord>} The salted hash that was saved.
+ */
+export const createLocalPasscode = async (passcode: string): Promise<PasscodeRecord> => {
+  const record = await hashPasscode(passcode);
+  localStorage.setItem(LOCAL_PASSCODE_KEY, JSON.stringify(record));
+  return record;
+};
+
+/**
+ * Returns the role of the current tab. Everyone starts as an employee.
+ * @returns {Role} The role.
+ */
+export const loadRole = (): Role => (sessionStorage.getItem(ROLE_KEY) === 'admin' ? 'admin' : 'employee');
+
+/**
+ * Remembers the role of the current tab.
+ * @param {Role} role - The role.
+ */
+export const saveRole = (role: Role) => {
+  sessionStorage.setItem(ROLE_KEY, role);
+};
@@ -0,0 +1,163 @@
+import { Bot } from '../types';
+import { PasscodeRecord } from './authService';
+import botsSchema from '../assets/bots.schema.json';
+
+// Where the bot configuration is served from. Deployments can point it to their own file without rebuilding.
+const BOTS_CONFIG_URL = process.env.BOTS_CONFIG_URL || 'bots.json';
+
+/**
+ * @interface BotConfig
+ * The content of the bot configuration file.
+ * @property {Bot[]} bots - The configured bots.
+ * @property {PasscodeRecord} [admin] - The hash of the HR passcode, if the deployment defines one.
+ */
+export interface BotConfig {
+  bots: Bot[];
+  admin?: PasscodeRecord;
+}
+
+/**
+ * The subset of JSON Schema used by the bot configuration schema.
+ */
+interface JsonSchema {
+  type?: 'object' | 'array' | 'string';
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/**
+ * Thrown when the bot configuration cannot be loaded or does not match its schema.
+ * @property {string[]} problems - The problems found, one per invalid value.
+ */
+export class BotConfigError extends Error {
+  problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(problems.length ? `${message}\n${problems.join('\n')}` : message);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Checks a value against a JSON schema, supporting the keywords used by the bot configuration schema.
+ * @param {unknown} value - The value to check.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the value, for the messages.
+ * @returns {string[]} The problems found; empty when the value is valid.
+ */
+const validateSchema = (value: unknown, schema: JsonSchema, path: string): string[] => {
+  if (schema.type === 'object') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: debe ser un objeto.`];
+    const record = value as Record<string, unknown>;
+    const problems = (schema.required || [])
+      .filter(key => record[key] === undefined)
+      .map(key => `${path}.${key}: es obligatorio.`);
+    Object.entries(record).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) problems.push(...validateSchema(child, childSchema, `${path}.${key}`));
+      else if (schema.additionalProperties === false) problems.push(`${path}.${key}: propiedad no admitida.`);
+    });
+    return problems;
+  }
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [`${path}: debe ser una lista.`];
+    const problems = value.length < (schema.minItems ?? 0) ? [`${path}: debe tener al menos ${schema.minItems} elemento(s).`] : [];
+    if (schema.items) value.forEach((item, i) => problems.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    return problems;
+  }
+  if (schema.type === 'string') {
+    if (typeof value !== 'string') return [`${path}: debe ser un texto.`];
+    if (value.length < (schema.minLength ?? 0)) return [`${path}: no puede estar vacío.`];
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return [`${path}: supera los ${schema.maxLength} caracteres.`];
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) return [`${path}: el formato no es válido.`];
+  }
+  return [];
+};
+
+/**
+ * Validates a bot configuration against the bot configuration schema and checks that bot IDs are unique.
+ * @param {unknown} config - The parsed configuration.
+ * @returns {BotConfig} The configuration.
+ * @throws {BotConfigError} If the configuration is not valid.
+ */
+export const validateBotConfig = (config: unknown): BotConfig => {
+  const problems = validateSchema(config, botsSchema as JsonSchema, 'config');
+  if (problems.length === 0) {
+    const ids = new Set<string>();
+    (config as { bots: Bot[] }).bots.forEach((bot, i) => {
+      if (ids.has(bot.id)) problems.push(`config.bots[${i}].id: el identificador "${bot.id}" está repetido.`);
+      ids.add(bot.id);
+    });
+  }
+  if (problems.length > 0) throw new BotConfigError('La configuración de asistentes no es válida.', problems);
+  const { bots, admin } = config as BotConfig;
+  return { bots, admin };
+};
+
+/**
+ * Validates a single bot, e.g. one edited in the bot editor, against the bot configuration schema.
+ * @param {Bot} bot - The bot.
+ * @returns {string[]} The problems found; empty when the bot is valid.
+ */
+export const validateBot = (bot: Bot): string[] =>
+  validateSchema(bot, (botsSchema as JsonSchema).properties!.bots.items!, 'bot');
+
+/**
+ * Loads and validates the bot configuration file.
+ * @returns {Promise<BotConfig>} The configuration.
+ * @throws {BotConfigError} If the file cannot be loaded or is not valid.
+ */
+export const loadBotConfig = async (): Promise<BotConfig> => {
+  let config: unknown;
+  try {
+    const response = await fetch(BOTS_CONFIG_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    config = await response.json();
+  } catch (error) {
+    throw new BotConfigError(`No se pudo cargar la configuración de asistentes (${BOTS_CONFIG_URL}): ${error instanceof Error ? error.message : error}`);
+  }
+  return validateBotConfig(config);
+};
+
+/**
+ * Combines the configured bots with the bots saved from the bot editor. A saved bot replaces the
+ * configured bot with the same ID; saved bots that are not in the configuration are added at the end.
+ * @param {Bot[]} configured - The bots of the configuration file.
+ * @param {Bot[]} saved - The bots saved from the bot editor.
+ * @returns {Bot[]} The bots to show.
+ */
+export const mergeBots = (configured: Bot[], saved: Bot[]): Bot[] => {
+  const savedById = new Map(saved.map(bot => [bot.id, bot]));
+  return [
+    ...configured.map(bot => savedById.get(bot.id) || bot),
+    ...saved.filter(bot => !configured.some(c => c.id === bot.id)),
+  ];
+};
+
+/**
+ * Serializes bots as a configuration file, so the bots edited in the browser can be deployed for everyone.
+ * @param {Bot[]} bots - The bots.
+ * @param {PasscodeRecord} [admin] - The hash of the HR passcode to keep in the file, if any.
+ * @returns {string} The JSON configuration.
+ */
+export const exportBotConfig = (bots: Bot[], admin?: PasscodeRecord): string => JSON.stringify({ admin, bots }, null, 2);
+
+/**
+ * Turns a bot name into an ID that matches the configuration schema, e.g. "Plaza Vea" into "plaza-vea".
+ * @param {string} name - The bot name.
+ * @param {Bot[]} existing - The bots whose IDs are already taken.
+ * @returns {string} A unique ID.
+ */
+export const createBotId = (name: string, existing: Bot[]): string => {
+  const base = name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 56) || 'asistente';
+  let id = base;
+  for (let n = 2; existing.some(bot => bot.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
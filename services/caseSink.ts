@@ -0,0 +1,88 @@
+import { CaseCategory, HrCase } from '../types';
+import { createLocalQueueSink } from './sinks/localQueueSink';
+import { createEmailSink } from './sinks/emailSink';
+import { createWebhookSink } from './sinks/webhookSink';
+
+/**
+ * The labels of the case categories, in the order they are offered to employees.
+ */
+export const CASE_CATEGORY_LABELS: Record<CaseCategory, string> = {
+  nomina: 'Nómina y liquidación',
+  vacaciones: 'Vacaciones y permisos',
+  beneficios: 'Beneficios',
+  contrato: 'Contrato y horarios',
+  otro: 'Otro',
+};
+
+/**
+ * @interface CaseSink
+ * Where escalated cases are sent, besides the local queue that HR answers from.
+ * @property {string} name - The name of the sink, for logs and the UI.
+ * @property {(hrCase: HrCase) => Promise<void>} deliver - Sends a new case to the HR team.
+ */
+export interface CaseSink {
+  name: string;
+  deliver: (hrCase: HrCase) => Promise<void>;
+}
+
+/**
+ * @interface CaseSinkConfig
+ * @property {'local' | 'email' | 'webhook'} sink - The sink to use.
+ * @property {string} [emailTo] - The address that receives the cases, for the email sink.
+ * @property {string} [webhookUrl] - The URL the cases are posted to, for the webhook sink.
+ */
+export interface CaseSinkConfig {
+  sink: 'local' | 'email' | 'webhook';
+  emailTo?: string;
+  webhookUrl?: string;
+}
+
+/**
+ * Reads the case sink configuration from environment variables.
+ * When `CASE_SINK` is not set, or the sink it names is missing its address, cases only go to the local queue.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {CaseSinkConfig} The case sink configuration.
+ */
+export const loadCaseSinkConfig = (env: Record<string, string | undefined>): CaseSinkConfig => {
+  if (env.CASE_SINK === 'email' && env.CASE_EMAIL_TO) {
+    return { sink: 'email', emailTo: env.CASE_EMAIL_TO };
+  }
+  if (env.CASE_SINK === 'webhook' && env.CASE_WEBHOOK_URL) {
+    return { sink: 'webhook', webhookUrl: env.CASE_WEBHOOK_URL };
+  }
+  if (env.CASE_SINK && env.CASE_SINK !== 'local') {
+    console.warn(`Case sink "${env.CASE_SINK}" is not configured; cases only go to the local queue.`);
+  }
+  return { sink: 'local' };
+};
+
+/**
+ * Creates the case sink described by a configuration.
+ * @param {CaseSinkConfig} config - The case sink configuration.
+ * @returns {CaseSink} The case sink.
+ */
+export const createCaseSink = (config: CaseSinkConfig): CaseSink => {
+  switch (config.sink) {
+    case 'local':
+      return createLocalQueueSink();
+    case 'email':
+      return createEmailSink(config);
+    case 'webhook':
+      return createWebhookSink(config);
+  }
+};
+
+/**
+ * Formats a case as plain text, for emails and logs.
+ * @param {HrCase} hrCase - The case.
+ * @returns {string} The case, with the contact details and the conversation.
+ */
+export const formatCase = (hrCase: HrCase): string => [
+  `Categoría: ${CASE_CATEGORY_LABELS[hrCase.category]}`,
+  `Empleado: ${hrCase.contact.name} <${hrCase.contact.email}>${hrCase.contact.phone ? `, ${hrCase.contact.phone}` : ''}`,
+  `Pregunta: ${hrCase.question}`,
+  ...(hrCase.note ? [`Detalles: ${hrCase.note}`] : []),
+  '',
+  'Conversación:',
+  ...hrCase.context.map(m => `${m.role === 'user' ? 'Empleado' : 'Asistente'}: ${m.text}`),
+].join('\n');
@@ -0,0 +1,71 @@
+import { KnowledgeItem, KnowledgeChunk, Citation } from '../types';
+
+/**
+ * Returns the label used to identify a chunk inside its document: its page, e.g. "Página 12",
+ * for documents with pages, and its position, e.g. "Fragmento 3", otherwise.
+ * @param {KnowledgeChunk} chunk - The chunk.
+ * @returns {string} The label.
+ */
+export const formatChunkLabel = (chunk: KnowledgeChunk): string =>
+  chunk.pageNumber ? `Página ${chunk.pageNumber}` : `Fragmento ${chunk.index + 1}`;
+
+/**
+ * Lowercases a string and collapses its whitespace so that quotes and names can be compared loosely.
+ * @param {string} text - The text to normalize.
+ * @returns {string} The normalized text.
+ */
+const normalizeForMatch = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Removes the quotation marks the model usually wraps quotes with.
+ * @param {string} quote - The raw quote.
+ * @returns {string} The quote without surrounding quotation marks.
+ */
+const stripQuotes = (quote: string): string => quote.trim().replace(/^["'“”«»]+|["'“”«»]+$/g, '').trim();
+
+/**
+ * @interface CitedSource
+ * A source as the model cites it, before it is resolved against the knowledge base.
+ * @property {string} document - The name of the cited document.
+ * @property {string} section - The section of the document block, e.g. "Página 12".
+ * @property {string} quote - The quoted passage.
+ */
+export interface CitedSource {
+  document: string;
+  section: string;
+  quote: string;
+}
+
+/**
+ * Resolves the sources cited by the model against the knowledge base.
+ * Sources that point to a document that is not in the knowledge base are discarded.
+ * @param {CitedSource[]} sources - The cited sources.
+ * @param {Pick<KnowledgeItem, 'id' | 'name'>[]} knowledgeBase - The knowledge items that can be cited.
+ * @param {KnowledgeChunk[]} chunks - The chunks that were sent to the model.
+ * @returns {Citation[]} The resolved citations, without duplicates.
+ */
+export const resolveCitations = (sources: CitedSource[], knowledgeBase: Pick<KnowledgeItem, 'id' | 'name'>[], chunks: KnowledgeChunk[]): Citation[] => {
+  const citations: Citation[] = [];
+
+  sources.forEach(source => {
+    const name = normalizeForMatch(source.document);
+    const quote = stripQuotes(source.quote);
+    const normalizedQuote = normalizeForMatch(quote);
+    const quotedChunk = chunks.find(chunk => normalizeForMatch(chunk.text).includes(normalizedQuote));
+    const sourceChunk = quotedChunk || chunks.find(chunk => normalizeForMatch(chunk.itemName) === name);
+    const item = knowledgeBase.find(i => normalizeForMatch(i.name) === name)
+      || knowledgeBase.find(i => i.id === sourceChunk?.itemId);
+    if (!item || !quote) return;
+    if (citations.some(c => c.itemId === item.id && c.quote === quote)) return;
+
+    citations.push({
+      itemId: item.id,
+      itemName: item.name,
+      // The page of a quote found in the context is known for sure, so it wins over the section the model wrote.
+      location: quotedChunk?.pageNumber ? formatChunkLabel(quotedChunk) : source.section.trim() || (sourceChunk ? formatChunkLabel(sourceChunk) : ''),
+      quote,
+    });
+  });
+
+  return citations;
+};
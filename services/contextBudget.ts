@@ -0,0 +1,276 @@
+import { KnowledgeItem, KnowledgeChunk } from '../types';
+import { AnswerContext } from './assistantEngine';
+import { RetrievalOptions, chunkKnowledgeItem, defaultRetrievalOptions } from './retrievalService';
+
+// Rough number of characters per token for Spanish text; good enough for a budget, not for billing.
+const CHARS_PER_TOKEN = 4;
+// Tokens counted for each image. Providers charge between ~260 (Gemini) and ~800 (OpenAI, high detail) tokens.
+const IMAGE_TOKENS = 800;
+
+/**
+ * What happens to a request whose context does not fit in the budget.
+ * 'trim': Images are left out first, from the last added, since they cannot be ranked by relevance;
+ *         then the least relevant passages. The answer lists what was left out.
+ * 'refuse': The request is not sent and a `ContextOverflowError` is thrown.
+ */
+export type ContextOverflowPolicy = 'trim' | 'refuse';
+
+/**
+ * @interface ContextBudget
+ * @property {number} maxTokens - The estimated tokens a request may use, including the question and the history.
+ * @property {number} maxBytes - The size a request may have, below the body size limit of the API server.
+ * @property {number} maxImages - The number of images a request may carry, as accepted by the API server.
+ * @property {number} maxDocumentChunks - The number of text chunks a request generated from whole documents (a quiz or a FAQ)
+ *                                         may carry, as accepted by the API server.
+ * @property {number} warnRatio - The share of the budget from which the meter shows a warning (0 to 1).
+ * @property {ContextOverflowPolicy} overflow - What happens to a request that does not fit.
+ */
+export interface ContextBudget {
+  maxTokens: number;
+  maxBytes: number;
+  maxImages: number;
+  maxDocumentChunks: number;
+  warnRatio: number;
+  overflow: ContextOverflowPolicy;
+}
+
+/**
+ * @interface ContextUsage
+ * @property {number} tokens - The estimated number of tokens.
+ * @property {number} bytes - The estimated size, in bytes.
+ * @property {number} images - The number of images.
+ */
+export interface ContextUsage {
+  tokens: number;
+  bytes: number;
+  images: number;
+}
+
+/**
+ * @interface DocumentUsage
+ * The context of a request generated from whole documents, such as a quiz or a FAQ.
+ * @property {ContextUsage} usage - The estimated usage of the text of the documents.
+ * @property {number} chunks - The number of chunks the text is split into.
+ */
+export interface DocumentUsage {
+  usage: ContextUsage;
+  chunks: number;
+}
+
+/**
+ * How close a usage is to the budget: 'ok', 'warning' from the warning ratio, 'over' past the budget.
+ */
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+/**
+ * @interface FittedContext
+ * @property {AnswerContext} context - The context that fits in the budget.
+ * @property {string[]} omittedItems - The names of the knowledge items left out, in whole or in part.
+ */
+export interface FittedContext {
+  context: AnswerContext;
+  omittedItems: string[];
+}
+
+// The smallest context window of the supported models' defaults, and the server's limits with room for the history.
+export const defaultContextBudget: ContextBudget = {
+  maxTokens: 128000,
+  maxBytes: 8 * 1024 * 1024,
+  maxImages: 10,
+  maxDocumentChunks: 300,
+  warnRatio: 0.8,
+  overflow: 'trim',
+};
+
+/**
+ * An error thrown when a request does not fit in the context budget and the overflow policy is 'refuse'.
+ */
+export class ContextOverflowError extends Error {
+  usage: ContextUsage;
+
+  constructor(usage: ContextUsage) {
+    super(`El contexto de la pregunta (~${usage.tokens} tokens, ${usage.images} imágenes) supera el límite del modelo.`);
+    this.name = 'ContextOverflowError';
+    this.usage = usage;
+  }
+}
+
+/**
+ * Reads the context budget from environment variables. Unset or invalid values keep their default.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {ContextBudget} The context budget.
+ */
+export const loadContextBudget = (env: Record<string, string | undefined>): ContextBudget => {
+  const maxTokens = Number(env.CONTEXT_TOKEN_LIMIT);
+  return {
+    ...defaultContextBudget,
+    ...(maxTokens > 0 && { maxTokens }),
+    ...(env.CONTEXT_OVERFLOW === 'refuse' && { overflow: 'refuse' as const }),
+  };
+};
+
+/**
+ * Estimates the usage of a text from its length.
+ * @param {number} length - The number of characters.
+ * @returns {ContextUsage} The estimated usage.
+ */
+const estimateTextLengthUsage = (length: number): ContextUsage => ({
+  tokens: Math.ceil(length / CHARS_PER_TOKEN),
+  bytes: length,
+  images: 0,
+});
+
+/**
+ * Estimates the usage of a text.
+ * @param {string} text - The text.
+ * @returns {ContextUsage} The estimated usage.
+ */
+export const estimateTextUsage = (text: string): ContextUsage => estimateTextLengthUsage(text.length);
+
+/**
+ * Estimates the usage of an image item. Its data URL is sent as is, so its length is its size.
+ * @param {KnowledgeItem} item - The image item.
+ * @returns {ContextUsage} The estimated usage.
+ */
+const estimateImageUsage = (item: KnowledgeItem): ContextUsage => ({ tokens: IMAGE_TOKENS, bytes: item.content.length, images: 1 });
+
+/**
+ * Adds up usages.
+ * @param {ContextUsage[]} usages - The usages.
+ * @returns {ContextUsage} The total usage.
+ */
+const sumUsage = (usages: ContextUsage[]): ContextUsage =>
+  usages.reduce((total, usage) => ({
+    tokens: total.tokens + usage.tokens,
+    bytes: total.bytes + usage.bytes,
+    images: total.images + usage.images,
+  }), { tokens: 0, bytes: 0, images: 0 });
+
+/**
+ * Estimates the usage of the knowledge context of a request.
+ * @param {AnswerContext} context - The knowledge context.
+ * @returns {ContextUsage} The estimated usage.
+ */
+export const estimateContextUsage = (context: AnswerContext): ContextUsage =>
+  sumUsage([...context.chunks.map(chunk => estimateTextUsage(chunk.text)), ...context.images.map(estimateImageUsage)]);
+
+/**
+ * Estimates the knowledge context of a question, at most: every image is sent with each question,
+ * while the text is limited to the passages that retrieval selects.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {RetrievalOptions} [options] - The retrieval options, which bound the passages sent.
+ * @returns {ContextUsage} The estimated usage per question.
+ */
+export const estimateKnowledgeUsage = (knowledgeBase: KnowledgeItem[], options: RetrievalOptions = defaultRetrievalOptions): ContextUsage => {
+  const textLength = knowledgeBase.filter(item => item.type === 'text').reduce((total, item) => total + item.content.length, 0);
+  const images = knowledgeBase.filter(item => item.type === 'image');
+  return sumUsage([
+    estimateTextLengthUsage(Math.min(textLength, options.topK * options.chunkSize)),
+    ...images.map(estimateImageUsage),
+  ]);
+};
+
+/**
+ * Estimates the context of a quiz or a FAQ about the whole knowledge base: unlike a question, it carries the
+ * whole text of every document, chunked as it is sent, and no images.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {RetrievalOptions} [options] - The retrieval options, which set how the documents are chunked.
+ * @returns {DocumentUsage} The estimated usage.
+ */
+export const estimateDocumentUsage = (knowledgeBase: KnowledgeItem[], options: RetrievalOptions = defaultRetrievalOptions): DocumentUsage => {
+  const chunks = knowledgeBase.flatMap(item => chunkKnowledgeItem(item, options));
+  return { usage: estimateContextUsage({ chunks, images: [] }), chunks: chunks.length };
+};
+
+/**
+ * Returns the share of the budget that a usage takes, by its most constrained dimension.
+ * @param {ContextUsage} usage - The usage.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {number} The share, above 1 when the usage does not fit.
+ */
+export const budgetRatio = (usage: ContextUsage, budget: ContextBudget): number =>
+  Math.max(usage.tokens / budget.maxTokens, usage.bytes / budget.maxBytes, usage.images / budget.maxImages);
+
+/**
+ * Returns the share of the budget that the context of a quiz or a FAQ takes, counting the chunks the server accepts.
+ * @param {DocumentUsage} documentUsage - The usage.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {number} The share, above 1 when the documents do not fit.
+ */
+export const documentBudgetRatio = ({ usage, chunks }: DocumentUsage, budget: ContextBudget): number =>
+  Math.max(budgetRatio(usage, budget), chunks / budget.maxDocumentChunks);
+
+/**
+ * Tells how close a share of the budget is to it.
+ * @param {number} ratio - The share of the budget.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {BudgetStatus} The status.
+ */
+const ratioStatus = (ratio: number, budget: ContextBudget): BudgetStatus => {
+  if (ratio > 1) return 'over';
+  return ratio >= budget.warnRatio ? 'warning' : 'ok';
+};
+
+/**
+ * Tells how close a usage is to the budget.
+ * @param {ContextUsage} usage - The usage.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {BudgetStatus} The status.
+ */
+export const getBudgetStatus = (usage: ContextUsage, budget: ContextBudget): BudgetStatus => ratioStatus(budgetRatio(usage, budget), budget);
+
+/**
+ * Tells how close the context of a quiz or a FAQ is to the budget.
+ * @param {DocumentUsage} documentUsage - The usage.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {BudgetStatus} The status.
+ */
+export const getDocumentBudgetStatus = (documentUsage: DocumentUsage, budget: ContextBudget): BudgetStatus =>
+  ratioStatus(documentBudgetRatio(documentUsage, budget), budget);
+
+/**
+ * Fits the knowledge context of a request in the budget, following the overflow policy.
+ * @param {AnswerContext} context - The knowledge context, with the chunks ranked from most to least relevant.
+ * @param {ContextBudget} budget - The budget.
+ * @param {ContextUsage} [reserved] - The usage of the rest of the request, such as the question and the history.
+ * @returns {FittedContext} The context that fits and the items left out.
+ * @throws {ContextOverflowError} If the context does not fit and the policy is 'refuse'.
+ */
+export const fitContext = (context: AnswerContext, budget: ContextBudget, reserved: ContextUsage = { tokens: 0, bytes: 0, images: 0 }): FittedContext => {
+  const fits = (candidate: AnswerContext) => budgetRatio(sumUsage([reserved, estimateContextUsage(candidate)]), budget) <= 1;
+  if (fits(context)) {
+    return { context, omittedItems: [] };
+  }
+  if (budget.overflow === 'refuse') {
+    throw new ContextOverflowError(sumUsage([reserved, estimateContextUsage(context)]));
+  }
+
+  const images = [...context.images];
+  const chunks: KnowledgeChunk[] = [...context.chunks];
+  const omitted = new Set<string>();
+  while (images.length > 0 && !fits({ chunks, images })) {
+    omitted.add(images.pop()!.name);
+  }
+  while (chunks.length > 0 && !fits({ chunks, images })) {
+    omitted.add(chunks.pop()!.itemName);
+  }
+  return { context: { chunks, images }, omittedItems: [...omitted] };
+};
+
+/**
+ * Fits the text of whole documents, for a quiz or a FAQ, in the budget: the chunks are limited to the number
+ * the API server accepts, and then to the tokens and bytes of the budget, following the overflow policy.
+ * @param {KnowledgeChunk[]} chunks - The chunks of the documents, in the order they should be kept.
+ * @param {ContextBudget} budget - The budget.
+ * @returns {FittedContext} The context that fits and the items left out.
+ * @throws {ContextOverflowError} If the documents do not fit and the policy is 'refuse'.
+ */
+export const fitDocumentContext = (chunks: KnowledgeChunk[], budget: ContextBudget): FittedContext => {
+  if (chunks.length > budget.maxDocumentChunks && budget.overflow === 'refuse') {
+    throw new ContextOverflowError(estimateContextUsage({ chunks, images: [] }));
+  }
+  const kept = chunks.slice(0, budget.maxDocumentChunks);
+  const fitted = fitContext({ chunks: kept, images: [] }, budget);
+  const dropped = chunks.slice(kept.length).map(chunk => chunk.itemName);
+  return { context: fitted.context, omittedItems: [...new Set([...fitted.omittedItems, ...dropped])] };
+};
@@ -0,0 +1,106 @@
+import { Message } from '../types';
+import { LLMTurn } from './llmProvider';
+
+/**
+ * @interface HistoryPolicy
+ * @property {'window' | 'summarize'} mode - What to do with the turns that fall outside the window: drop them or summarize them.
+ * @property {number} maxMessages - The maximum number of recent messages sent verbatim.
+ * @property {number} maxChars - The maximum number of characters of recent messages sent verbatim.
+ */
+export interface HistoryPolicy {
+  mode: 'window' | 'summarize';
+  maxMessages: number;
+  maxChars: number;
+}
+
+// The most history messages a request to the API server may carry; older ones are left to the summary.
+export const MAX_HISTORY_MESSAGES = 100;
+
+export const defaultHistoryPolicy: HistoryPolicy = {
+  mode: 'summarize',
+  maxMessages: 10,
+  maxChars: 8000,
+};
+
+/**
+ * Returns the messages of a chat history that are part of the conversation with the model.
+ * Leading model messages (such as the welcome message), image-only messages and the messages about HR cases
+ * are left out: escalation notices and HR's answers are shown in the model's place, but the model did not write them.
+ * @param {Message[]} history - The chat history.
+ * @returns {Message[]} The conversational messages.
+ */
+export const conversationalMessages = (history: Message[]): Message[] => {
+  const firstUserIndex = history.findIndex(m => m.role === 'user');
+  if (firstUserIndex === -1) return [];
+  return history.slice(firstUserIndex).filter(m => m.text.trim() && !m.imageUrl && !m.caseId);
+};
+
+/**
+ * Splits a chat history into the recent messages that fit in the window and the older ones that do not.
+ * The window always starts on a user message so the conversation sent to the model is well formed.
+ * @param {Message[]} history - The chat history.
+ * @param {HistoryPolicy} [policy] - The history policy.
+ * @returns {{ recent: Message[]; older: Message[] }} The recent and older messages, in chronological order.
+ */
+export const splitHistory = (history: Message[], policy: HistoryPolicy = defaultHistoryPolicy): { recent: Message[]; older: Message[] } => {
+  const messages = conversationalMessages(history);
+  let start = messages.length;
+  let chars = 0;
+  while (start > 0 && messages.length - start < policy.maxMessages && chars + messages[start - 1].text.length <= policy.maxChars) {
+    start--;
+    chars += messages[start].text.length;
+  }
+  while (start < messages.length && messages[start].role !== 'user') start++;
+  return { recent: messages.slice(start), older: messages.slice(0, start) };
+};
+
+/**
+ * Converts chat messages into multi-turn contents for the model, merging consecutive messages of the same role.
+ * @param {Message[]} messages - The messages to convert.
+ * @returns {LLMTurn[]} The contents.
+ */
+export const toContents = (messages: Message[]): LLMTurn[] => {
+  const contents: LLMTurn[] = [];
+  messages.forEach(message => {
+    const last = contents[contents.length - 1];
+    if (last && last.role === message.role) {
+      last.parts = [...last.parts, { text: message.text }];
+    } else {
+      contents.push({ role: message.role, parts: [{ text: message.text }] });
+    }
+  });
+  return contents;
+};
+
+/**
+ * Formats messages as a plain-text transcript, used as input for summarization.
+ * @param {Message[]} messages - The messages to format.
+ * @returns {string} The transcript.
+ */
+export const formatTranscript = (messages: Message[]): string =>
+  messages.map(m => `${m.role === 'user' ? 'Empleado' : 'Asistente'}: ${m.text}`).join('\n');
+
+/**
+ * Returns the text of the last user question in the history, used to give context to retrieval for follow-up questions.
+ * @param {Message[]} history - The chat history.
+ * @returns {string} The last user question, or an empty string.
+ */
+export const lastUserQuestion = (history: Message[]): string =>
+  [...history].reverse().find(m => m.role === 'user')?.text || '';
+
+// Maximum length of a session title generated from a question.
+const MAX_TITLE_LENGTH = 48;
+
+/**
+ * Creates a session title from the first question of a conversation, cut on a word boundary.
+ * @param {string} question - The first question of the conversation.
+ * @returns {string} The title.
+ */
+export const createSessionTitle = (question: string): string => {
+  const text = question.replace(/\s+/g, ' ').trim().replace(/^[¿¡]+/, '');
+  const title = text.charAt(0).toUpperCase() + text.slice(1);
+  if (title.length <= MAX_TITLE_LENGTH) return title.replace(/[?!]+$/, '');
+  const cut = title.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+};
@@ -0,0 +1,88 @@
+import { KnowledgeItem } from '../types';
+import { csvToText } from './parsers/csvParser';
+import { docxToText } from './parsers/docxParser';
+import { htmlToText } from './parsers/htmlParser';
+import { extractPdfPages } from './parsers/pdfParser';
+
+/**
+ * The content of a knowledge item read from a file, without its ID and name.
+ */
+export type KnowledgeContent = Pick<KnowledgeItem, 'type' | 'content' | 'mimeType' | 'pages'>;
+
+/**
+ * The file types that can be added to the knowledge base, for the `accept` attribute of file inputs.
+ */
+export const SUPPORTED_FILE_TYPES = [
+  'image/png', 'image/jpeg', 'image/webp', 'application/pdf',
+  '.docx', '.md', '.markdown', '.html', '.htm', '.txt', '.csv',
+].join(', ');
+
+/**
+ * Thrown when a file is not of a supported type.
+ */
+export class UnsupportedFileError extends Error {
+  constructor(fileName: string) {
+    super(`Unsupported file type: ${fileName}`);
+  }
+}
+
+/**
+ * Reads a file with a FileReader.
+ * @param {File} file - The file to read.
+ * @param {'dataUrl' | 'arrayBuffer' | 'text'} format - How to read the file.
+ * @returns {Promise<string | ArrayBuffer>} The content of the file.
+ */
+const readFile = (file: File, format: 'dataUrl' | 'arrayBuffer' | 'text'): Promise<string | ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string | ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    if (format === 'dataUrl') reader.readAsDataURL(file);
+    else if (format === 'arrayBuffer') reader.readAsArrayBuffer(file);
+    else reader.readAsText(file);
+  });
+
+/**
+ * Returns the lowercase extension of a file name, without the dot.
+ * @param {string} fileName - The file name.
+ * @returns {string} The extension, or an empty string if there is none.
+ */
+const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Reads the content of an uploaded file. Images are kept as data URLs; PDFs, Word documents, Markdown,
+ * HTML, plain text and CSV files are converted to text, keeping headings and tables as Markdown.
+ * The text of a PDF is also kept page by page, so answers can point to a page.
+ * @param {File} file - The uploaded file.
+ * @returns {Promise<KnowledgeContent>} The content of the file.
+ * @throws {UnsupportedFileError} If the file type is not supported.
+ */
+export const parseDocumentFile = async (file: File): Promise<KnowledgeContent> => {
+  const extension = getExtension(file.name);
+
+  if (file.type.startsWith('image/')) {
+    return { type: 'image', content: await readFile(file, 'dataUrl') as string, mimeType: file.type };
+  }
+  if (file.type === 'application/pdf' || extension === 'pdf') {
+    // El contenido del PDF se trata como texto, página a página
+    const pages = await extractPdfPages(await readFile(file, 'arrayBuffer') as ArrayBuffer);
+    return { type: 'text', content: pages.map(page => page.text).join('\n\n'), pages };
+  }
+  if (extension === 'docx') {
+    return { type: 'text', content: await docxToText(await readFile(file, 'arrayBuffer') as ArrayBuffer) };
+  }
+  if (extension === 'html' || extension === 'htm' || file.type === 'text/html') {
+    return { type: 'text', content: htmlToText(await readFile(file, 'text') as string) };
+  }
+  if (extension === 'csv' || file.type === 'text/csv') {
+    return { type: 'text', content: csvToText(await readFile(file, 'text') as string) };
+  }
+  if (['md', 'markdown', 'txt'].includes(extension) || file.type.startsWith('text/')) {
+    const text = await readFile(file, 'text') as string;
+    return { type: 'text', content: text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim() };
+  }
+  throw new UnsupportedFileError(file.name);
+};
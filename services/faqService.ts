@@ -0,0 +1,140 @@
+import { FaqEntry } from '../types';
+import { JsonSchema } from './llmProvider';
+import { CitedSource } from './citationService';
+import { tokenize } from './retrievalService';
+import { isJsonObject, parseJsonResponse, readCitedSource } from './structuredAnswerService';
+
+// How many entries the model is asked for, before duplicates are removed.
+export const FAQ_LENGTH = 12;
+// How many entries are suggested as starter questions under the welcome message.
+export const STARTER_QUESTION_COUNT = 4;
+// The share of terms two questions must have in common to count as the same question.
+const DUPLICATE_SIMILARITY = 0.7;
+
+/**
+ * @interface GeneratedFaqEntry
+ * An entry of the FAQ as the model writes it, described by `FAQ_SCHEMA`.
+ * @property {string} question - The question.
+ * @property {string} answer - The answer.
+ * @property {CitedSource} source - The passage the answer is based on.
+ */
+export interface GeneratedFaqEntry {
+  question: string;
+  answer: string;
+  source: CitedSource;
+}
+
+/**
+ * An error thrown when the response of the model does not follow `FAQ_SCHEMA`.
+ */
+export class FaqFormatError extends Error {
+  constructor(message: string) {
+    super(`Las preguntas frecuentes generadas no tienen el formato esperado: ${message}`);
+    this.name = 'FaqFormatError';
+  }
+}
+
+export const FAQ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    entries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          answer: { type: 'string' },
+          source: {
+            type: 'object',
+            properties: {
+              document: { type: 'string' },
+              section: { type: 'string' },
+              quote: { type: 'string' },
+            },
+            required: ['document', 'section', 'quote'],
+            additionalProperties: false,
+          },
+        },
+        required: ['question', 'answer', 'source'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['entries'],
+  additionalProperties: false,
+};
+
+/**
+ * Builds the instruction that asks the model for the FAQ and describes each field of `FAQ_SCHEMA`.
+ * @param {number} count - The number of entries.
+ * @returns {string} The instruction.
+ */
+export const buildFaqInstruction = (count: number): string => `Genera las ${count} preguntas que los empleados harían con más frecuencia sobre los documentos anteriores, empezando por las más útiles. Cada pregunta debe tratar un tema distinto, estar escrita como la haría un empleado y poder responderse solo con los documentos.
+Responde con un objeto JSON con el campo "entries", una lista en la que cada entrada tiene:
+- "question": la pregunta, breve.
+- "answer": la respuesta, en un máximo de 3 frases.
+- "source": el bloque en que se basa la respuesta, con "document" (nombre del documento), "section" (sección indicada en el bloque) y "quote" (cita textual breve copiada del documento).`;
+
+/**
+ * Parses and validates the FAQ written by the model. Entries without a question or an answer are left out.
+ * @param {string} raw - The raw response of the model.
+ * @returns {GeneratedFaqEntry[]} The entries.
+ * @throws {FaqFormatError} If the response is not JSON, does not follow `FAQ_SCHEMA` or has no valid entry.
+ */
+export const parseFaq = (raw: string): GeneratedFaqEntry[] => {
+  const data = parseJsonResponse(raw);
+  if (data === undefined) throw new FaqFormatError('no es JSON válido.');
+  if (!isJsonObject(data) || !Array.isArray(data.entries)) throw new FaqFormatError('falta "entries".');
+
+  const entries = data.entries.flatMap((e: unknown): GeneratedFaqEntry[] => {
+    if (!isJsonObject(e) || typeof e.question !== 'string' || !e.question.trim() || typeof e.answer !== 'string' || !e.answer.trim()) return [];
+    return [{ question: e.question.trim(), answer: e.answer.trim(), source: readCitedSource(e.source) }];
+  });
+  if (entries.length === 0) throw new FaqFormatError('no tiene ninguna entrada válida.');
+  return entries;
+};
+
+/**
+ * Tells whether two questions ask the same thing: most of their terms are shared, whatever their case,
+ * accents, punctuation or stopwords.
+ * @param {string} a - A question.
+ * @param {string} b - Another question.
+ * @returns {boolean} Whether the questions are duplicates.
+ */
+const isSameQuestion = (a: string, b: string): boolean => {
+  const termsA = new Set(tokenize(a));
+  const termsB = new Set(tokenize(b));
+  if (termsA.size === 0 || termsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = [...termsA].filter(term => termsB.has(term)).length;
+  return shared / new Set([...termsA, ...termsB]).size >= DUPLICATE_SIMILARITY;
+};
+
+/**
+ * Removes the entries that ask the same thing as an earlier one.
+ * @param {FaqEntry[]} entries - The entries, most useful first.
+ * @returns {FaqEntry[]} The entries without duplicates.
+ */
+export const dedupeFaqEntries = (entries: FaqEntry[]): FaqEntry[] =>
+  entries.reduce<FaqEntry[]>((kept, entry) => (kept.some(other => isSameQuestion(other.question, entry.question)) ? kept : [...kept, entry]), []);
+
+/**
+ * Carries HR's choices over to a regenerated FAQ: pinned entries are kept, and a new entry that asks
+ * the same as a hidden one stays hidden.
+ * @param {FaqEntry[]} previous - The entries of the previous FAQ.
+ * @param {FaqEntry[]} generated - The entries of the new FAQ.
+ * @returns {FaqEntry[]} The entries of the new FAQ with HR's choices, without duplicates.
+ */
+export const mergeFaqOverrides = (previous: FaqEntry[], generated: FaqEntry[]): FaqEntry[] => {
+  const pinned = previous.filter(entry => entry.pinned);
+  const hidden = previous.filter(entry => entry.hidden);
+  const fresh = generated.map(entry => (hidden.some(other => isSameQuestion(other.question, entry.question)) ? { ...entry, hidden: true } : entry));
+  return dedupeFaqEntries([...pinned, ...fresh]);
+};
+
+/**
+ * Returns the entries employees see: the pinned ones first, without the hidden ones.
+ * @param {FaqEntry[]} entries - The entries of the FAQ.
+ * @returns {FaqEntry[]} The visible entries.
+ */
+export const visibleFaqEntries = (entries: FaqEntry[]): FaqEntry[] =>
+  [...entries.filter(entry => entry.pinned), ...entries.filter(entry => !entry.pinned)].filter(entry => !entry.hidden);
@@ -0,0 +1,57 @@
+import { ChatSession } from '../types';
+
+// Phrases the model uses when the answer is not in the documents, as asked by the system instruction.
+const MISSING_INFORMATION_PATTERNS = [
+  /no (tengo|dispongo de|cuento con|encuentro|encontré|he encontrado) (esa |esta |la |suficiente |ninguna )?(información|datos)/i,
+  /no (aparece|figura|se menciona|se especifica|se indica|está) (en )?(el|los|la|las|ningún|ninguno de los) (material|documento|documentos|información|manual)/i,
+  /(el|los) (material|documentos?) (proporcionados? )?no (incluye|incluyen|contiene|contienen|menciona|mencionan)/i,
+];
+
+/**
+ * @interface UnansweredQuestion
+ * A question the bot could not answer from its documents.
+ * @property {string} sessionId - The ID of the conversation.
+ * @property {string} messageId - The ID of the answer.
+ * @property {string} question - The question.
+ * @property {string} answer - The answer that says the information is missing.
+ * @property {number} askedAt - When the conversation was last updated, in milliseconds since the epoch.
+ */
+export interface UnansweredQuestion {
+  sessionId: string;
+  messageId: string;
+  question: string;
+  answer: string;
+  askedAt: number;
+}
+
+/**
+ * Tells whether an answer says that the documents do not contain the requested information.
+ * @param {string} text - The text of the answer.
+ * @returns {boolean} Whether the answer admits the information is missing.
+ */
+export const saysInformationIsMissing = (text: string): boolean =>
+  MISSING_INFORMATION_PATTERNS.some(pattern => pattern.test(text));
+
+/**
+ * Finds the questions of saved conversations that the bot could not answer, most recent first.
+ * Only the first answer to each question is checked; follow-up actions such as explanations are not.
+ * Structured answers say whether they were found in the documents; older answers are checked by their wording.
+ * @param {ChatSession[]} sessions - The saved conversations.
+ * @returns {UnansweredQuestion[]} The unanswered questions.
+ */
+export const findUnansweredQuestions = (sessions: ChatSession[]): UnansweredQuestion[] =>
+  [...sessions]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .flatMap(session => {
+      const answeredQuestionIds = new Set<string>();
+      const found: UnansweredQuestion[] = [];
+      session.messages.forEach(message => {
+        if (message.role !== 'model' || !message.relatedQuestionId || answeredQuestionIds.has(message.relatedQuestionId)) return;
+        answeredQuestionIds.add(message.relatedQuestionId);
+        const question = session.messages.find(m => m.id === message.relatedQuestionId);
+        const unanswered = message.grounded === undefined ? saysInformationIsMissing(message.text) : !message.grounded;
+        if (!question || !unanswered) return;
+        found.push({ sessionId: session.id, messageId: message.id, question: question.text, answer: message.text, askedAt: session.updatedAt });
+      });
+      return found;
+    });
@@ -1,149 +1,363 @@
-import { GoogleGenAI, Modality, Part } from "@google/genai";
-import { KnowledgeItem } from '../types';
+import { KnowledgeItem, GeneratedAnswer, Message, Bot, Quiz, Faq } from '../types';
+import { createProvider, loadProviderConfig } from './llmProvider';
+import { chunkKnowledgeItem, forgetEmbeddings, retrieveChunks } from './retrievalService';
+import { conversationalMessages, lastUserQuestion } from './conversationService';
+import { AssistantEngine, AssistantRequest, AssistantTask, AnswerContext, createAssistantEngine } from './assistantEngine';
+import { createProxyEngine } from './proxyEngine';
+import { ContextBudget, estimateTextUsage, fitContext, fitDocumentContext, loadContextBudget } from './contextBudget';
+import { CacheStats, createAnswerCache, createKnowledgeSnapshot, loadAnswerCacheConfig, loadCacheStats, resetCacheStats } from './answerCache';
+import { countCachedResponses } from './storageService';
+import { getPromptAction } from './actionRegistry';
+import { RedactionConfig, createRedactor, loadRedactionConfig, redactRequestContent, restoreAnswer, restoreFaqEntries, restoreQuizQuestions } from './redactionService';
+import { FAQ_LENGTH, dedupeFaqEntries, mergeFaqOverrides } from './faqService';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+// Environment variables inlined by Vite. The Gemini key is not among them: it stays on the proxy server.
+const clientEnv = {
+  LLM_PROVIDER: process.env.LLM_PROVIDER,
+  API_URL: process.env.API_URL,
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+  OPENAI_MODEL: process.env.OPENAI_MODEL,
+  OPENAI_EMBEDDING_MODEL: process.env.OPENAI_EMBEDDING_MODEL,
+  OPENAI_IMAGE_MODEL: process.env.OPENAI_IMAGE_MODEL,
+  CONTEXT_TOKEN_LIMIT: process.env.CONTEXT_TOKEN_LIMIT,
+  CONTEXT_OVERFLOW: process.env.CONTEXT_OVERFLOW,
+  ANSWER_CACHE_TTL_HOURS: process.env.ANSWER_CACHE_TTL_HOURS,
+  REDACTION_RULES: process.env.REDACTION_RULES,
+  REDACTION_CUSTOM_RULES: process.env.REDACTION_CUSTOM_RULES,
+  REDACTION_RESTORE: process.env.REDACTION_RESTORE,
+};
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-const textModel = 'gemini-2.5-flash';
-const imageModel = 'gemini-2.5-flash-image';
+// Requests go to the proxy server by default. A provider can still run in the browser when configured
+// explicitly, e.g. the offline mock for demos or a local OpenAI-compatible model server.
+const engine: AssistantEngine = clientEnv.LLM_PROVIDER && clientEnv.LLM_PROVIDER !== 'proxy'
+  ? createAssistantEngine(createProvider(loadProviderConfig(clientEnv)))
+  : createProxyEngine(clientEnv.API_URL || '/api');
+// Set to true to rank knowledge chunks with embeddings in addition to keyword (BM25) matching.
+const useEmbeddings = false;
+// How much knowledge a request may carry, and what happens when it carries more.
+export const contextBudget: ContextBudget = loadContextBudget(clientEnv);
+// The personal data replaced with placeholders before a request leaves the browser.
+export const redactionConfig: RedactionConfig = loadRedactionConfig(clientEnv);
+// Answers to first questions and generated images, reused while the bot and its knowledge do not change.
+const answerCache = createAnswerCache(loadAnswerCacheConfig(clientEnv));
+// The language of the user's interface, named in Spanish, used by the model when the language of a question is unclear.
+let answerLanguage = 'español';
 
 /**
- * Returns the base system instruction for the AI model.
- * @param {string} botName - The name of the bot.
- * @returns {string} The system instruction.
+ * Sets the language the model falls back to when the language of a question is unclear,
+ * e.g. when the user switches the interface language.
+ * @param {string} language - The language, named in Spanish (e.g. "inglés").
  */
-const getBaseSystemInstruction = (botName: string) => 
-  `Eres ${botName}, un asistente de Recursos Humanos experto y amigable. Tu conocimiento se limita estrictamente a los documentos e imágenes que se te proporcionan como contexto. Tu objetivo es ayudar a los empleados a comprender las políticas de la empresa. Responde únicamente basándote en el material proporcionado. Si la respuesta no está en el material, indica amablemente que no tienes esa información. Responde en español.`;
+export const setAnswerLanguage = (language: string) => {
+  answerLanguage = language;
+};
 
 /**
- * Builds the knowledge parts for the AI model from the knowledge base.
+ * @interface PreparedRequest
+ * @property {AssistantRequest} request - The request, with a context that fits in the budget.
+ * @property {string[]} omittedItems - The knowledge items left out to fit the budget.
+ * @property {(answer: GeneratedAnswer) => GeneratedAnswer} restore - Puts the redacted personal data back in the answer.
+ */
+interface PreparedRequest {
+  request: AssistantRequest;
+  omittedItems: string[];
+  restore: (answer: GeneratedAnswer) => GeneratedAnswer;
+}
+
+/**
+ * Selects the knowledge sent with a request: the text chunks most relevant to the question and all the images.
+ * The last user question is added to the retrieval query so that follow-ups such as "¿y si soy part-time?"
+ * still find the right passages.
  * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
- * @returns {Part[]} The knowledge parts.
- */
-const buildKnowledgeParts = (knowledgeBase: KnowledgeItem[]): Part[] => {
-  const parts: Part[] = [];
-  knowledgeBase.forEach(item => {
-    if (item.type === 'text') {
-      parts.push({ text: `--- INICIO DEL DOCUMENTO: ${item.name} ---\n${item.content}\n--- FIN DEL DOCUMENTO ---` });
-    } else if (item.type === 'image' && item.mimeType) {
-      // Remove the data URL prefix e.g., "data:image/jpeg;base64,"
-      const base64Data = item.content.split(',')[1];
-      if (base64Data) {
-        parts.push({
-          inlineData: {
-            mimeType: item.mimeType,
-            data: base64Data,
-          }
-        });
-      }
-    }
-  });
-  return parts;
+ * @param {string} question - The question the request is about.
+ * @param {Message[]} history - The chat history that precedes the question.
+ * @returns {Promise<AnswerContext>} The context.
+ */
+const selectContext = async (knowledgeBase: KnowledgeItem[], question: string, history: Message[]): Promise<AnswerContext> => {
+  const query = `${lastUserQuestion(history)}\n${question}`.trim();
+  const chunks = await retrieveChunks(knowledgeBase, query, useEmbeddings ? engine.embed : undefined);
+  return { chunks, images: knowledgeBase.filter(item => item.type === 'image') };
 };
 
 /**
- * Generates content using the AI model.
- * @param {string} systemInstruction - The system instruction for the AI model.
- * @param {string} userPrompt - The user's prompt.
+ * @interface ActionOptions
+ * @property {string} [originalAnswer] - The previous answer, for actions.
+ * @property {string} [action] - The ID of the prompt action to run, for actions.
+ * @property {string} [argument] - The value the user gave for the action's argument, if it has one.
+ */
+interface ActionOptions {
+  originalAnswer?: string;
+  action?: string;
+  argument?: string;
+}
+
+/**
+ * Builds an assistant request, selecting its knowledge context and fitting it in the context budget.
+ * Personal data in the question, the history and the context is replaced with placeholders, which are
+ * put back in the answer.
+ * @param {AssistantTask} task - The kind of request.
  * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
- * @returns {Promise<string>} The generated content.
- */
-const generateContent = async (systemInstruction: string, userPrompt: string, knowledgeBase: KnowledgeItem[]) => {
-  try {
-    const knowledgeParts = buildKnowledgeParts(knowledgeBase);
-    const promptParts: Part[] = [
-      ...knowledgeParts,
-      { text: `\n---\nBasado en el contexto anterior, responde la siguiente pregunta del empleado:\n"${userPrompt}"` }
-    ];
-
-    const response = await ai.models.generateContent({
-      model: textModel,
-      contents: { parts: promptParts },
-      config: {
-        systemInstruction: systemInstruction,
-      }
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error generating content:", error);
-    return "Lo siento, ocurrió un error al procesar tu solicitud. Por favor, intenta de nuevo.";
+ * @param {string} question - The user's question, or the original question.
+ * @param {Bot} bot - The bot answering the question.
+ * @param {Message[]} history - The chat history that precedes the question.
+ * @param {ActionOptions} [options] - The previous answer and the action to run, for actions.
+ * @returns {Promise<PreparedRequest>} The request and the knowledge items left out of it.
+ * @throws {ContextOverflowError} If the context does not fit and the budget's overflow policy is 'refuse'.
+ */
+const buildRequest = async (task: AssistantTask, knowledgeBase: KnowledgeItem[], question: string, bot: Bot, history: Message[], options: ActionOptions = {}): Promise<PreparedRequest> => {
+  const { originalAnswer, action, argument } = options;
+  // Actions such as "compare" are about another topic too, so its passages are retrieved as well.
+  const retrievalQuestion = argument && action && getPromptAction(action)?.prompt.retrieveArgument ? `${question}\n${argument}` : question;
+  const reserved = estimateTextUsage([question, originalAnswer ?? '', argument ?? '', ...history.map(m => m.text)].join('\n'));
+  const { context, omittedItems } = fitContext(await selectContext(knowledgeBase, retrievalQuestion, history), contextBudget, reserved);
+  if (omittedItems.length > 0) {
+    console.warn(`The context exceeded the budget; left out: ${omittedItems.join(', ')}`);
   }
+  const redactor = createRedactor(redactionConfig.rules);
+  return {
+    request: {
+      task,
+      bot: { name: bot.name, persona: bot.persona, rules: bot.rules },
+      action,
+      // Messages the model never sees, such as HR case notices, are left out before their other fields are dropped.
+      ...redactRequestContent(redactor, { question, originalAnswer, argument, history: conversationalMessages(history), context }),
+      language: answerLanguage,
+    },
+    omittedItems,
+    restore: answer => restoreAnswer(answer, redactor, context.chunks, redactionConfig.restore),
+  };
 };
 
+/**
+ * Gets a complete answer to a prepared request, noting the knowledge items left out of it.
+ * @param {Promise<PreparedRequest>} prepared - The request being built.
+ * @returns {Promise<GeneratedAnswer>} The answer.
+ * @throws {Error} If the model fails or returns no answer; errors are never returned as answers.
+ */
+const completeRequest = async (prepared: Promise<PreparedRequest>): Promise<GeneratedAnswer> => {
+  const { request, omittedItems, restore } = await prepared;
+  const answer = restore(await engine.complete(request));
+  return omittedItems.length > 0 ? { ...answer, omittedItems } : answer;
+};
+
+/**
+ * Streams the answer to a request once its context has been selected, noting the knowledge items left out of it.
+ * @param {Promise<PreparedRequest>} prepared - The request being built.
+ * @param {AbortSignal} [signal] - A signal used to cancel the stream.
+ * @returns {AsyncGenerator<GeneratedAnswer>} The successive snapshots of the answer.
+ */
+async function* streamRequest(prepared: Promise<PreparedRequest>, signal?: AbortSignal): AsyncGenerator<GeneratedAnswer> {
+  const { request, omittedItems, restore } = await prepared;
+  for await (const snapshot of engine.stream(request, signal)) {
+    const answer = restore(snapshot);
+    yield omittedItems.length > 0 ? { ...answer, omittedItems } : answer;
+  }
+}
+
 /**
  * Gets an answer from the AI model for a given question.
  * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
  * @param {string} question - The user's question.
- * @param {string} botName - The name of the bot.
- * @returns {Promise<string>} The answer.
+ * @param {Bot} bot - The bot answering the question.
+ * @param {Message[]} [history] - The chat history that precedes the question.
+ * @returns {Promise<GeneratedAnswer>} The answer and the chunks used as context.
  */
-export const getAnswer = async (knowledgeBase: KnowledgeItem[], question: string, botName: string): Promise<string> => {
-  return generateContent(getBaseSystemInstruction(botName), question, knowledgeBase);
+export const getAnswer = async (knowledgeBase: KnowledgeItem[], question: string, bot: Bot, history: Message[] = []): Promise<GeneratedAnswer> => {
+  return completeRequest(buildRequest('answer', knowledgeBase, question, bot, history));
 };
 
 /**
- * Re-explains a previous answer in a different way.
+ * Streams an answer from the AI model for a given question.
+ * Questions that open a conversation do not depend on any history, so their answers are cached:
+ * a cached answer is returned at once, and a new one is cached once it has been streamed in full.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {string} question - The user's question.
+ * @param {Bot} bot - The bot answering the question.
+ * @param {Message[]} [history] - The chat history that precedes the question.
+ * @param {AbortSignal} [signal] - A signal used to cancel the stream.
+ * @returns {AsyncGenerator<GeneratedAnswer>} The successive snapshots of the answer.
+ */
+export async function* streamAnswer(knowledgeBase: KnowledgeItem[], question: string, bot: Bot, history: Message[] = [], signal?: AbortSignal): AsyncGenerator<GeneratedAnswer> {
+  const cacheable = !lastUserQuestion(history);
+  const language = answerLanguage;
+  const cached = cacheable ? await answerCache.getAnswer(bot, knowledgeBase, question, language) : null;
+  if (cached) {
+    yield cached;
+    return;
+  }
+
+  let answer: GeneratedAnswer | undefined;
+  for await (answer of streamRequest(buildRequest('answer', knowledgeBase, question, bot, history), signal)) {
+    yield answer;
+  }
+  if (cacheable && answer?.text.trim() && !signal?.aborted) {
+    await answerCache.putAnswer(bot, knowledgeBase, question, language, answer);
+  }
+}
+
+/**
+ * Runs a prompt action of the action registry on a previous answer, e.g. to summarize or translate it.
+ * @param {string} actionId - The ID of the action.
  * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
  * @param {string} question - The original question.
  * @param {string} originalAnswer - The original answer.
- * @param {string} botName - The name of the bot.
- * @returns {Promise<string>} The re-explained answer.
+ * @param {Bot} bot - The bot answering the question.
+ * @param {Message[]} [history] - The chat history that precedes the original question.
+ * @param {string} [argument] - The value the user gave for the action's argument, if it has one.
+ * @returns {Promise<GeneratedAnswer>} The result of the action and the chunks used as context.
  */
-export const reExplain = async (knowledgeBase: KnowledgeItem[], question: string, originalAnswer: string, botName: string): Promise<string> => {
-  const systemInstruction = `${getBaseSystemInstruction(botName)} Un empleado no entendió una respuesta y ha pedido una explicación alternativa.`;
-  const userPrompt = `Pregunta Original: "${question}"\nRespuesta Anterior: "${originalAnswer}"\n\nPor favor, explica la respuesta anterior de una manera diferente, usando una analogía o términos más sencillos para que sea más fácil de entender.`;
-  return generateContent(systemInstruction, userPrompt, knowledgeBase);
+export const runAction = async (actionId: string, knowledgeBase: KnowledgeItem[], question: string, originalAnswer: string, bot: Bot, history: Message[] = [], argument?: string): Promise<GeneratedAnswer> => {
+  return completeRequest(buildRequest('action', knowledgeBase, question, bot, history, { originalAnswer, action: actionId, argument }));
 };
 
 /**
- * Gets an example for a previous answer.
+ * Streams the result of a prompt action of the action registry on a previous answer.
+ * @param {string} actionId - The ID of the action.
  * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
  * @param {string} question - The original question.
  * @param {string} originalAnswer - The original answer.
- * @param {string} botName - The name of the bot.
- * @returns {Promise<string>} The example.
+ * @param {Bot} bot - The bot answering the question.
+ * @param {Message[]} [history] - The chat history that precedes the original question.
+ * @param {string} [argument] - The value the user gave for the action's argument, if it has one.
+ * @param {AbortSignal} [signal] - A signal used to cancel the stream.
+ * @returns {AsyncGenerator<GeneratedAnswer>} The successive snapshots of the result.
  */
-export const getExample = async (knowledgeBase: KnowledgeItem[], question: string, originalAnswer: string, botName: string): Promise<string> => {
-  const systemInstruction = `${getBaseSystemInstruction(botName)} Un empleado ha solicitado un ejemplo práctico relacionado con una respuesta.`;
-  const userPrompt = `Pregunta Original: "${question}"\nRespuesta Anterior: "${originalAnswer}"\n\nPor favor, proporciona un ejemplo concreto y práctico que ilustre el punto principal de la respuesta anterior.`;
-  return generateContent(systemInstruction, userPrompt, knowledgeBase);
+export const streamAction = (actionId: string, knowledgeBase: KnowledgeItem[], question: string, originalAnswer: string, bot: Bot, history: Message[] = [], argument?: string, signal?: AbortSignal): AsyncGenerator<GeneratedAnswer> => {
+  return streamRequest(buildRequest('action', knowledgeBase, question, bot, history, { originalAnswer, action: actionId, argument }), signal);
 };
 
 /**
- * Generates an image for a given concept.
+ * Generates an image for a given concept, or returns the one generated before for the same answer.
  * @param {string} question - The user's question.
  * @param {string} answer - The model's answer.
+ * @param {Bot} bot - The bot that gave the answer.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base the answer was based on.
  * @returns {Promise<string>} The generated image as a base64 data URL.
  */
-export const generateImageForConcept = async (question: string, answer: string): Promise<string> => {
-  try {
-    const promptGenerationInstruction = `Basado en la siguiente pregunta y respuesta de un manual de empleado, crea un prompt corto y descriptivo en inglés para un modelo de generación de imágenes de IA. El prompt debe capturar la idea central de manera visual y abstracta. Debe ser apto para un entorno profesional. El prompt no debe contener más de 20 palabras.`;
-    const promptGenerationUserPrompt = `Pregunta: "${question}"\nRespuesta: "${answer}"\n\nGenera el prompt para la imagen:`;
-    
-    const imagePromptResponse = await ai.models.generateContent({
-        model: textModel,
-        contents: promptGenerationUserPrompt,
-        config: { systemInstruction: promptGenerationInstruction }
-    });
-    const imagePrompt = imagePromptResponse.text.trim();
-
-    const imageResponse = await ai.models.generateContent({
-        model: imageModel,
-        contents: { parts: [{ text: imagePrompt }] },
-        config: { responseModalities: [Modality.IMAGE] }
-    });
-
-    if (imageResponse.candidates && imageResponse.candidates[0].content.parts[0].inlineData) {
-        const base64ImageBytes = imageResponse.candidates[0].content.parts[0].inlineData.data;
-        return `data:image/png;base64,${base64ImageBytes}`;
-    } else {
-        throw new Error("No se pudo generar la imagen.");
-    }
-  } catch (error) {
-    console.error("Error generating image:", error);
-    throw new Error("No se pudo generar la imagen. Por favor, intenta de nuevo.");
+export const generateImageForConcept = async (question: string, answer: string, bot: Bot, knowledgeBase: KnowledgeItem[]): Promise<string> => {
+  const cached = await answerCache.getImage(bot, knowledgeBase, question, answer);
+  if (cached) return cached;
+  // The image prompt is written by the model, so the question and answer are redacted as well.
+  const redactor = createRedactor(redactionConfig.rules);
+  const imageUrl = await engine.generateImage(redactor.redact(question), redactor.redact(answer));
+  await answerCache.putImage(bot, knowledgeBase, question, answer, imageUrl);
+  return imageUrl;
+};
+
+/**
+ * Generates a training quiz from some documents of a bot. The whole text of the documents is sent, trimmed
+ * to the context budget and the chunks the server accepts, with its personal data redacted; images are left out.
+ * @param {KnowledgeItem[]} items - The documents the quiz is about.
+ * @param {Bot} bot - The bot whose documents they are.
+ * @param {number} count - The number of questions.
+ * @returns {Promise<Quiz>} The quiz.
+ * @throws {ContextOverflowError} If the documents do not fit and the budget's overflow policy is 'refuse'.
+ */
+export const generateQuiz = async (items: KnowledgeItem[], bot: Bot, count: number): Promise<Quiz> => {
+  const { context, omittedItems } = fitDocumentContext(items.flatMap(item => chunkKnowledgeItem(item)), contextBudget);
+  if (omittedItems.length > 0) {
+    console.warn(`The quiz documents exceeded the budget; left out: ${omittedItems.join(', ')}`);
+  }
+  const redactor = createRedactor(redactionConfig.rules);
+  const questions = await engine.generateQuiz({
+    bot: { name: bot.name, persona: bot.persona, rules: bot.rules },
+    count,
+    context: redactRequestContent(redactor, { question: '', history: [], context }).context,
+    language: answerLanguage,
+  });
+  return {
+    id: crypto.randomUUID(),
+    botId: bot.id,
+    itemNames: [...new Set(context.chunks.map(chunk => chunk.itemName))],
+    ...(omittedItems.length > 0 && { omittedItems }),
+    questions: restoreQuizQuestions(questions, redactor, redactionConfig.restore),
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Tells whether a FAQ still matches its bot, its knowledge and the current answer language, or must be regenerated.
+ * @param {Faq | null} faq - The FAQ, if one was generated.
+ * @param {Bot} bot - The bot.
+ * @param {KnowledgeItem[]} knowledgeBase - The bot's knowledge base.
+ * @returns {Promise<boolean>} Whether the FAQ is up to date.
+ */
+export const isFaqCurrent = async (faq: Faq | null, bot: Bot, knowledgeBase: KnowledgeItem[]): Promise<boolean> =>
+  !!faq && faq.language === answerLanguage && faq.snapshot === await createKnowledgeSnapshot(bot, knowledgeBase);
+
+/**
+ * Generates the FAQ of a bot from the text of its whole knowledge base, trimmed to the context budget and the
+ * chunks the server accepts, with its personal data redacted. Duplicate questions are removed, and HR's pinned and hidden entries of the
+ * previous FAQ are carried over.
+ * @param {KnowledgeItem[]} knowledgeBase - The bot's knowledge base.
+ * @param {Bot} bot - The bot.
+ * @param {Faq | null} [previous] - The previous FAQ, if any.
+ * @returns {Promise<Faq>} The FAQ.
+ * @throws {ContextOverflowError} If the documents do not fit and the budget's overflow policy is 'refuse'.
+ */
+export const generateFaq = async (knowledgeBase: KnowledgeItem[], bot: Bot, previous: Faq | null = null): Promise<Faq> => {
+  const language = answerLanguage;
+  const snapshot = await createKnowledgeSnapshot(bot, knowledgeBase);
+  const { context, omittedItems } = fitDocumentContext(knowledgeBase.flatMap(item => chunkKnowledgeItem(item)), contextBudget);
+  if (omittedItems.length > 0) {
+    console.warn(`The FAQ documents exceeded the budget; left out: ${omittedItems.join(', ')}`);
   }
+  const redactor = createRedactor(redactionConfig.rules);
+  const entries = await engine.generateFaq({
+    bot: { name: bot.name, persona: bot.persona, rules: bot.rules },
+    count: FAQ_LENGTH,
+    context: redactRequestContent(redactor, { question: '', history: [], context }).context,
+    language,
+  });
+  const generated = dedupeFaqEntries(restoreFaqEntries(entries, redactor, redactionConfig.restore));
+  return {
+    botId: bot.id,
+    snapshot,
+    language,
+    entries: previous ? mergeFaqOverrides(previous.entries, generated) : generated,
+    ...(omittedItems.length > 0 && { omittedItems }),
+    generatedAt: Date.now(),
+  };
+};
+
+/**
+ * Frees the embeddings kept for the passages of knowledge items that were removed or replaced.
+ * @param {KnowledgeItem[]} items - The removed items, or the previous versions of the replaced ones.
+ */
+export const forgetKnowledge = (items: KnowledgeItem[]) => forgetEmbeddings(items);
+
+/**
+ * Deletes the cached answers and images of a bot, e.g. after its knowledge changes.
+ * Entries built from older knowledge are never served anyway; this frees their space.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<void>}
+ */
+export const invalidateCache = (botId: string): Promise<void> => answerCache.invalidate(botId);
+
+/**
+ * @interface AnswerCacheStats
+ * @extends CacheStats
+ * @property {number} entries - The number of answers and images cached for the bot.
+ */
+export interface AnswerCacheStats extends CacheStats {
+  entries: number;
+}
+
+/**
+ * Gets the hit and miss counters of a bot's cache, and its number of entries.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<AnswerCacheStats>} The cache statistics.
+ */
+export const getCacheStats = async (botId: string): Promise<AnswerCacheStats> => {
+  return { ...loadCacheStats(botId), entries: await countCachedResponses(botId) };
+};
+
+/**
+ * Empties a bot's cache and resets its counters.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<void>}
+ */
+export const clearCache = async (botId: string): Promise<void> => {
+  await answerCache.invalidate(botId);
+  resetCacheStats(botId);
 };
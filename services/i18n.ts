@@ -0,0 +1,103 @@
+import es from '../locales/es';
+import en from '../locales/en';
+import pt from '../locales/pt';
+
+// Where the chosen interface language is kept between visits.
+const LOCALE_KEY = 'asistente-rrhh:locale';
+
+/**
+ * A language the interface is translated into.
+ */
+export type Locale = 'es' | 'en' | 'pt';
+
+/**
+ * The key of an interface string. The Spanish catalog is the reference for the keys.
+ */
+export type MessageKey = keyof typeof es;
+
+/**
+ * A catalog of interface strings, which must translate every key of the Spanish catalog.
+ */
+export type Catalog = Record<MessageKey, string>;
+
+/**
+ * Looks up an interface string and fills in its `{name}` placeholders.
+ */
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * @interface LocaleInfo
+ * @property {string} label - The name of the language in that language, for the switcher.
+ * @property {string} languageName - The name of the language in Spanish, for the system instruction.
+ * @property {Catalog} catalog - The interface strings.
+ */
+export interface LocaleInfo {
+  label: string;
+  languageName: string;
+  catalog: Catalog;
+}
+
+/**
+ * The languages the interface is available in. Spanish comes first and is the fallback.
+ */
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  es: { label: 'Español', languageName: 'español', catalog: es },
+  en: { label: 'English', languageName: 'inglés', catalog: en },
+  pt: { label: 'Português', languageName: 'portugués', catalog: pt },
+};
+
+/**
+ * Checks whether a string is a supported locale.
+ * @param {string | null} value - The string to check.
+ * @returns {boolean} Whether the string is a supported locale.
+ */
+const isLocale = (value: string | null): value is Locale => value !== null && value in LOCALES;
+
+/**
+ * Creates the translation function of a locale. A key missing from the catalog falls back to Spanish.
+ * @param {Locale} locale - The locale.
+ * @returns {Translate} The translation function.
+ */
+export const createTranslator = (locale: Locale): Translate => {
+  const catalog = LOCALES[locale].catalog;
+  return (key, params) => {
+    const template = catalog[key] ?? es[key];
+    return params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+  };
+};
+
+/**
+ * Picks the interface language: the one chosen before in this browser, else the first browser
+ * language that is supported, else Spanish.
+ * @returns {Locale} The locale.
+ */
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) {
+      return saved;
+    }
+  } catch {
+    // Storage may be blocked; fall through to the browser languages.
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    const base = language?.toLowerCase().split('-')[0] ?? null;
+    if (isLocale(base)) {
+      return base;
+    }
+  }
+  return 'es';
+};
+
+/**
+ * Remembers the interface language chosen in this browser.
+ * @param {Locale} locale - The locale.
+ */
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // The choice simply is not remembered.
+  }
+};
@@ -0,0 +1,177 @@
+import { Bot, KnowledgeItem } from '../types';
+import { validateBot } from './botRegistry';
+
+// Identifies knowledge pack files, so other JSON files are refused with a clear message.
+const KNOWLEDGE_PACK_FORMAT = 'asistente-rrhh/knowledge-pack';
+// Increased whenever the pack layout changes; older packs are still accepted.
+const KNOWLEDGE_PACK_VERSION = 1;
+
+/**
+ * @interface KnowledgePackItem
+ * A knowledge item as it is stored in a knowledge pack. Images keep their base64 data URL as content.
+ * @property {string} hash - The SHA-256 hash of the item's type and content, as hexadecimal.
+ */
+export interface KnowledgePackItem extends KnowledgeItem {
+  hash: string;
+}
+
+/**
+ * @interface KnowledgePack
+ * A bot's configuration and knowledge base in a single file, to copy them to another machine.
+ * @property {string} format - Always `asistente-rrhh/knowledge-pack`.
+ * @property {number} version - The version of the pack layout.
+ * @property {string} exportedAt - When the pack was exported, as an ISO date.
+ * @property {Bot} bot - The bot the knowledge belongs to.
+ * @property {KnowledgePackItem[]} items - The knowledge items, in upload order.
+ */
+export interface KnowledgePack {
+  format: string;
+  version: number;
+  exportedAt: string;
+  bot: Bot;
+  items: KnowledgePackItem[];
+}
+
+/**
+ * How the items of a pack are combined with the knowledge base.
+ * 'merge': The items are added, skipping the ones whose content is already there.
+ * 'replace': The knowledge base is emptied before the items are added.
+ */
+export type KnowledgeImportMode = 'merge' | 'replace';
+
+/**
+ * @interface KnowledgeImportPlan
+ * @property {KnowledgeItem[]} toAdd - The items to add, with new IDs.
+ * @property {string[]} toRemove - The IDs of the existing items to remove.
+ * @property {number} duplicates - The number of pack items skipped because their content is already in the knowledge base or repeated in the pack.
+ */
+export interface KnowledgeImportPlan {
+  toAdd: KnowledgeItem[];
+  toRemove: string[];
+  duplicates: number;
+}
+
+/**
+ * Thrown when a file is not a valid knowledge pack.
+ * @property {string[]} problems - The problems found, one per invalid value.
+ */
+export class KnowledgePackError extends Error {
+  problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(problems.length ? `${message}\n${problems.join('\n')}` : message);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Computes the hash that identifies the content of a knowledge item, whatever its name or ID.
+ * @param {KnowledgeItem} item - The knowledge item.
+ * @returns {Promise<string>} The SHA-256 hash, as hexadecimal.
+ */
+export const hashKnowledgeContent = async (item: KnowledgeItem): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${item.type}\n${item.content}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Creates a knowledge pack with a bot and its knowledge base.
+ * @param {Bot} bot - The bot.
+ * @param {KnowledgeItem[]} items - The bot's knowledge items.
+ * @returns {Promise<string>} The pack, as JSON.
+ */
+export const createKnowledgePack = async (bot: Bot, items: KnowledgeItem[]): Promise<string> => {
+  const pack: KnowledgePack = {
+    format: KNOWLEDGE_PACK_FORMAT,
+    version: KNOWLEDGE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    bot,
+    items: await Promise.all(items.map(async item => ({ ...item, hash: await hashKnowledgeContent(item) }))),
+  };
+  return JSON.stringify(pack);
+};
+
+/**
+ * Checks the fields of a knowledge item read from a pack.
+ * @param {unknown} value - The item.
+ * @param {string} path - The path of the item, for the messages.
+ * @returns {string[]} The problems found; empty when the item is valid.
+ */
+const validatePackItem = (value: unknown, path: string): string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: debe ser un objeto.`];
+  const item = value as Record<string, unknown>;
+  const problems: string[] = [];
+  ['id', 'name', 'content', 'hash'].forEach(key => {
+    if (typeof item[key] !== 'string' || !item[key]) problems.push(`${path}.${key}: es obligatorio.`);
+  });
+  if (item.type !== 'text' && item.type !== 'image') problems.push(`${path}.type: debe ser "text" o "image".`);
+  if (item.type === 'image' && (typeof item.mimeType !== 'string' || !String(item.content).startsWith('data:image/'))) {
+    problems.push(`${path}: la imagen debe tener mimeType y un data URL como contenido.`);
+  }
+  if (item.pages !== undefined) {
+    const valid = Array.isArray(item.pages) && item.pages.every(page =>
+      page && typeof page.pageNumber === 'number' && typeof page.text === 'string');
+    if (!valid) problems.push(`${path}.pages: las páginas no son válidas.`);
+  }
+  return problems;
+};
+
+/**
+ * Reads and validates a knowledge pack. The hash of every item is checked against its content,
+ * so damaged or hand-edited files are refused.
+ * @param {string} text - The content of the pack file.
+ * @returns {Promise<KnowledgePack>} The pack.
+ * @throws {KnowledgePackError} If the file is not a valid knowledge pack.
+ */
+export const parseKnowledgePack = async (text: string): Promise<KnowledgePack> => {
+  let pack: KnowledgePack;
+  try {
+    pack = JSON.parse(text);
+  } catch {
+    throw new KnowledgePackError('El archivo no es un paquete de conocimiento: no es un JSON válido.');
+  }
+  if (!pack || pack.format !== KNOWLEDGE_PACK_FORMAT) {
+    throw new KnowledgePackError('El archivo no es un paquete de conocimiento.');
+  }
+  if (typeof pack.version !== 'number' || pack.version > KNOWLEDGE_PACK_VERSION) {
+    throw new KnowledgePackError(`El paquete es de una versión más reciente (${pack.version}). Actualiza la aplicación para importarlo.`);
+  }
+
+  const problems = validateBot(pack.bot);
+  if (!Array.isArray(pack.items)) {
+    problems.push('pack.items: debe ser una lista.');
+  } else {
+    pack.items.forEach((item, i) => problems.push(...validatePackItem(item, `pack.items[${i}]`)));
+  }
+  if (problems.length === 0) {
+    const hashes = await Promise.all(pack.items.map(hashKnowledgeContent));
+    pack.items.forEach((item, i) => {
+      if (hashes[i] !== item.hash) problems.push(`pack.items[${i}]: el contenido de "${item.name}" está dañado.`);
+    });
+  }
+  if (problems.length > 0) throw new KnowledgePackError('El paquete de conocimiento no es válido.', problems);
+  return pack;
+};
+
+/**
+ * Works out how to import a pack into a knowledge base. Items are given new IDs, because
+ * IDs are shared by every bot's memory and the same pack may be imported into several bots.
+ * @param {KnowledgePack} pack - The pack.
+ * @param {KnowledgeItem[]} existing - The current knowledge base.
+ * @param {KnowledgeImportMode} mode - Whether to merge the items or replace the knowledge base.
+ * @returns {Promise<KnowledgeImportPlan>} The items to add and remove.
+ */
+export const planKnowledgeImport = async (pack: KnowledgePack, existing: KnowledgeItem[], mode: KnowledgeImportMode): Promise<KnowledgeImportPlan> => {
+  const seen = new Set(mode === 'merge' ? await Promise.all(existing.map(hashKnowledgeContent)) : []);
+  const toAdd: KnowledgeItem[] = [];
+  pack.items.forEach(({ hash, name, type, content, mimeType, pages }) => {
+    if (seen.has(hash)) return;
+    seen.add(hash);
+    toAdd.push({ id: crypto.randomUUID(), name, type, content, ...(mimeType && { mimeType }), ...(pages && { pages }) });
+  });
+  return {
+    toAdd,
+    toRemove: mode === 'replace' ? existing.map(item => item.id) : [],
+    duplicates: pack.items.length - toAdd.length,
+  };
+};
@@ -0,0 +1,135 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+/**
+ * A piece of a turn sent to a model: either text or inline binary data such as an image.
+ */
+export type LLMPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+/**
+ * @interface LLMTurn
+ * @property {'user' | 'model'} role - Who produced the turn.
+ * @property {LLMPart[]} parts - The content of the turn.
+ */
+export interface LLMTurn {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+/**
+ * A JSON Schema describing a structured response, limited to the subset supported by both Gemini and OpenAI:
+ * objects with all their properties required and no additional properties, arrays, strings, booleans and enums.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * @interface TextRequest
+ * @property {string} [systemInstruction] - The system instruction for the model.
+ * @property {LLMTurn[]} turns - The conversation to continue; the last turn is the user's request.
+ * @property {JsonSchema} [responseSchema] - The schema of the JSON response, if the response must be structured.
+ * @property {AbortSignal} [signal] - A signal used to cancel the request.
+ */
+export interface TextRequest {
+  systemInstruction?: string;
+  turns: LLMTurn[];
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+/**
+ * @interface LLMProvider
+ * A backend able to answer the requests made by the service layer.
+ * @property {string} name - The name of the provider, for logs and the UI.
+ * @property {(request: TextRequest) => Promise<string>} generateText - Generates a complete text response.
+ * @property {(request: TextRequest) => AsyncGenerator<string>} streamText - Generates a text response, yielding it piece by piece.
+ * @property {(texts: string[]) => Promise<number[][]>} [embed] - Computes embedding vectors, if the provider supports them.
+ * @property {(prompt: string) => Promise<string>} generateImage - Generates an image and returns it as a data URL.
+ */
+export interface LLMProvider {
+  name: string;
+  generateText: (request: TextRequest) => Promise<string>;
+  streamText: (request: TextRequest) => AsyncGenerator<string>;
+  embed?: (texts: string[]) => Promise<number[][]>;
+  generateImage: (prompt: string) => Promise<string>;
+}
+
+/**
+ * @interface ProviderConfig
+ * @property {'gemini' | 'openai' | 'mock'} provider - The provider to use.
+ * @property {string} [apiKey] - The API key for the provider.
+ * @property {string} [baseUrl] - The base URL of an OpenAI-compatible endpoint, e.g. "http://localhost:11434/v1".
+ * @property {string} [textModel] - The model used for text generation.
+ * @property {string} [embeddingModel] - The model used for embeddings.
+ * @property {string} [imageModel] - The model used for image generation.
+ */
+export interface ProviderConfig {
+  provider: 'gemini' | 'openai' | 'mock';
+  apiKey?: string;
+  baseUrl?: string;
+  textModel?: string;
+  embeddingModel?: string;
+  imageModel?: string;
+}
+
+/**
+ * The environment variables that configure a provider.
+ */
+export type ProviderEnv = Record<string, string | undefined>;
+
+/**
+ * Reads the provider configuration from environment variables: `process.env` on the proxy server,
+ * or the variables inlined by Vite in the browser.
+ * When `LLM_PROVIDER` is not set, Gemini is used if a Gemini key is available and the mock provider otherwise,
+ * so the app can always start.
+ * @param {ProviderEnv} env - The environment variables.
+ * @returns {ProviderConfig} The provider configuration.
+ */
+export const loadProviderConfig = (env: ProviderEnv): ProviderConfig => {
+  const requested = env.LLM_PROVIDER;
+  const geminiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (requested === 'openai') {
+    return {
+      provider: 'openai',
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL,
+      textModel: env.OPENAI_MODEL,
+      embeddingModel: env.OPENAI_EMBEDDING_MODEL,
+      imageModel: env.OPENAI_IMAGE_MODEL,
+    };
+  }
+  if (requested === 'mock') {
+    return { provider: 'mock' };
+  }
+  if (requested === 'gemini' || geminiKey) {
+    return { provider: 'gemini', apiKey: geminiKey };
+  }
+  console.warn("No LLM provider configured and GEMINI_API_KEY is not set; using the offline mock provider.");
+  return { provider: 'mock' };
+};
+
+/**
+ * Creates the provider described by a configuration.
+ * @param {ProviderConfig} config - The provider configuration.
+ * @returns {LLMProvider} The provider.
+ */
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+/**
+ * Returns the text of the last user turn of a request, which is the prompt most providers need to look at.
+ * @param {TextRequest} request - The request.
+ * @returns {string} The concatenated text parts of the last turn.
+ */
+export const lastTurnText = (request: TextRequest): string => {
+  const last = request.turns[request.turns.length - 1];
+  return last ? last.parts.map(part => ('text' in part ? part.text : '')).join('\n') : '';
+};
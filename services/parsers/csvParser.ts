@@ -0,0 +1,78 @@
+/**
+ * Guesses the delimiter of a CSV file from its first line. Spreadsheets exported with a Spanish locale
+ * use semicolons, because the comma is the decimal separator.
+ * @param {string} text - The CSV text.
+ * @returns {string} The delimiter.
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.indexOf('\n') >= 0 ? text.indexOf('\n') : undefined);
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+};
+
+/**
+ * Parses CSV text into rows of cells, handling quoted cells with delimiters, quotes and line breaks.
+ * @param {string} text - The CSV text.
+ * @param {string} delimiter - The cell delimiter.
+ * @returns {string[][]} The rows.
+ */
+export const parseCsvRows = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+/**
+ * Formats rows of cells as a Markdown table, using the first row as the header.
+ * @param {string[][]} rows - The rows.
+ * @returns {string} The Markdown table, or an empty string if there are no rows.
+ */
+export const toMarkdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [formatRow(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(formatRow)].join('\n');
+};
+
+/**
+ * Converts a CSV file (e.g. a spreadsheet export) into a Markdown table.
+ * @param {string} text - The CSV text.
+ * @returns {string} The Markdown table.
+ */
+export const csvToText = (text: string): string => toMarkdownTable(parseCsvRows(text.replace(/^\uFEFF/, '')));
@@ -0,0 +1,149 @@
+import { toMarkdownTable } from './csvParser';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Reads one file from a ZIP archive, such as the parts of a .docx document.
+ * Only stored and deflated entries are supported, which is what Office writes.
+ * @param {ArrayBuffer} buffer - The ZIP archive.
+ * @param {string} path - The path of the file inside the archive.
+ * @returns {Promise<string | null>} The file decoded as UTF-8, or null if the archive does not contain it.
+ */
+export const readZipEntry = async (buffer: ArrayBuffer, path: string): Promise<string | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is at the end of the file, followed by an optional comment.
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('The file is not a ZIP archive.');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === path) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error(`Unsupported ZIP compression method ${method}.`);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+/**
+ * Returns the direct children of an element with a given name in the WordprocessingML namespace.
+ * @param {Element} element - The parent element.
+ * @param {string} name - The local name of the children.
+ * @returns {Element[]} The children.
+ */
+const childrenNamed = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter(child => child.namespaceURI === WORD_NAMESPACE && child.localName === name);
+
+/**
+ * Returns the text of a paragraph or table cell, keeping tabs, line breaks and the breaks between paragraphs.
+ * @param {Element} element - The element.
+ * @returns {string} The text.
+ */
+const runText = (element: Element): string => {
+  let text = '';
+  element.querySelectorAll('*').forEach(node => {
+    if (node.namespaceURI !== WORD_NAMESPACE) return;
+    if (node.localName === 'p' && text && !text.endsWith('\n')) text += '\n';
+    else if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+/**
+ * Returns the heading level of a paragraph from its style, e.g. "Heading2", or "Título2" in a Spanish template.
+ * @param {Element} paragraph - The paragraph.
+ * @returns {number} The heading level, or 0 if the paragraph is not a heading.
+ */
+const headingLevel = (paragraph: Element): number => {
+  const properties = childrenNamed(paragraph, 'pPr')[0];
+  const style = properties && childrenNamed(properties, 'pStyle')[0]?.getAttributeNS(WORD_NAMESPACE, 'val');
+  if (!style) return 0;
+  if (/^title$/i.test(style)) return 1;
+  const match = /^(?:heading|t[ií]?tulo)\s*(\d)$/i.exec(style);
+  return match ? Math.min(6, Number(match[1])) : 0;
+};
+
+/**
+ * Returns whether a paragraph is part of a numbered or bulleted list.
+ * @param {Element} paragraph - The paragraph.
+ * @returns {boolean} Whether the paragraph is a list item.
+ */
+const isListItem = (paragraph: Element): boolean => {
+  const properties = childrenNamed(paragraph, 'pPr')[0];
+  return !!properties && childrenNamed(properties, 'numPr').length > 0;
+};
+
+/**
+ * Converts the body of a Word document into Markdown-like blocks: headings, paragraphs, list items and tables.
+ * @param {Element} body - The w:body element.
+ * @returns {string[]} The blocks.
+ */
+const bodyToBlocks = (body: Element): string[] => {
+  const blocks: string[] = [];
+  Array.from(body.children).forEach(node => {
+    if (node.namespaceURI !== WORD_NAMESPACE) return;
+    if (node.localName === 'p') {
+      const text = runText(node).trim();
+      if (!text) return;
+      const level = headingLevel(node);
+      if (level) blocks.push(`${'#'.repeat(level)} ${text}`);
+      else if (isListItem(node)) blocks.push(`- ${text}`);
+      else blocks.push(text);
+    } else if (node.localName === 'tbl') {
+      const rows = childrenNamed(node, 'tr').map(row => childrenNamed(row, 'tc').map(cell => runText(cell).trim()));
+      const table = toMarkdownTable(rows);
+      if (table) blocks.push(table);
+    } else if (node.localName === 'sdt') {
+      // Content controls (e.g. a table of contents) wrap regular paragraphs.
+      const content = childrenNamed(node, 'sdtContent')[0];
+      if (content) blocks.push(...bodyToBlocks(content));
+    }
+  });
+  return blocks;
+};
+
+/**
+ * Converts a Word (.docx) document into text, keeping headings as Markdown headings, list items
+ * as "- " lines and tables as Markdown tables.
+ * @param {ArrayBuffer} buffer - The .docx file.
+ * @returns {Promise<string>} The text of the document.
+ */
+export const docxToText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(buffer, 'word/document.xml');
+  if (!xml) throw new Error('The file is not a Word document.');
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  if (!body) return '';
+
+  // Consecutive list items are joined into a single block so a list is not split across chunks.
+  return bodyToBlocks(body)
+    .reduce<string[]>((joined, block) => {
+      const previous = joined[joined.length - 1];
+      if (previous !== undefined && block.startsWith('- ') && previous.split('\n').every(line => line.startsWith('- '))) {
+        joined[joined.length - 1] = `${previous}\n${block}`;
+      } else {
+        joined.push(block);
+      }
+      return joined;
+    }, [])
+    .join('\n\n');
+};
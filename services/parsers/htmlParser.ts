@@ -0,0 +1,92 @@
+import { toMarkdownTable } from './csvParser';
+
+// Elements whose content is never part of the document text.
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe']);
+// Elements that start a new block of text.
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote', 'pre', 'figure', 'figcaption', 'address', 'dl', 'dt', 'dd', 'form', 'fieldset']);
+
+/**
+ * Returns the text of an element's inline content, with whitespace collapsed.
+ * @param {Node} node - The node.
+ * @returns {string} The text.
+ */
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const tag = (node as Element).tagName.toLowerCase();
+  if (IGNORED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+  return Array.from(node.childNodes).map(inlineText).join('');
+};
+
+/**
+ * Converts an HTML table into a Markdown table.
+ * @param {HTMLTableElement} table - The table.
+ * @returns {string} The Markdown table.
+ */
+const tableToMarkdown = (table: HTMLTableElement): string =>
+  toMarkdownTable(Array.from(table.rows).map(row => Array.from(row.cells).map(cell => inlineText(cell).trim())));
+
+/**
+ * Converts the block structure of an element into Markdown-like blocks: headings, paragraphs, list items and tables.
+ * @param {Element} element - The element.
+ * @param {string[]} blocks - The list the blocks are appended to.
+ */
+const collectBlocks = (element: Element, blocks: string[]) => {
+  let inline = '';
+  const flushInline = () => {
+    const text = inline.replace(/[ \t\f\v\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  Array.from(element.childNodes).forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      inline += inlineText(node);
+      return;
+    }
+    const child = node as Element;
+    const tag = child.tagName.toLowerCase();
+    if (IGNORED_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flushInline();
+      const text = inlineText(child).replace(/\s+/g, ' ').trim();
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (tag === 'table') {
+      flushInline();
+      const table = tableToMarkdown(child as HTMLTableElement);
+      if (table) blocks.push(table);
+    } else if (tag === 'ul' || tag === 'ol') {
+      flushInline();
+      const items = Array.from(child.children)
+        .filter(li => li.tagName.toLowerCase() === 'li')
+        .map((li, i) => `${tag === 'ol' ? `${i + 1}.` : '-'} ${inlineText(li).replace(/\s+/g, ' ').trim()}`);
+      if (items.length) blocks.push(items.join('\n'));
+    } else if (tag === 'hr') {
+      flushInline();
+    } else if (BLOCK_TAGS.has(tag) || tag === 'body' || tag === 'li') {
+      flushInline();
+      collectBlocks(child, blocks);
+    } else {
+      inline += inlineText(child);
+    }
+  });
+  flushInline();
+};
+
+/**
+ * Converts an HTML document into text, keeping headings as Markdown headings, lists as list items
+ * and tables as Markdown tables.
+ * @param {string} html - The HTML source.
+ * @returns {string} The text of the document.
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: string[] = [];
+  const title = doc.title.trim();
+  collectBlocks(doc.body, blocks);
+  if (title && !blocks[0]?.startsWith('#')) blocks.unshift(`# ${title}`);
+  return blocks.join('\n\n');
+};
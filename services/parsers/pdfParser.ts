@@ -0,0 +1,111 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+// The worker is bundled with the app instead of being loaded from a CDN, so PDFs can be read offline.
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { KnowledgePage } from '../../types';
+
+// A line whose text is this much taller than the body text of its page is treated as a heading.
+const HEADING_SIZE_RATIO = 1.2;
+// Headings longer than this are more likely large body text, such as a cover page.
+const MAX_HEADING_CHARS = 120;
+// A vertical gap between lines larger than this many line heights starts a new paragraph.
+const PARAGRAPH_GAP_RATIO = 1.6;
+
+/**
+ * A line of text on a page, with its vertical position and font size.
+ */
+interface PdfLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+/**
+ * Groups the text items of a page into lines, following pdf.js end-of-line markers and changes of baseline.
+ * @param {TextItem[]} items - The text items of the page, in reading order.
+ * @returns {PdfLine[]} The lines.
+ */
+const groupLines = (items: TextItem[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let previousEnd = 0;
+
+  const flush = () => {
+    if (current && current.text.trim()) lines.push({ ...current, text: current.text.replace(/\s+/g, ' ').trim() });
+    current = null;
+  };
+
+  items.forEach(item => {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]);
+    if (current && Math.abs(y - current.y) > Math.max(current.height, height) * 0.5) flush();
+    if (item.str) {
+      if (!current) {
+        current = { text: item.str, y, height };
+      } else {
+        // pdf.js does not always emit the spaces between words, so a horizontal gap is turned into one.
+        const needsSpace = x - previousEnd > height * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+        current.text += (needsSpace ? ' ' : '') + item.str;
+        current.height = Math.max(current.height, height);
+      }
+      previousEnd = x + item.width;
+    }
+    if (item.hasEOL) flush();
+  });
+  flush();
+  return lines;
+};
+
+/**
+ * Converts the lines of a page into text. Lines are kept, paragraphs are separated by blank lines
+ * and lines set in a larger font are marked as Markdown headings.
+ * @param {PdfLine[]} lines - The lines of the page.
+ * @returns {string} The text of the page.
+ */
+const linesToText = (lines: PdfLine[]): string => {
+  if (lines.length === 0) return '';
+  // The body text size is the one most characters of the page are set in.
+  const charsByHeight = new Map<number, number>();
+  lines.forEach(line => {
+    const height = Math.round(line.height);
+    charsByHeight.set(height, (charsByHeight.get(height) || 0) + line.text.length);
+  });
+  const bodyHeight = [...charsByHeight].reduce((best, entry) => (entry[1] > best[1] ? entry : best), [1, 0])[0] || 1;
+
+  const blocks: string[][] = [];
+  lines.forEach((line, i) => {
+    const isHeading = line.height >= bodyHeight * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_CHARS;
+    const previous = lines[i - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    const startsBlock = !previous || isHeading || gap > Math.max(previous.height, bodyHeight) * PARAGRAPH_GAP_RATIO || gap < 0;
+    const text = isHeading ? `## ${line.text}` : line.text;
+
+    if (startsBlock || blocks[blocks.length - 1][0].startsWith('## ')) blocks.push([text]);
+    else blocks[blocks.length - 1].push(text);
+  });
+  return blocks.map(block => block.join('\n')).join('\n\n');
+};
+
+/**
+ * Extracts the text of a PDF page by page, keeping line breaks, paragraphs and headings.
+ * @param {ArrayBuffer} buffer - The PDF file.
+ * @returns {Promise<KnowledgePage[]>} The text of each page that has any; scanned pages without text are skipped.
+ */
+export const extractPdfPages = async (buffer: ArrayBuffer): Promise<KnowledgePage[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const pages: KnowledgePage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+      const text = linesToText(groupLines(items));
+      if (text) pages.push({ pageNumber, text });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
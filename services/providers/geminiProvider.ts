@@ -0,0 +1,82 @@
+import { GoogleGenAI, Modality, Content } from "@google/genai";
+import { LLMProvider, ProviderConfig, TextRequest } from '../llmProvider';
+
+const defaultTextModel = 'gemini-2.5-flash';
+const defaultImageModel = 'gemini-2.5-flash-image';
+const defaultEmbeddingModel = 'text-embedding-004';
+
+/**
+ * Creates a provider backed by the Gemini API.
+ * The client is created on the first request, so a missing key only fails the requests and not the app start-up.
+ * @param {ProviderConfig} config - The provider configuration.
+ * @returns {LLMProvider} The Gemini provider.
+ */
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  const textModel = config.textModel || defaultTextModel;
+  const imageModel = config.imageModel || defaultImageModel;
+  const embeddingModel = config.embeddingModel || defaultEmbeddingModel;
+  let client: GoogleGenAI | null = null;
+
+  /**
+   * Returns the Gemini client, creating it on first use.
+   * @returns {GoogleGenAI} The client.
+   */
+  const getClient = (): GoogleGenAI => {
+    if (!config.apiKey) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey: config.apiKey });
+    }
+    return client;
+  };
+
+  /**
+   * Converts a provider request into Gemini generation parameters.
+   * @param {TextRequest} request - The request.
+   * @returns {object} The parameters for `generateContent` and `generateContentStream`.
+   */
+  const toParams = (request: TextRequest) => ({
+    model: textModel,
+    contents: request.turns as Content[],
+    config: {
+      systemInstruction: request.systemInstruction,
+      abortSignal: request.signal,
+      ...(request.responseSchema && { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema }),
+    },
+  });
+
+  return {
+    name: 'gemini',
+
+    generateText: async (request) => {
+      const response = await getClient().models.generateContent(toParams(request));
+      return response.text || '';
+    },
+
+    streamText: async function* (request) {
+      const stream = await getClient().models.generateContentStream(toParams(request));
+      for await (const response of stream) {
+        if (response.text) yield response.text;
+      }
+    },
+
+    embed: async (texts) => {
+      const response = await getClient().models.embedContent({ model: embeddingModel, contents: texts });
+      return (response.embeddings || []).map(embedding => embedding.values || []);
+    },
+
+    generateImage: async (prompt) => {
+      const response = await getClient().models.generateContent({
+        model: imageModel,
+        contents: { parts: [{ text: prompt }] },
+        config: { responseModalities: [Modality.IMAGE] }
+      });
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+      if (!imagePart?.inlineData?.data) {
+        throw new Error("No se pudo generar la imagen.");
+      }
+      return `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`;
+    },
+  };
+};
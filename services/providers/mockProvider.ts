@@ -0,0 +1,204 @@
+import { LLMProvider, TextRequest, lastTurnText } from '../llmProvider';
+import { tokenize } from '../retrievalService';
+import { QUIZ_OPTION_COUNT } from '../quizService';
+
+// Delay between streamed words, so the demo looks like a real stream.
+const STREAM_DELAY_MS = 25;
+// Number of dimensions of the mock embeddings.
+const EMBEDDING_SIZE = 64;
+
+const DOCUMENT_PATTERN = /--- INICIO DEL DOCUMENTO: (.+?) ---\n([\s\S]*?)--- FIN DEL DOCUMENTO ---/g;
+const SECTION_PATTERN = /^\[Sección: (.+)\]$/;
+// Wrong quiz options used when the documents have too few other sentences.
+const FALLBACK_DISTRACTORS = [
+  '[Modo demostración] Los documentos no tratan este tema.',
+  '[Modo demostración] Depende de cada departamento.',
+  '[Modo demostración] Ninguna de las demás respuestas.',
+];
+
+/**
+ * Computes a small deterministic hash of a string.
+ * @param {string} text - The text to hash.
+ * @returns {number} The hash, as an unsigned 32-bit integer.
+ */
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Splits the document blocks of a prompt into sentences, noting the document and section of each one.
+ * @param {string} prompt - The text of the user turn, including the document blocks.
+ * @returns {{ document: string; section: string; sentence: string }[]} The sentences, in order.
+ */
+const collectSentences = (prompt: string): { document: string; section: string; sentence: string }[] => {
+  const sentences: { document: string; section: string; sentence: string }[] = [];
+  for (const [, document, body] of prompt.matchAll(DOCUMENT_PATTERN)) {
+    let section = '';
+    body.split('\n').forEach(line => {
+      const sectionMatch = SECTION_PATTERN.exec(line.trim());
+      if (sectionMatch) {
+        section = sectionMatch[1];
+        return;
+      }
+      line.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean).forEach(sentence => sentences.push({ document, section, sentence }));
+    });
+  }
+  return sentences;
+};
+
+/**
+ * Finds the sentence of the document blocks in a prompt that shares the most terms with the prompt's question.
+ * @param {string} prompt - The text of the user turn, including the document blocks.
+ * @returns {{ document: string; section: string; sentence: string } | null} The best sentence, or null if the prompt has no documents.
+ */
+const findBestSentence = (prompt: string): { document: string; section: string; sentence: string } | null => {
+  const questionStart = prompt.lastIndexOf('--- FIN DEL DOCUMENTO ---');
+  const questionTerms = new Set(tokenize(questionStart >= 0 ? prompt.slice(questionStart) : prompt));
+  let best: { document: string; section: string; sentence: string; score: number } | null = null;
+  collectSentences(prompt).forEach(candidate => {
+    const score = tokenize(candidate.sentence).filter(term => questionTerms.has(term)).length;
+    if (!best || score > best.score) {
+      best = { ...candidate, score };
+    }
+  });
+  return best;
+};
+
+/**
+ * Builds a quiz from the document blocks of a prompt: each question asks which sentence a section says,
+ * with other sentences of the documents as the wrong options. Short documents are padded with generic wrong options,
+ * so that every question has a full set of options.
+ * @param {string} prompt - The text of the user turn, including the document blocks and the number of questions.
+ * @returns {object} The quiz, as described by the quiz schema.
+ */
+const buildQuiz = (prompt: string) => {
+  const count = Number(/Genera (\d+) preguntas/.exec(prompt)?.[1] || 1);
+  const sentences = collectSentences(prompt).filter(({ sentence }) => sentence.length >= 20);
+  const questions = sentences.slice(0, count).map(({ document, section, sentence }, i) => {
+    const others = [...new Set(sentences.map(other => other.sentence).filter(other => other !== sentence))];
+    const distractors = [...others.slice(i), ...others.slice(0, i), ...FALLBACK_DISTRACTORS].slice(0, QUIZ_OPTION_COUNT - 1);
+    const answerIndex = hashString(sentence) % (distractors.length + 1);
+    const options = [...distractors];
+    options.splice(answerIndex, 0, sentence);
+    return {
+      question: `[Modo demostración] ¿Qué dice "${document}"${section ? ` (${section})` : ''}?`,
+      options,
+      answerIndex,
+      explanation: `Según "${document}": ${sentence}`,
+      source: { document, section, quote: sentence },
+    };
+  });
+  return { questions };
+};
+
+/**
+ * Builds a FAQ from the document blocks of a prompt: each entry asks about the start of a sentence
+ * and answers with the whole sentence.
+ * @param {string} prompt - The text of the user turn, including the document blocks and the number of entries.
+ * @returns {object} The FAQ, as described by the FAQ schema.
+ */
+const buildFaq = (prompt: string) => {
+  const count = Number(/Genera las (\d+) preguntas/.exec(prompt)?.[1] || 1);
+  const entries = collectSentences(prompt).filter(({ sentence }) => sentence.length >= 20).slice(0, count).map(({ document, section, sentence }) => ({
+    question: `[Modo demostración] ¿Qué dice "${document}" sobre "${sentence.split(/\s+/).slice(0, 5).join(' ')}…"?`,
+    answer: `[Modo demostración] Según "${document}": ${sentence}`,
+    source: { document, section, quote: sentence },
+  }));
+  return { entries };
+};
+
+/**
+ * Waits for a number of milliseconds, stopping early if the signal is aborted.
+ * @param {number} ms - The number of milliseconds to wait.
+ * @param {AbortSignal} [signal] - A signal used to cancel the wait.
+ * @returns {Promise<void>}
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Creates a deterministic provider that works offline, for demos and tests.
+ * Answers quote the document sentence that best matches the question and cite it, so the whole
+ * retrieval, citation, structured answer and streaming flow can be exercised without a model. The same input always
+ * produces the same output.
+ * @returns {LLMProvider} The mock provider.
+ */
+export const createMockProvider = (): LLMProvider => {
+  /**
+   * Produces the deterministic answer for a request, as a structured answer when the request has a schema,
+   * or as a quiz or a FAQ when the schema asks for one.
+   * @param {TextRequest} request - The request.
+   * @returns {string} The answer.
+   */
+  const answer = (request: TextRequest): string => {
+    const prompt = lastTurnText(request);
+    const schemaFields = (request.responseSchema?.properties ?? {}) as Record<string, unknown>;
+    if (schemaFields.questions) return JSON.stringify(buildQuiz(prompt));
+    if (schemaFields.entries) return JSON.stringify(buildFaq(prompt));
+    if (!prompt.includes('--- INICIO DEL DOCUMENTO')) {
+      return `[Modo demostración] ${prompt.replace(/\s+/g, ' ').trim().slice(0, 160)}`;
+    }
+    const best = findBestSentence(prompt);
+    const structured = best && best.sentence
+      ? {
+        answer: `[Modo demostración] Según "${best.document}": ${best.sentence}`,
+        grounded: true,
+        confidence: 'medium',
+        sources: [{ document: best.document, section: best.section, quote: best.sentence }],
+        followUps: [`¿Qué más dice "${best.document}" sobre este tema?`],
+      }
+      : {
+        answer: '[Modo demostración] Lo siento, no tengo esa información en los documentos proporcionados.',
+        grounded: false,
+        confidence: 'low',
+        sources: [],
+        followUps: [],
+      };
+    return request.responseSchema ? JSON.stringify(structured) : structured.answer;
+  };
+
+  return {
+    name: 'mock',
+
+    generateText: async (request) => answer(request),
+
+    streamText: async function* (request) {
+      const words = answer(request).split(/(?<=\s)/);
+      for (const word of words) {
+        await wait(STREAM_DELAY_MS, request.signal);
+        yield word;
+      }
+    },
+
+    embed: async (texts) => texts.map(text => {
+      const vector = new Array(EMBEDDING_SIZE).fill(0);
+      tokenize(text).forEach(term => {
+        vector[hashString(term) % EMBEDDING_SIZE] += 1;
+      });
+      return vector;
+    }),
+
+    generateImage: async (prompt) => {
+      const hue = hashString(prompt) % 360;
+      const label = prompt.replace(/[<>&"]/g, '').slice(0, 60);
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="320"><rect width="100%" height="100%" fill="hsl(${hue},60%,85%)"/><text x="50%" y="50%" font-family="sans-serif" font-size="18" text-anchor="middle" fill="hsl(${hue},40%,25%)">${label}</text></svg>`;
+      return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import { LLMProvider, ProviderConfig, TextRequest } from '../llmProvider';
+
+const defaultBaseUrl = 'http://localhost:11434/v1';
+const defaultTextModel = 'llama3.1';
+
+/**
+ * The shape of a chat message in the OpenAI chat completions API.
+ */
+type ChatCompletionMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+};
+
+/**
+ * Creates a provider for any server that implements the OpenAI HTTP API
+ * (`/chat/completions`, `/embeddings` and `/images/generations`), such as a local model server.
+ * Embeddings and image generation are only used when a model is configured for them.
+ * @param {ProviderConfig} config - The provider configuration.
+ * @returns {LLMProvider} The OpenAI-compatible provider.
+ */
+export const createOpenAICompatibleProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || defaultBaseUrl).replace(/\/$/, '');
+  const textModel = config.textModel || defaultTextModel;
+
+  /**
+   * Sends a POST request with a JSON body to the endpoint.
+   * @param {string} path - The path of the API method, e.g. "/chat/completions".
+   * @param {object} body - The request body.
+   * @param {AbortSignal} [signal] - A signal used to cancel the request.
+   * @returns {Promise<Response>} The response, if its status is successful.
+   */
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  /**
+   * Converts a provider request into chat completion messages.
+   * @param {TextRequest} request - The request.
+   * @returns {ChatCompletionMessage[]} The messages.
+   */
+  const toMessages = (request: TextRequest): ChatCompletionMessage[] => {
+    const messages: ChatCompletionMessage[] = request.systemInstruction
+      ? [{ role: 'system', content: request.systemInstruction }]
+      : [];
+    request.turns.forEach(turn => {
+      const hasImages = turn.parts.some(part => 'inlineData' in part);
+      messages.push({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: hasImages
+          ? turn.parts.map(part => ('text' in part
+            ? { type: 'text' as const, text: part.text }
+            : { type: 'image_url' as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }))
+          : turn.parts.map(part => ('text' in part ? part.text : '')).join('\n'),
+      });
+    });
+    return messages;
+  };
+
+  /**
+   * Builds the body of a chat completion request, asking for a JSON response when the request has a schema.
+   * @param {TextRequest} request - The request.
+   * @param {boolean} stream - Whether the response is streamed.
+   * @returns {object} The request body.
+   */
+  const toBody = (request: TextRequest, stream: boolean) => ({
+    model: textModel,
+    messages: toMessages(request),
+    ...(stream && { stream: true }),
+    ...(request.responseSchema && {
+      response_format: { type: 'json_schema', json_schema: { name: 'respuesta', schema: request.responseSchema, strict: true } },
+    }),
+  });
+
+  const provider: LLMProvider = {
+    name: 'openai',
+
+    generateText: async (request) => {
+      const response = await post('/chat/completions', toBody(request, false), request.signal);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    streamText: async function* (request) {
+      const response = await post('/chat/completions', toBody(request, true), request.signal);
+      if (!response.body) return;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        // Server-sent events are separated by newlines; the last line may still be incomplete.
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+
+    generateImage: async (prompt) => {
+      if (!config.imageModel) {
+        throw new Error("No image model configured for the OpenAI-compatible provider.");
+      }
+      const response = await post('/images/generations', { model: config.imageModel, prompt, response_format: 'b64_json' });
+      const data = await response.json();
+      const base64 = data.data?.[0]?.b64_json;
+      if (!base64) {
+        throw new Error("No se pudo generar la imagen.");
+      }
+      return `data:image/png;base64,${base64}`;
+    },
+  };
+
+  if (config.embeddingModel) {
+    provider.embed = async (texts) => {
+      const response = await post('/embeddings', { model: config.embeddingModel, input: texts });
+      const data = await response.json();
+      return (data.data || []).map((item: { embedding: number[] }) => item.embedding);
+    };
+  }
+
+  return provider;
+};
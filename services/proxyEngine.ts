@@ -0,0 +1,114 @@
+import { GeneratedAnswer } from '../types';
+import { AssistantEngine, AssistantRequest, AssistantTask } from './assistantEngine';
+import { MAX_HISTORY_MESSAGES } from './conversationService';
+
+// The server endpoint that handles each kind of request.
+const TASK_PATHS: Record<AssistantTask, string> = {
+  answer: '/answer',
+  action: '/action',
+};
+
+/**
+ * Creates an engine that sends assistant requests to the proxy server, which holds the model API key.
+ * @param {string} baseUrl - The base URL of the proxy API, e.g. "/api".
+ * @returns {AssistantEngine} The engine.
+ */
+export const createProxyEngine = (baseUrl: string): AssistantEngine => {
+  const apiUrl = baseUrl.replace(/\/$/, '');
+
+  /**
+   * Sends a POST request with a JSON body to the proxy and checks its status.
+   * @param {string} path - The path of the endpoint, e.g. "/answer".
+   * @param {object} body - The request body.
+   * @param {AbortSignal} [signal] - A signal used to cancel the request.
+   * @returns {Promise<Response>} The response, if its status is successful.
+   */
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `El servidor respondió con el estado ${response.status}.`);
+    }
+    return response;
+  };
+
+  /**
+   * Returns the request body for an assistant request; the task is given by the endpoint.
+   * The history is cut to the messages the server accepts, and only their role and text are sent,
+   * so that images and sources kept with the messages do not go over the body size limit.
+   * @param {AssistantRequest} request - The request.
+   * @returns {Omit<AssistantRequest, 'task'>} The body.
+   */
+  const toBody = ({ task: _task, history, ...body }: AssistantRequest): Omit<AssistantRequest, 'task'> => ({
+    ...body,
+    history: history.slice(-MAX_HISTORY_MESSAGES).map(({ id, role, text }) => ({ id, role, text })),
+  });
+
+  return {
+    complete: async (request) => {
+      const response = await post(TASK_PATHS[request.task], toBody(request));
+      return await response.json();
+    },
+
+    stream: async function* (request, signal) {
+      let response: Response;
+      try {
+        response = await post(`${TASK_PATHS[request.task]}?stream=1`, toBody(request), signal);
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+      }
+      if (!response.body) return;
+
+      // The server sends one JSON snapshot of the answer per line.
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines.filter(l => l.trim())) {
+            const data = JSON.parse(line);
+            if (data.error) throw new Error(data.error);
+            yield data as GeneratedAnswer;
+          }
+        }
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+      }
+    },
+
+    generateImage: async (question, answer) => {
+      const response = await post('/image', { question, answer });
+      const data = await response.json();
+      return data.imageUrl;
+    },
+
+    generateQuiz: async (request) => {
+      const response = await post('/quiz', request);
+      const data = await response.json();
+      return data.questions;
+    },
+
+    generateFaq: async (request) => {
+      const response = await post('/faq', request);
+      const data = await response.json();
+      return data.entries;
+    },
+
+    embed: async (texts) => {
+      const response = await post('/embed', { texts });
+      const data = await response.json();
+      return data.embeddings;
+    },
+  };
+};
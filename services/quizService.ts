@@ -0,0 +1,131 @@
+import { QuizQuestion } from '../types';
+import { JsonSchema } from './llmProvider';
+import { CitedSource } from './citationService';
+import { isJsonObject, isStringArray, parseJsonResponse, readCitedSource } from './structuredAnswerService';
+
+// How many questions a quiz has unless the employee asks for another number, and the most it may have.
+export const DEFAULT_QUIZ_LENGTH = 5;
+export const MAX_QUIZ_LENGTH = 10;
+// The share of right answers needed to pass a quiz.
+export const QUIZ_PASS_RATIO = 0.8;
+// How many options each question has.
+export const QUIZ_OPTION_COUNT = 4;
+
+/**
+ * @interface GeneratedQuizQuestion
+ * A question of a quiz as the model writes it, described by `QUIZ_SCHEMA`.
+ * @property {string} question - The question.
+ * @property {string[]} options - The possible answers.
+ * @property {number} answerIndex - The position of the right option.
+ * @property {string} explanation - Why the right option is right.
+ * @property {CitedSource} source - The passage the question is based on.
+ */
+export interface GeneratedQuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+  source: CitedSource;
+}
+
+/**
+ * An error thrown when the response of the model does not follow `QUIZ_SCHEMA`.
+ */
+export class QuizFormatError extends Error {
+  constructor(message: string) {
+    super(`El cuestionario generado no tiene el formato esperado: ${message}`);
+    this.name = 'QuizFormatError';
+  }
+}
+
+export const QUIZ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answerIndex: { type: 'integer' },
+          explanation: { type: 'string' },
+          source: {
+            type: 'object',
+            properties: {
+              document: { type: 'string' },
+              section: { type: 'string' },
+              quote: { type: 'string' },
+            },
+            required: ['document', 'section', 'quote'],
+            additionalProperties: false,
+          },
+        },
+        required: ['question', 'options', 'answerIndex', 'explanation', 'source'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['questions'],
+  additionalProperties: false,
+};
+
+/**
+ * Builds the instruction that asks the model for a quiz and describes each field of `QUIZ_SCHEMA`.
+ * @param {number} count - The number of questions.
+ * @returns {string} The instruction.
+ */
+export const buildQuizInstruction = (count: number): string => `Genera ${count} preguntas de opción múltiple para comprobar que un empleado nuevo ha leído los documentos anteriores. Cada pregunta debe tratar un punto distinto e importante de los documentos y poder responderse solo con ellos.
+Responde con un objeto JSON con el campo "questions", una lista en la que cada pregunta tiene:
+- "question": la pregunta.
+- "options": exactamente ${QUIZ_OPTION_COUNT} respuestas posibles, breves y verosímiles, de las que solo una es correcta.
+- "answerIndex": la posición de la respuesta correcta en "options", empezando en 0. Reparte la posición de la respuesta correcta entre las preguntas.
+- "explanation": una frase que explica por qué esa respuesta es la correcta, según los documentos.
+- "source": el bloque en que se basa la pregunta, con "document" (nombre del documento), "section" (sección indicada en el bloque) y "quote" (cita textual breve copiada del documento).`;
+
+/**
+ * Parses and validates the quiz written by the model.
+ * Questions whose answer key does not point to one of their options are left out rather than failing the whole quiz.
+ * @param {string} raw - The raw response of the model.
+ * @returns {GeneratedQuizQuestion[]} The questions.
+ * @throws {QuizFormatError} If the response is not JSON, does not follow `QUIZ_SCHEMA` or has no valid question.
+ */
+export const parseQuiz = (raw: string): GeneratedQuizQuestion[] => {
+  const data = parseJsonResponse(raw);
+  if (data === undefined) throw new QuizFormatError('no es JSON válido.');
+  if (!isJsonObject(data) || !Array.isArray(data.questions)) throw new QuizFormatError('falta "questions".');
+
+  const questions = data.questions.flatMap((q: unknown): GeneratedQuizQuestion[] => {
+    if (!isJsonObject(q) || typeof q.question !== 'string' || !q.question.trim()) return [];
+    if (!isStringArray(q.options) || q.options.length < 2 || !q.options.every(option => option.trim())) return [];
+    const { answerIndex } = q;
+    if (typeof answerIndex !== 'number' || !Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= q.options.length) return [];
+    if (typeof q.explanation !== 'string') return [];
+    return [{
+      question: q.question.trim(),
+      options: q.options.map(option => option.trim()),
+      answerIndex,
+      explanation: q.explanation.trim(),
+      source: readCitedSource(q.source),
+    }];
+  });
+  if (questions.length === 0) throw new QuizFormatError('no tiene ninguna pregunta válida.');
+  return questions;
+};
+
+/**
+ * Counts the right answers of an attempt at a quiz.
+ * @param {QuizQuestion[]} questions - The questions of the quiz.
+ * @param {(number | null)[]} answers - The option chosen for each question, or null if it was left blank.
+ * @returns {number} The number of right answers.
+ */
+export const scoreQuiz = (questions: QuizQuestion[], answers: (number | null)[]): number =>
+  questions.filter((question, i) => answers[i] === question.answerIndex).length;
+
+/**
+ * Tells whether a score passes a quiz.
+ * @param {number} score - The number of right answers.
+ * @param {number} total - The number of questions.
+ * @returns {boolean} Whether the quiz is passed.
+ */
+export const isQuizPassed = (score: number, total: number): boolean => total > 0 && score / total >= QUIZ_PASS_RATIO;
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Message } from '../types';
+import { createRedactor, defaultRedactionRules, redactRequestContent } from './redactionService';
+
+const EMAIL = 'ana.garcia@empresa.es';
+const DNI = '12345678Z';
+
+test('redactRequestContent redacts the passages of the context', () => {
+  const redactor = createRedactor(defaultRedactionRules);
+  const { context } = redactRequestContent(redactor, {
+    question: '¿Cuántos días de vacaciones tengo?',
+    history: [],
+    context: {
+      chunks: [{ id: 'a:0', itemId: 'a', itemName: 'Nóminas.txt', index: 0, text: `Contacto: ${EMAIL}, DNI ${DNI}.` }],
+      images: [],
+    },
+  });
+
+  assert.ok(!context.chunks[0].text.includes(EMAIL));
+  assert.ok(!context.chunks[0].text.includes(DNI));
+  assert.match(context.chunks[0].text, /\[EMAIL_1\].*\[DNI_1\]/);
+});
+
+test('redactRequestContent sends only the redacted role and text of the history', () => {
+  const redactor = createRedactor(defaultRedactionRules);
+  const answer: Message = {
+    id: 'm1',
+    role: 'model',
+    text: `Tu nómina se envía a ${EMAIL}.`,
+    imageUrl: 'data:image/png;base64,AAAA',
+    sourceChunks: [{ id: 'a:0', itemId: 'a', itemName: 'Nóminas.txt', index: 0, text: `DNI ${DNI}, ${EMAIL}` }],
+    citations: [{ itemId: 'a', itemName: 'Nóminas.txt', location: 'Fragmento 1', quote: `DNI ${DNI}` }],
+    followUps: [`¿Puedo cambiar ${EMAIL}?`],
+    feedback: { rating: 'down', comment: `Mi DNI es ${DNI}` },
+  };
+  const { history } = redactRequestContent(redactor, {
+    question: '¿Y el mes que viene?',
+    history: [{ id: 'u1', role: 'user', text: `Soy ${DNI}` }, answer],
+    context: { chunks: [], images: [] },
+  });
+
+  assert.deepEqual(history, [
+    { id: 'u1', role: 'user', text: 'Soy [DNI_1]' },
+    { id: 'm1', role: 'model', text: 'Tu nómina se envía a [EMAIL_1].' },
+  ]);
+  assert.ok(!JSON.stringify(history).includes(EMAIL));
+  assert.ok(!JSON.stringify(history).includes(DNI));
+});
@@ -0,0 +1,282 @@
+import { FaqEntry, GeneratedAnswer, KnowledgeChunk, Message, QuizQuestion } from '../types';
+import { AnswerContext } from './assistantEngine';
+
+/**
+ * @interface RedactionRule
+ * @property {string} id - The identifier of the rule, used to enable it in the configuration.
+ * @property {string} label - The name of the data the rule detects, shown in the preview.
+ * @property {string} placeholder - The name used in the placeholders that replace the data, e.g. "DNI" for "[DNI_1]".
+ * @property {RegExp} pattern - The pattern that detects the data. It must have the global flag.
+ */
+export interface RedactionRule {
+  id: string;
+  label: string;
+  placeholder: string;
+  pattern: RegExp;
+}
+
+/**
+ * @interface RedactionConfig
+ * @property {RedactionRule[]} rules - The rules applied, in order; an empty list disables redaction.
+ * @property {boolean} restore - Whether the placeholders in the answers are replaced back with the original data.
+ */
+export interface RedactionConfig {
+  rules: RedactionRule[];
+  restore: boolean;
+}
+
+/**
+ * @interface RedactionSegment
+ * A piece of a text, as split by the redaction rules for the preview.
+ * @property {string} text - The original text of the piece.
+ * @property {RedactionRule} [rule] - The rule that detected the piece, if it is redacted.
+ */
+export interface RedactionSegment {
+  text: string;
+  rule?: RedactionRule;
+}
+
+/**
+ * @interface Redactor
+ * Replaces personal data with placeholders for one request, and puts them back in its answer.
+ * The same value always gets the same placeholder, so the model can still relate its mentions.
+ * @property {(text: string) => string} redact - Replaces the personal data of a text with placeholders.
+ * @property {(text: string) => string} restore - Replaces the placeholders of a text with the original data.
+ * @property {() => number} count - Returns the number of distinct values redacted so far.
+ */
+export interface Redactor {
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+  count: () => number;
+}
+
+/**
+ * @interface RequestContent
+ * The text of an assistant request that may carry personal data.
+ * @property {string} question - The user's question.
+ * @property {string} [originalAnswer] - The previous answer, for actions.
+ * @property {string} [argument] - The value the user gave for an action's argument.
+ * @property {Message[]} history - The chat history that precedes the question.
+ * @property {AnswerContext} context - The knowledge sent as context.
+ */
+export interface RequestContent {
+  question: string;
+  originalAnswer?: string;
+  argument?: string;
+  history: Message[];
+  context: AnswerContext;
+}
+
+// Personal data commonly found in Spanish HR documents and questions.
+export const defaultRedactionRules: RedactionRule[] = [
+  {
+    id: 'email',
+    label: 'Correo electrónico',
+    placeholder: 'EMAIL',
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    placeholder: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?\d{4}){4,7}\b/g,
+  },
+  {
+    id: 'dni',
+    label: 'DNI/NIE',
+    placeholder: 'DNI',
+    pattern: /\b[XYZ]?-?\d{7,8}-?[A-HJ-NP-TV-Z]\b/gi,
+  },
+  {
+    id: 'phone',
+    label: 'Teléfono',
+    placeholder: 'TELEFONO',
+    pattern: /(?:\+34[ -]?)?\b(?:[6-9]\d{2}(?:(?:[ -]?\d{3}){2}|(?:[ -]?\d{2}){3})|[89]\d[ -]?\d{3}(?:[ -]?\d{2}){2})\b/g,
+  },
+  {
+    id: 'salary',
+    label: 'Importe',
+    placeholder: 'IMPORTE',
+    pattern: /(?:€ ?\d{1,3}(?:[.\s]\d{3})*(?:,\d{1,2})?|\b\d{1,3}(?:[.\s]\d{3})*(?:,\d{1,2})? ?(?:€|euros?\b|EUR\b))/gi,
+  },
+];
+
+/**
+ * Reads the redaction configuration from environment variables.
+ * `REDACTION_RULES` lists the IDs of the rules to apply, separated by commas, or "none"; all rules apply by default.
+ * `REDACTION_CUSTOM_RULES` adds rules as a JSON object from placeholder name to pattern, e.g. `{"EMPLEADO": "EMP-\\d{5}"}`.
+ * `REDACTION_RESTORE=false` keeps the placeholders in the answers.
+ * @param {Record<string, string | undefined>} env - The environment variables.
+ * @returns {RedactionConfig} The redaction configuration.
+ */
+export const loadRedactionConfig = (env: Record<string, string | undefined>): RedactionConfig => {
+  const ids = env.REDACTION_RULES?.split(',').map(id => id.trim()).filter(Boolean);
+  const rules = ids
+    ? defaultRedactionRules.filter(rule => ids.includes(rule.id))
+    : [...defaultRedactionRules];
+
+  if (env.REDACTION_CUSTOM_RULES) {
+    try {
+      Object.entries(JSON.parse(env.REDACTION_CUSTOM_RULES) as Record<string, string>).forEach(([placeholder, pattern]) => {
+        const name = placeholder.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+        rules.push({ id: name.toLowerCase(), label: placeholder, placeholder: name, pattern: new RegExp(pattern, 'g') });
+      });
+    } catch (error) {
+      console.warn('Ignoring invalid REDACTION_CUSTOM_RULES:', error);
+    }
+  }
+  return { rules, restore: env.REDACTION_RESTORE !== 'false' };
+};
+
+/**
+ * Finds the personal data in a text. Where matches overlap, the rule listed first wins.
+ * @param {string} text - The text.
+ * @param {RedactionRule[]} rules - The rules.
+ * @returns {{ start: number; end: number; rule: RedactionRule }[]} The matches, in order of position.
+ */
+const findMatches = (text: string, rules: RedactionRule[]): { start: number; end: number; rule: RedactionRule }[] => {
+  const matches: { start: number; end: number; rule: RedactionRule }[] = [];
+  rules.forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (match[0] && !matches.some(m => start < m.end && end > m.start)) {
+        matches.push({ start, end, rule });
+      }
+    }
+  });
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Splits a text into redacted and kept pieces, to preview what is hidden from the model.
+ * @param {string} text - The text.
+ * @param {RedactionRule[]} rules - The rules.
+ * @returns {RedactionSegment[]} The pieces, in order.
+ */
+export const segmentRedactions = (text: string, rules: RedactionRule[]): RedactionSegment[] => {
+  const segments: RedactionSegment[] = [];
+  let position = 0;
+  findMatches(text, rules).forEach(({ start, end, rule }) => {
+    if (start > position) segments.push({ text: text.slice(position, start) });
+    segments.push({ text: text.slice(start, end), rule });
+    position = end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+};
+
+/**
+ * Creates a redactor for one request.
+ * @param {RedactionRule[]} rules - The rules.
+ * @returns {Redactor} The redactor.
+ */
+export const createRedactor = (rules: RedactionRule[]): Redactor => {
+  const placeholders = new Map<string, string>();
+  const originals = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  /**
+   * Returns the placeholder of a value, creating it the first time the value is seen.
+   * @param {string} value - The value.
+   * @param {RedactionRule} rule - The rule that detected it.
+   * @returns {string} The placeholder, e.g. "[DNI_1]".
+   */
+  const placeholderFor = (value: string, rule: RedactionRule): string => {
+    const existing = placeholders.get(value);
+    if (existing) return existing;
+    const number = (counters.get(rule.placeholder) ?? 0) + 1;
+    counters.set(rule.placeholder, number);
+    const placeholder = `[${rule.placeholder}_${number}]`;
+    placeholders.set(value, placeholder);
+    originals.set(placeholder, value);
+    return placeholder;
+  };
+
+  return {
+    redact: (text) => segmentRedactions(text, rules)
+      .map(segment => (segment.rule ? placeholderFor(segment.text, segment.rule) : segment.text))
+      .join(''),
+
+    restore: (text) => (originals.size === 0 ? text : text.replace(/\[[A-Z0-9_]+_\d+\]/g, placeholder => originals.get(placeholder) ?? placeholder)),
+
+    count: () => placeholders.size,
+  };
+};
+
+/**
+ * Redacts the text a request sends to the model: the question, the previous answer, the argument of an action,
+ * the history and the passages of the context. Images are sent as they are, since their text cannot be redacted.
+ * Only the role and text of each history message are kept: their sources, citations, follow-up questions,
+ * feedback and images stay in the browser.
+ * @param {Redactor} redactor - The redactor of the request.
+ * @param {RequestContent} content - The content.
+ * @returns {RequestContent} The redacted content.
+ */
+export const redactRequestContent = (
+  redactor: Redactor,
+  { question, originalAnswer, argument, history, context }: RequestContent,
+): RequestContent => ({
+  question: redactor.redact(question),
+  originalAnswer: originalAnswer === undefined ? undefined : redactor.redact(originalAnswer),
+  argument: argument === undefined ? undefined : redactor.redact(argument),
+  history: history.map(({ id, role, text }) => ({ id, role, text: redactor.redact(text) })),
+  context: {
+    chunks: context.chunks.map((chunk): KnowledgeChunk => ({ ...chunk, text: redactor.redact(chunk.text) })),
+    images: context.images,
+  },
+});
+
+/**
+ * Puts the original data back in an answer: its cited passages and its source chunks, which are shown
+ * next to the documents they come from, and its text and follow-up questions unless the placeholders are to be kept.
+ * @param {GeneratedAnswer} answer - The answer to a redacted request.
+ * @param {Redactor} redactor - The redactor of the request.
+ * @param {KnowledgeChunk[]} originalChunks - The chunks of the context before redaction.
+ * @param {boolean} [restoreText] - Whether to restore the text of the answer.
+ * @returns {GeneratedAnswer} The answer with the original data.
+ */
+export const restoreAnswer = (answer: GeneratedAnswer, redactor: Redactor, originalChunks: KnowledgeChunk[], restoreText = true): GeneratedAnswer => ({
+  ...answer,
+  text: restoreText ? redactor.restore(answer.text) : answer.text,
+  chunks: answer.chunks.map(chunk => originalChunks.find(original => original.id === chunk.id) ?? chunk),
+  citations: answer.citations.map(citation => ({ ...citation, quote: redactor.restore(citation.quote) })),
+  ...(answer.followUps && { followUps: answer.followUps.map(question => (restoreText ? redactor.restore(question) : question)) }),
+});
+
+/**
+ * Puts the original data back in the questions of a quiz generated from redacted documents: the passages
+ * they are based on, and their text, options and explanations unless the placeholders are to be kept.
+ * @param {QuizQuestion[]} questions - The questions generated from the redacted documents.
+ * @param {Redactor} redactor - The redactor of the request.
+ * @param {boolean} [restoreText] - Whether to restore the text of the questions.
+ * @returns {QuizQuestion[]} The questions with the original data.
+ */
+export const restoreQuizQuestions = (questions: QuizQuestion[], redactor: Redactor, restoreText = true): QuizQuestion[] => {
+  const restore = (text: string) => (restoreText ? redactor.restore(text) : text);
+  return questions.map(question => ({
+    ...question,
+    question: restore(question.question),
+    options: question.options.map(restore),
+    explanation: restore(question.explanation),
+    ...(question.source && { source: { ...question.source, quote: redactor.restore(question.source.quote) } }),
+  }));
+};
+
+/**
+ * Puts the original data back in the entries of a FAQ generated from redacted documents: the passages
+ * they are based on, and their questions and answers unless the placeholders are to be kept.
+ * @param {FaqEntry[]} entries - The entries generated from the redacted documents.
+ * @param {Redactor} redactor - The redactor of the request.
+ * @param {boolean} [restoreText] - Whether to restore the questions and answers.
+ * @returns {FaqEntry[]} The entries with the original data.
+ */
+export const restoreFaqEntries = (entries: FaqEntry[], redactor: Redactor, restoreText = true): FaqEntry[] => {
+  const restore = (text: string) => (restoreText ? redactor.restore(text) : text);
+  return entries.map(entry => ({
+    ...entry,
+    question: restore(entry.question),
+    answer: restore(entry.answer),
+    ...(entry.source && { source: { ...entry.source, quote: redactor.restore(entry.source.quote) } }),
+  }));
+};
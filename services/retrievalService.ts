@@ -0,0 +1,319 @@
+import { KnowledgeItem, KnowledgeChunk } from '../types';
+
+/**
+ * @interface RetrievalOptions
+ * @property {number} topK - The maximum number of chunks to return for a query.
+ * @property {number} chunkSize - The target size of each chunk, in characters.
+ * @property {number} chunkOverlap - The number of characters repeated between consecutive chunks.
+ * @property {number} embeddingWeight - How much the embedding similarity counts against the BM25 score (0 to 1).
+ */
+export interface RetrievalOptions {
+  topK: number;
+  chunkSize: number;
+  chunkOverlap: number;
+  embeddingWeight: number;
+}
+
+/**
+ * A function that turns a list of texts into embedding vectors, in the same order.
+ */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * @interface RetrievalIndex
+ * @property {KnowledgeChunk[]} chunks - All the chunks in the index.
+ * @property {Map<string, number>[]} termFrequencies - The term counts of each chunk, aligned with `chunks`.
+ * @property {number[]} lengths - The number of terms in each chunk, aligned with `chunks`.
+ * @property {Map<string, number>} documentFrequencies - The number of chunks in which each term appears.
+ * @property {number} averageLength - The average number of terms per chunk.
+ */
+export interface RetrievalIndex {
+  chunks: KnowledgeChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export const defaultRetrievalOptions: RetrievalOptions = {
+  topK: 6,
+  chunkSize: 1200,
+  chunkOverlap: 200,
+  embeddingWeight: 0.5,
+};
+
+// BM25 tuning constants.
+const K1 = 1.5;
+const B = 0.75;
+
+// Common Spanish words that carry no meaning for retrieval.
+const STOPWORDS = new Set([
+  'a', 'al', 'ante', 'con', 'como', 'cual', 'cuando', 'de', 'del', 'donde', 'e', 'el', 'ella', 'en', 'entre',
+  'es', 'esa', 'ese', 'esta', 'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas',
+  'me', 'mi', 'mis', 'muy', 'no', 'nos', 'o', 'para', 'pero', 'por', 'que', 'se', 'si', 'sin', 'sobre', 'son',
+  'su', 'sus', 'te', 'tu', 'tus', 'u', 'un', 'una', 'unas', 'uno', 'unos', 'y', 'ya', 'yo',
+]);
+
+/**
+ * Splits a text into lowercase, accent-free terms and drops stopwords.
+ * @param {string} text - The text to tokenize.
+ * @returns {string[]} The list of terms.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9ñ]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+/**
+ * Splits a long text into pieces no larger than `size`, cutting on sentence boundaries where possible.
+ * @param {string} text - The text to split.
+ * @param {number} size - The maximum size of each piece.
+ * @returns {string[]} The pieces.
+ */
+const splitLongText = (text: string, size: number): string[] => {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'));
+    const cut = sentenceEnd > size / 2 ? sentenceEnd + 1 : size;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) pieces.push(rest.trim());
+  return pieces;
+};
+
+/**
+ * Splits a text into chunk texts of roughly `chunkSize` characters.
+ * Paragraphs are kept together when they fit, and the tail of each chunk is repeated
+ * at the start of the next one so that ideas spanning a boundary can still be found.
+ * @param {string} text - The text to split.
+ * @param {RetrievalOptions} options - The retrieval options.
+ * @returns {string[]} The chunk texts.
+ */
+const splitIntoChunkTexts = (text: string, options: RetrievalOptions): string[] => {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => splitLongText(p, options.chunkSize));
+
+  const texts: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > options.chunkSize) {
+      texts.push(current);
+      const overlap = options.chunkOverlap > 0 ? current.slice(-options.chunkOverlap) : '';
+      current = overlap ? `${overlap.slice(overlap.indexOf(' ') + 1)}\n\n${paragraph}` : paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  });
+  if (current) texts.push(current);
+  return texts;
+};
+
+/**
+ * Splits a text knowledge item into chunks of roughly `chunkSize` characters.
+ * Items with pages are split page by page, so every chunk knows the page it comes from.
+ * Image items produce no chunks.
+ * @param {KnowledgeItem} item - The knowledge item to split.
+ * @param {RetrievalOptions} [options] - The retrieval options.
+ * @returns {KnowledgeChunk[]} The chunks.
+ */
+export const chunkKnowledgeItem = (item: KnowledgeItem, options: RetrievalOptions = defaultRetrievalOptions): KnowledgeChunk[] => {
+  if (item.type !== 'text') return [];
+
+  const sections: { text: string; pageNumber?: number }[] = item.pages?.length ? item.pages : [{ text: item.content }];
+  let index = 0;
+  return sections.flatMap(section => splitIntoChunkTexts(section.text, options).map(text => ({
+    id: `${item.id}:${index}`,
+    itemId: item.id,
+    itemName: item.name,
+    index: index++,
+    text,
+    pageNumber: section.pageNumber,
+  })));
+};
+
+/**
+ * Builds a BM25 index over all the text items of a knowledge base.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {RetrievalOptions} [options] - The retrieval options.
+ * @returns {RetrievalIndex} The index.
+ */
+export const buildIndex = (knowledgeBase: KnowledgeItem[], options: RetrievalOptions = defaultRetrievalOptions): RetrievalIndex => {
+  const chunks = knowledgeBase.flatMap(item => chunkKnowledgeItem(item, options));
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  chunks.forEach(chunk => {
+    const terms = tokenize(`${chunk.itemName} ${chunk.text}`);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    frequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    termFrequencies.push(frequencies);
+    lengths.push(terms.length);
+  });
+
+  const averageLength = lengths.length ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  return { chunks, termFrequencies, lengths, documentFrequencies, averageLength };
+};
+
+// Indexes are rebuilt only when the knowledge base array changes, which React state guarantees on every update,
+// or when it is chunked with other options.
+const indexCache = new WeakMap<KnowledgeItem[], Map<string, RetrievalIndex>>();
+
+/**
+ * Returns the index for a knowledge base, building it the first time it is requested with the given chunking.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {RetrievalOptions} [options] - The retrieval options, whose chunk size and overlap shape the index.
+ * @returns {RetrievalIndex} The index.
+ */
+export const getIndex = (knowledgeBase: KnowledgeItem[], options: RetrievalOptions = defaultRetrievalOptions): RetrievalIndex => {
+  const key = `${options.chunkSize}:${options.chunkOverlap}`;
+  let indexes = indexCache.get(knowledgeBase);
+  if (!indexes) {
+    indexes = new Map();
+    indexCache.set(knowledgeBase, indexes);
+  }
+  let index = indexes.get(key);
+  if (!index) {
+    index = buildIndex(knowledgeBase, options);
+    indexes.set(key, index);
+  }
+  return index;
+};
+
+/**
+ * Scores every chunk of the index against a query using BM25.
+ * @param {RetrievalIndex} index - The index.
+ * @param {string} query - The query.
+ * @returns {number[]} The scores, aligned with `index.chunks`.
+ */
+const scoreBm25 = (index: RetrievalIndex, query: string): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+  return index.chunks.map((_, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthNorm = 1 - B + B * (index.lengths[i] / (index.averageLength || 1));
+    return queryTerms.reduce((score, term) => {
+      const tf = frequencies.get(term);
+      if (!tf) return score;
+      const df = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      return score + idf * ((tf * (K1 + 1)) / (tf + K1 * lengthNorm));
+    }, 0);
+  });
+};
+
+/**
+ * Computes the cosine similarity between two vectors.
+ * @param {number[]} a - The first vector.
+ * @param {number[]} b - The second vector.
+ * @returns {number} The similarity, between -1 and 1.
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+// Chunk embeddings keyed by chunk text, so that re-indexing an unchanged document does not re-embed it.
+// The least recently used are dropped past the limit; the map keeps them in order of use.
+const embeddingCache = new Map<string, number[]>();
+const MAX_CACHED_EMBEDDINGS = 2000;
+
+/**
+ * Forgets the embeddings of the chunks of some knowledge items, e.g. after they are removed or replaced.
+ * @param {KnowledgeItem[]} items - The knowledge items.
+ * @param {RetrievalOptions} [options] - The retrieval options the items were chunked with.
+ */
+export const forgetEmbeddings = (items: KnowledgeItem[], options: RetrievalOptions = defaultRetrievalOptions) => {
+  items.flatMap(item => chunkKnowledgeItem(item, options)).forEach(chunk => embeddingCache.delete(chunk.text));
+};
+
+/**
+ * Scores every chunk of the index against a query using embedding similarity.
+ * @param {RetrievalIndex} index - The index.
+ * @param {string} query - The query.
+ * @param {Embedder} embed - The function used to compute embeddings.
+ * @returns {Promise<number[]>} The scores, aligned with `index.chunks`.
+ */
+const scoreEmbeddings = async (index: RetrievalIndex, query: string, embed: Embedder): Promise<number[]> => {
+  const missing = Array.from(new Set(index.chunks.map(c => c.text).filter(text => !embeddingCache.has(text))));
+  const [queryVector, ...chunkVectors] = await embed([query, ...missing]);
+  const vectors = new Map(missing.map((text, i) => [text, chunkVectors[i]]));
+  const scores = index.chunks.map(chunk => {
+    const vector = vectors.get(chunk.text) ?? embeddingCache.get(chunk.text) ?? [];
+    vectors.set(chunk.text, vector);
+    return cosineSimilarity(queryVector, vector);
+  });
+  // The embeddings just used move to the end of the cache, and the least recently used are dropped.
+  vectors.forEach((vector, text) => {
+    embeddingCache.delete(text);
+    embeddingCache.set(text, vector);
+  });
+  [...embeddingCache.keys()].slice(0, Math.max(0, embeddingCache.size - MAX_CACHED_EMBEDDINGS)).forEach(text => embeddingCache.delete(text));
+  return scores;
+};
+
+/**
+ * Scales a list of scores to the 0..1 range.
+ * @param {number[]} scores - The scores.
+ * @returns {number[]} The normalized scores.
+ */
+const normalize = (scores: number[]): number[] => {
+  const max = Math.max(0, ...scores);
+  return max > 0 ? scores.map(score => Math.max(0, score) / max) : scores.map(() => 0);
+};
+
+/**
+ * Selects the chunks of the knowledge base that are most relevant to a query.
+ * Chunks are ranked by BM25 and, when an embedder is given, by a weighted mix of BM25 and
+ * embedding similarity. If the embedder fails, retrieval falls back to BM25 alone.
+ * @param {KnowledgeItem[]} knowledgeBase - The knowledge base.
+ * @param {string} query - The query.
+ * @param {Embedder} [embed] - An optional function used to compute embeddings.
+ * @param {RetrievalOptions} [options] - The retrieval options.
+ * @returns {Promise<KnowledgeChunk[]>} The top-k chunks, most relevant first.
+ */
+export const retrieveChunks = async (
+  knowledgeBase: KnowledgeItem[],
+  query: string,
+  embed?: Embedder,
+  options: RetrievalOptions = defaultRetrievalOptions,
+): Promise<KnowledgeChunk[]> => {
+  const index = getIndex(knowledgeBase, options);
+  if (index.chunks.length === 0) return [];
+
+  let scores = normalize(scoreBm25(index, query));
+  if (embed) {
+    try {
+      const similarities = normalize(await scoreEmbeddings(index, query, embed));
+      scores = scores.map((score, i) => (1 - options.embeddingWeight) * score + options.embeddingWeight * similarities[i]);
+    } catch (error) {
+      console.error("Error computing embeddings, using keyword retrieval only:", error);
+    }
+  }
+
+  const ranked = index.chunks
+    .map((chunk, i) => ({ ...chunk, score: scores[i] }))
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  // When nothing matches (e.g. a greeting), fall back to the start of the documents so the model still has context.
+  const selected = ranked.length > 0 ? ranked : index.chunks.filter(chunk => chunk.index === 0).map(chunk => ({ ...chunk, score: 0 }));
+  return selected.slice(0, options.topK);
+};
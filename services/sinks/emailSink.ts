@@ -0,0 +1,17 @@
+import { CaseSink, CaseSinkConfig, formatCase } from '../caseSink';
+
+/**
+ * Creates a stub email sink. The browser cannot send email by itself, so the case is opened in the
+ * employee's mail client, addressed to the HR inbox and ready to send.
+ * @param {CaseSinkConfig} config - The case sink configuration, with the HR address.
+ * @returns {CaseSink} The email sink.
+ */
+export const createEmailSink = (config: CaseSinkConfig): CaseSink => ({
+  name: 'email',
+  deliver: async (hrCase) => {
+    const subject = `Consulta de RRHH #${hrCase.id.slice(0, 8)}: ${hrCase.question.slice(0, 60)}`;
+    const link = document.createElement('a');
+    link.href = `mailto:${config.emailTo}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(formatCase(hrCase))}`;
+    link.click();
+  },
+});
@@ -0,0 +1,11 @@
+import { CaseSink } from '../caseSink';
+
+/**
+ * Creates a sink that keeps cases only in the local queue, where HR answers them from admin mode.
+ * Every case is saved in the queue whatever the sink, so this sink has nothing else to do.
+ * @returns {CaseSink} The local queue sink.
+ */
+export const createLocalQueueSink = (): CaseSink => ({
+  name: 'local',
+  deliver: async () => {},
+});
@@ -0,0 +1,20 @@
+import { CaseSink, CaseSinkConfig } from '../caseSink';
+
+/**
+ * Creates a sink that posts each case as JSON to a webhook, e.g. a ticketing system or a chat channel.
+ * @param {CaseSinkConfig} config - The case sink configuration, with the webhook URL.
+ * @returns {CaseSink} The webhook sink.
+ */
+export const createWebhookSink = (config: CaseSinkConfig): CaseSink => ({
+  name: 'webhook',
+  deliver: async (hrCase) => {
+    const response = await fetch(config.webhookUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(hrCase),
+    });
+    if (!response.ok) {
+      throw new Error(`Case webhook returned ${response.status}: ${await response.text()}`);
+    }
+  },
+});
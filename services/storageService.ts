@@ -0,0 +1,361 @@
+import { KnowledgeItem, ChatSession, Bot, Feedback, HrCase, CachedResponse, QuizResult, Faq } from '../types';
+
+const DB_NAME = 'asistente-rrhh';
+const DB_VERSION = 8;
+const KNOWLEDGE_STORE = 'knowledge';
+const SESSIONS_STORE = 'sessions';
+const BOTS_STORE = 'bots';
+const FEEDBACK_STORE = 'feedback';
+const CASES_STORE = 'cases';
+const ANSWER_CACHE_STORE = 'answerCache';
+const QUIZ_RESULTS_STORE = 'quizResults';
+const FAQ_STORE = 'faqs';
+
+/**
+ * @interface StoredKnowledgeItem
+ * A knowledge item as it is saved in IndexedDB, tagged with the bot it belongs to.
+ * @property {string} botId - The ID of the bot whose memory holds the item.
+ * @property {number} addedAt - The time the item was saved, used to keep the upload order.
+ */
+interface StoredKnowledgeItem extends KnowledgeItem {
+  botId: string;
+  addedAt: number;
+}
+
+/**
+ * @interface StorageEstimate
+ * @property {number} usage - The number of bytes used by the application.
+ * @property {number} quota - The number of bytes the browser allows the application to use.
+ */
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the application database, creating or upgrading its object stores when needed.
+ * The connection is opened once and shared by every call.
+ * @returns {Promise<IDBDatabase>} The database connection.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KNOWLEDGE_STORE)) {
+          const store = db.createObjectStore(KNOWLEDGE_STORE, { keyPath: 'id' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(BOTS_STORE)) {
+          db.createObjectStore(BOTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+          const store = db.createObjectStore(FEEDBACK_STORE, { keyPath: 'id' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(CASES_STORE)) {
+          const store = db.createObjectStore(CASES_STORE, { keyPath: 'id' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(ANSWER_CACHE_STORE)) {
+          const store = db.createObjectStore(ANSWER_CACHE_STORE, { keyPath: 'key' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(QUIZ_RESULTS_STORE)) {
+          const store = db.createObjectStore(QUIZ_RESULTS_STORE, { keyPath: 'id' });
+          store.createIndex('botId', 'botId');
+        }
+        if (!db.objectStoreNames.contains(FAQ_STORE)) {
+          db.createObjectStore(FAQ_STORE, { keyPath: 'botId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param {IDBRequest<T>} request - The request.
+ * @returns {Promise<T>} The result of the request.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Loads the knowledge items saved for a bot, in the order they were added.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<KnowledgeItem[]>} The knowledge items.
+ */
+export const loadKnowledge = async (botId: string): Promise<KnowledgeItem[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(KNOWLEDGE_STORE, 'readonly').objectStore(KNOWLEDGE_STORE).index('botId');
+  const records = await promisifyRequest<StoredKnowledgeItem[]>(index.getAll(botId));
+  return records
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .map(({ botId: _botId, addedAt: _addedAt, ...item }) => item);
+};
+
+/**
+ * Saves a knowledge item in a bot's memory, replacing any item with the same ID.
+ * @param {string} botId - The ID of the bot.
+ * @param {KnowledgeItem} item - The knowledge item to save.
+ * @returns {Promise<void>}
+ */
+export const saveKnowledgeItem = async (botId: string, item: KnowledgeItem): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(KNOWLEDGE_STORE, 'readwrite').objectStore(KNOWLEDGE_STORE);
+  const existing = await promisifyRequest<StoredKnowledgeItem | undefined>(store.get(item.id));
+  const record: StoredKnowledgeItem = { ...item, botId, addedAt: existing?.addedAt ?? Date.now() };
+  await promisifyRequest(store.put(record));
+};
+
+/**
+ * Deletes a knowledge item from storage.
+ * @param {string} itemId - The ID of the knowledge item.
+ * @returns {Promise<void>}
+ */
+export const deleteKnowledgeItem = async (itemId: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(KNOWLEDGE_STORE, 'readwrite').objectStore(KNOWLEDGE_STORE).delete(itemId));
+};
+
+/**
+ * Loads the chat sessions saved for a bot, most recently updated first.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<ChatSession[]>} The chat sessions.
+ */
+export const loadSessions = async (botId: string): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).index('botId');
+  const sessions = await promisifyRequest<ChatSession[]>(index.getAll(botId));
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Saves a chat session, replacing any session with the same ID.
+ * @param {ChatSession} session - The chat session to save.
+ * @returns {Promise<void>}
+ */
+export const saveSession = async (session: ChatSession): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE).put(session));
+};
+
+/**
+ * Deletes a chat session from storage.
+ * @param {string} sessionId - The ID of the chat session.
+ * @returns {Promise<void>}
+ */
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE).delete(sessionId));
+};
+
+/**
+ * Loads the bots created or edited in the bot editor.
+ * @returns {Promise<Bot[]>} The saved bots.
+ */
+export const loadBots = async (): Promise<Bot[]> => {
+  const db = await openDatabase();
+  return promisifyRequest<Bot[]>(db.transaction(BOTS_STORE, 'readonly').objectStore(BOTS_STORE).getAll());
+};
+
+/**
+ * Saves a bot, replacing any bot with the same ID.
+ * @param {Bot} bot - The bot to save.
+ * @returns {Promise<void>}
+ */
+export const saveBot = async (bot: Bot): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(BOTS_STORE, 'readwrite').objectStore(BOTS_STORE).put(bot));
+};
+
+/**
+ * Deletes a saved bot. A bot that also exists in the bot configuration goes back to its configured values.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<void>}
+ */
+export const deleteBot = async (botId: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(BOTS_STORE, 'readwrite').objectStore(BOTS_STORE).delete(botId));
+};
+
+/**
+ * Loads the feedback given on a bot's answers, most recent first.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<Feedback[]>} The feedback.
+ */
+export const loadFeedback = async (botId: string): Promise<Feedback[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(FEEDBACK_STORE, 'readonly').objectStore(FEEDBACK_STORE).index('botId');
+  const feedback = await promisifyRequest<Feedback[]>(index.getAll(botId));
+  return feedback.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Saves the feedback on an answer, replacing any earlier feedback on the same answer.
+ * @param {Feedback} feedback - The feedback to save.
+ * @returns {Promise<void>}
+ */
+export const saveFeedback = async (feedback: Feedback): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(FEEDBACK_STORE, 'readwrite').objectStore(FEEDBACK_STORE).put(feedback));
+};
+
+/**
+ * Deletes the feedback on an answer, e.g. once HR has reviewed it.
+ * @param {string} feedbackId - The ID of the feedback.
+ * @returns {Promise<void>}
+ */
+export const deleteFeedback = async (feedbackId: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(FEEDBACK_STORE, 'readwrite').objectStore(FEEDBACK_STORE).delete(feedbackId));
+};
+
+/**
+ * Loads the HR cases escalated from a bot's conversations, most recent first.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<HrCase[]>} The cases.
+ */
+export const loadCases = async (botId: string): Promise<HrCase[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(CASES_STORE, 'readonly').objectStore(CASES_STORE).index('botId');
+  const cases = await promisifyRequest<HrCase[]>(index.getAll(botId));
+  return cases.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Saves an HR case, replacing any case with the same ID.
+ * @param {HrCase} hrCase - The case to save.
+ * @returns {Promise<void>}
+ */
+export const saveCase = async (hrCase: HrCase): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(CASES_STORE, 'readwrite').objectStore(CASES_STORE).put(hrCase));
+};
+
+/**
+ * Loads the quiz results of a bot's employees, most recent first.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<QuizResult[]>} The results.
+ */
+export const loadQuizResults = async (botId: string): Promise<QuizResult[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(QUIZ_RESULTS_STORE, 'readonly').objectStore(QUIZ_RESULTS_STORE).index('botId');
+  const results = await promisifyRequest<QuizResult[]>(index.getAll(botId));
+  return results.sort((a, b) => b.completedAt - a.completedAt);
+};
+
+/**
+ * Saves an employee's quiz result.
+ * @param {QuizResult} result - The result to save.
+ * @returns {Promise<void>}
+ */
+export const saveQuizResult = async (result: QuizResult): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(QUIZ_RESULTS_STORE, 'readwrite').objectStore(QUIZ_RESULTS_STORE).put(result));
+};
+
+/**
+ * Loads the FAQ generated for a bot.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<Faq | null>} The FAQ, or null if none was generated yet.
+ */
+export const loadFaq = async (botId: string): Promise<Faq | null> => {
+  const db = await openDatabase();
+  const faq = await promisifyRequest<Faq | undefined>(db.transaction(FAQ_STORE, 'readonly').objectStore(FAQ_STORE).get(botId));
+  return faq ?? null;
+};
+
+/**
+ * Saves the FAQ of a bot, replacing the previous one.
+ * @param {Faq} faq - The FAQ to save.
+ * @returns {Promise<void>}
+ */
+export const saveFaq = async (faq: Faq): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(FAQ_STORE, 'readwrite').objectStore(FAQ_STORE).put(faq));
+};
+
+/**
+ * Loads a cached model response.
+ * @param {string} key - The cache key.
+ * @returns {Promise<CachedResponse | undefined>} The cached response, if any.
+ */
+export const loadCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest<CachedResponse | undefined>(db.transaction(ANSWER_CACHE_STORE, 'readonly').objectStore(ANSWER_CACHE_STORE).get(key));
+};
+
+/**
+ * Saves a model response in the cache, replacing any response with the same key.
+ * @param {CachedResponse} response - The response to cache.
+ * @returns {Promise<void>}
+ */
+export const saveCachedResponse = async (response: CachedResponse): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(ANSWER_CACHE_STORE, 'readwrite').objectStore(ANSWER_CACHE_STORE).put(response));
+};
+
+/**
+ * Deletes a cached model response.
+ * @param {string} key - The cache key.
+ * @returns {Promise<void>}
+ */
+export const deleteCachedResponse = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(ANSWER_CACHE_STORE, 'readwrite').objectStore(ANSWER_CACHE_STORE).delete(key));
+};
+
+/**
+ * Counts the cached model responses of a bot.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<number>} The number of cached responses.
+ */
+export const countCachedResponses = async (botId: string): Promise<number> => {
+  const db = await openDatabase();
+  const index = db.transaction(ANSWER_CACHE_STORE, 'readonly').objectStore(ANSWER_CACHE_STORE).index('botId');
+  return promisifyRequest<number>(index.count(botId));
+};
+
+/**
+ * Deletes all the cached model responses of a bot.
+ * @param {string} botId - The ID of the bot.
+ * @returns {Promise<void>}
+ */
+export const clearCachedResponses = async (botId: string): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(ANSWER_CACHE_STORE, 'readwrite').objectStore(ANSWER_CACHE_STORE);
+  const keys = await promisifyRequest<IDBValidKey[]>(store.index('botId').getAllKeys(botId));
+  await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+};
+
+/**
+ * Reports how much storage the application uses and how much the browser allows.
+ * It also asks the browser to keep the data persistent so it is not evicted under storage pressure.
+ * @returns {Promise<StorageEstimate | null>} The estimate, or null if the browser does not support it.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  if (navigator.storage.persist) {
+    await navigator.storage.persist().catch(() => false);
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,189 @@
+import { AnswerConfidence } from '../types';
+import { JsonSchema } from './llmProvider';
+import { CitedSource } from './citationService';
+
+// The most follow-up questions kept from an answer.
+const MAX_FOLLOW_UPS = 3;
+const CONFIDENCE_LEVELS: AnswerConfidence[] = ['high', 'medium', 'low'];
+
+/**
+ * @interface StructuredAnswer
+ * The answer of the model, as described by `ANSWER_SCHEMA`.
+ * @property {string} answer - The answer for the employee, without citations.
+ * @property {boolean} grounded - Whether the answer is based on the documents; false when the information was not found.
+ * @property {AnswerConfidence} confidence - How confident the model is that the answer is right and complete.
+ * @property {CitedSource[]} sources - The passages the answer is based on.
+ * @property {string[]} followUps - Questions the employee could ask next.
+ */
+export interface StructuredAnswer {
+  answer: string;
+  grounded: boolean;
+  confidence: AnswerConfidence;
+  sources: CitedSource[];
+  followUps: string[];
+}
+
+/**
+ * An error thrown when the response of the model does not follow `ANSWER_SCHEMA`.
+ */
+export class AnswerFormatError extends Error {
+  constructor(message: string) {
+    super(`La respuesta del modelo no tiene el formato esperado: ${message}`);
+    this.name = 'AnswerFormatError';
+  }
+}
+
+// The answer comes first, so that it can be shown while the rest of the response is still being streamed.
+export const ANSWER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    grounded: { type: 'boolean' },
+    confidence: { type: 'string', enum: CONFIDENCE_LEVELS },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          document: { type: 'string' },
+          section: { type: 'string' },
+          quote: { type: 'string' },
+        },
+        required: ['document', 'section', 'quote'],
+        additionalProperties: false,
+      },
+    },
+    followUps: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['answer', 'grounded', 'confidence', 'sources', 'followUps'],
+  additionalProperties: false,
+};
+
+/**
+ * The instruction that describes each field of `ANSWER_SCHEMA` to the model.
+ */
+export const ANSWER_FORMAT_INSTRUCTION = `Responde siempre con un objeto JSON con estos campos:
+- "answer": la respuesta para el empleado, sin citas. Si la sección de un bloque es una página (p. ej. "Página 12"), menciona la página en la respuesta.
+- "grounded": true si la respuesta se basa en los bloques "--- INICIO DEL DOCUMENTO ---" o en las imágenes que recibiste; false si no encontraste la información en ellos.
+- "confidence": "high", "medium" o "low", según lo seguro que estés de que la respuesta es correcta y completa.
+- "sources": una entrada por cada bloque utilizado, con "document" (nombre del documento), "section" (sección indicada en el bloque) y "quote" (cita textual breve copiada del documento). No inventes citas ni documentos; si no usaste ningún documento, deja la lista vacía.
+- "followUps": hasta ${MAX_FOLLOW_UPS} preguntas breves que el empleado podría hacer a continuación y que los documentos puedan responder, en el idioma de la respuesta.`;
+
+/**
+ * A JSON object whose fields have not been validated yet.
+ */
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Removes the Markdown code fence some models wrap JSON responses with.
+ * @param {string} raw - The raw response.
+ * @returns {string} The response without the fence.
+ */
+export const stripCodeFence = (raw: string): string => raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Parses a JSON response of the model, which may be wrapped in a code fence.
+ * @param {string} raw - The raw response.
+ * @returns {unknown} The parsed value, to be narrowed by the caller, or undefined if the response is not JSON.
+ */
+export const parseJsonResponse = (raw: string): unknown => {
+  try {
+    return JSON.parse(stripCodeFence(raw));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Tells whether a value is a JSON object, so that its fields can be read and checked one by one.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether the value is an object other than an array.
+ */
+export const isJsonObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Tells whether a value is an array of strings.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether the value is an array of strings.
+ */
+export const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Tells whether a value is a source as the model cites it.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether the value has a document, a section and a quote.
+ */
+const isCitedSource = (value: unknown): value is CitedSource =>
+  isJsonObject(value) && typeof value.document === 'string' && typeof value.section === 'string' && typeof value.quote === 'string';
+
+/**
+ * Reads a source cited by the model, leaving out the fields that are missing or not text.
+ * @param {unknown} value - The value.
+ * @returns {CitedSource} The source, with empty fields where they were missing.
+ */
+export const readCitedSource = (value: unknown): CitedSource => {
+  const source = isJsonObject(value) ? value : {};
+  return {
+    document: typeof source.document === 'string' ? source.document : '',
+    section: typeof source.section === 'string' ? source.section : '',
+    quote: typeof source.quote === 'string' ? source.quote : '',
+  };
+};
+
+/**
+ * Parses and validates a structured answer.
+ * @param {string} raw - The raw response of the model.
+ * @returns {StructuredAnswer} The structured answer.
+ * @throws {AnswerFormatError} If the response is not JSON or does not follow `ANSWER_SCHEMA`.
+ */
+export const parseStructuredAnswer = (raw: string): StructuredAnswer => {
+  const data = parseJsonResponse(raw);
+  if (data === undefined) throw new AnswerFormatError('no es JSON válido.');
+  if (!isJsonObject(data)) throw new AnswerFormatError('no es un objeto.');
+  if (typeof data.answer !== 'string' || !data.answer.trim()) throw new AnswerFormatError('falta "answer".');
+  if (typeof data.grounded !== 'boolean') throw new AnswerFormatError('falta "grounded".');
+  const confidence = CONFIDENCE_LEVELS.find(level => level === data.confidence);
+  if (!confidence) throw new AnswerFormatError('"confidence" no es válido.');
+  if (!Array.isArray(data.sources) || !data.sources.every(isCitedSource)) throw new AnswerFormatError('"sources" no es válido.');
+  if (!isStringArray(data.followUps)) throw new AnswerFormatError('"followUps" no es válido.');
+
+  return {
+    answer: data.answer.trim(),
+    grounded: data.grounded,
+    confidence,
+    sources: data.sources.map(({ document, section, quote }: CitedSource) => ({ document, section, quote })),
+    followUps: data.followUps.map(question => question.trim()).filter(Boolean).slice(0, MAX_FOLLOW_UPS),
+  };
+};
+
+/**
+ * Reads the "answer" field of a structured answer that is still being streamed, so it can be shown as it arrives.
+ * An escape sequence cut at the end of the text is left out until the rest arrives.
+ * @param {string} raw - The part of the response received so far.
+ * @returns {string} The text of the answer received so far.
+ */
+export const extractPartialAnswer = (raw: string): string => {
+  const start = /"answer"\s*:\s*"/.exec(raw);
+  if (!start) return '';
+  let text = '';
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    const escaped = raw[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const code = raw.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(code)) break;
+      text += String.fromCharCode(parseInt(code, 16));
+      i += 5;
+      continue;
+    }
+    text += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+    i += 1;
+  }
+  return text;
+};
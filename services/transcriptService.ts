@@ -0,0 +1,184 @@
+import { Bot, Citation, KnowledgeItem, Message } from '../types';
+
+/**
+ * The file formats a conversation can be exported to.
+ * 'markdown': A Markdown document, easy to paste in an email or a ticket.
+ * 'json': The raw messages, to attach to an HR case or process with other tools.
+ * 'html': A print-ready page, to save as PDF from the browser.
+ */
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+/**
+ * @interface TranscriptMessage
+ * A message as it appears in an exported transcript. The chunks sent to the model are left out.
+ * @property {'user' | 'model'} role - Who wrote the message.
+ * @property {string} text - The text of the message.
+ * @property {string} [imageUrl] - The generated image, as a data URL.
+ * @property {Citation[]} [citations] - The passages the message is based on.
+ */
+export interface TranscriptMessage {
+  role: 'user' | 'model';
+  text: string;
+  imageUrl?: string;
+  citations?: Citation[];
+}
+
+/**
+ * @interface Transcript
+ * @property {string} title - The title of the conversation.
+ * @property {string} botName - The name of the bot.
+ * @property {string} exportedAt - When the transcript was exported, as an ISO date.
+ * @property {string} [startedAt] - When the conversation started, as an ISO date, if it was saved.
+ * @property {string[]} knowledgeItems - The names of the documents in the bot's memory when the transcript was exported.
+ * @property {TranscriptMessage[]} messages - The messages of the conversation.
+ */
+export interface Transcript {
+  title: string;
+  botName: string;
+  exportedAt: string;
+  startedAt?: string;
+  knowledgeItems: string[];
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Creates the transcript of a conversation.
+ * @param {Bot} bot - The bot the conversation was held with.
+ * @param {string} title - The title of the conversation.
+ * @param {Message[]} messages - The messages of the conversation.
+ * @param {KnowledgeItem[]} knowledgeBase - The bot's knowledge items.
+ * @param {number} [startedAt] - When the conversation started, in milliseconds since the epoch.
+ * @returns {Transcript} The transcript.
+ */
+export const createTranscript = (bot: Bot, title: string, messages: Message[], knowledgeBase: KnowledgeItem[], startedAt?: number): Transcript => ({
+  title,
+  botName: bot.name,
+  exportedAt: new Date().toISOString(),
+  ...(startedAt && { startedAt: new Date(startedAt).toISOString() }),
+  knowledgeItems: knowledgeBase.map(item => item.name),
+  messages: messages
+    .filter(m => m.text || m.imageUrl)
+    .map(({ role, text, imageUrl, citations }) => ({
+      role,
+      text,
+      ...(imageUrl && { imageUrl }),
+      ...(citations?.length && { citations }),
+    })),
+});
+
+/**
+ * Formats an ISO date for people reading the transcript.
+ * @param {string} date - The ISO date.
+ * @returns {string} The formatted date and time.
+ */
+const formatDate = (date: string): string => new Date(date).toLocaleString('es', { dateStyle: 'long', timeStyle: 'short' });
+
+/**
+ * Formats a citation on a single line.
+ * @param {Citation} citation - The citation.
+ * @returns {string} The document, its location and the quoted passage.
+ */
+const formatCitation = (citation: Citation): string =>
+  `${citation.itemName}${citation.location ? ` · ${citation.location}` : ''} — "${citation.quote}"`;
+
+/**
+ * Renders a transcript as Markdown.
+ * @param {Transcript} transcript - The transcript.
+ * @returns {string} The Markdown document.
+ */
+export const transcriptToMarkdown = (transcript: Transcript): string => {
+  const lines = [
+    `# ${transcript.title}`,
+    '',
+    `- **Asistente:** ${transcript.botName}`,
+    ...(transcript.startedAt ? [`- **Inicio:** ${formatDate(transcript.startedAt)}`] : []),
+    `- **Exportado:** ${formatDate(transcript.exportedAt)}`,
+    '',
+    '## Documentos en la memoria',
+    '',
+    ...(transcript.knowledgeItems.length ? transcript.knowledgeItems.map(name => `- ${name}`) : ['_Ninguno_']),
+    '',
+    '## Conversación',
+  ];
+  transcript.messages.forEach(message => {
+    lines.push('', `### ${message.role === 'user' ? 'Empleado' : transcript.botName}`, '');
+    if (message.text) lines.push(message.text);
+    if (message.imageUrl) lines.push('', `![Imagen generada](${message.imageUrl})`);
+    if (message.citations) {
+      lines.push('', '**Fuentes:**', '', ...message.citations.map((citation, i) => `${i + 1}. ${formatCitation(citation)}`));
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Renders a transcript as JSON.
+ * @param {Transcript} transcript - The transcript.
+ * @returns {string} The JSON document.
+ */
+export const transcriptToJson = (transcript: Transcript): string => JSON.stringify(transcript, null, 2);
+
+/**
+ * Escapes text for use in HTML.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders a transcript as a standalone HTML page laid out for printing, with a button to print it
+ * or save it as PDF that is hidden on paper.
+ * @param {Transcript} transcript - The transcript.
+ * @returns {string} The HTML document.
+ */
+export const transcriptToHtml = (transcript: Transcript): string => {
+  const messages = transcript.messages.map(message => `
+    <section class="message ${message.role}">
+      <h3>${escapeHtml(message.role === 'user' ? 'Empleado' : transcript.botName)}</h3>
+      ${message.text ? `<p>${escapeHtml(message.text)}</p>` : ''}
+      ${message.imageUrl ? `<img src="${escapeHtml(message.imageUrl)}" alt="Imagen generada">` : ''}
+      ${message.citations ? `<ol class="citations">${message.citations.map(c => `<li>${escapeHtml(formatCitation(c))}</li>`).join('')}</ol>` : ''}
+    </section>`).join('');
+  const documents = transcript.knowledgeItems.length
+    ? `<ul>${transcript.knowledgeItems.map(name => `<li>${escapeHtml(name)}</li>`).join('')}</ul>`
+    : '<p><em>Ninguno</em></p>';
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(transcript.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; line-height: 1.5; }
+  header { border-bottom: 2px solid #d1d5db; margin-bottom: 1.5rem; }
+  .meta { color: #4b5563; font-size: 0.9rem; }
+  .message { padding: 0.75rem 1rem; margin: 0.75rem 0; border-radius: 0.5rem; break-inside: avoid; }
+  .message.user { background: #eff6ff; }
+  .message.model { background: #f3f4f6; }
+  .message h3 { margin: 0 0 0.25rem; font-size: 0.9rem; }
+  .message p { margin: 0; white-space: pre-wrap; }
+  .message img { max-width: 100%; margin-top: 0.5rem; }
+  .citations { margin: 0.5rem 0 0; font-size: 0.8rem; color: #4b5563; }
+  .toolbar { text-align: right; }
+  @media print { .toolbar { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Imprimir o guardar como PDF</button></div>
+<header>
+  <h1>${escapeHtml(transcript.title)}</h1>
+  <p class="meta">
+    Asistente: ${escapeHtml(transcript.botName)}<br>
+    ${transcript.startedAt ? `Inicio: ${escapeHtml(formatDate(transcript.startedAt))}<br>` : ''}
+    Exportado: ${escapeHtml(formatDate(transcript.exportedAt))}
+  </p>
+  <h2>Documentos en la memoria</h2>
+  ${documents}
+</header>
+<h2>Conversación</h2>
+${messages}
+</body>
+</html>
+`;
+};
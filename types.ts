@@ -5,6 +5,9 @@
  * @property {string} image - The URL of the bot's avatar image.
  * @property {string} themeColor - The primary theme color for the bot's UI elements.
  * @property {string} darkThemeColor - The darker shade of the theme color, for hover effects.
+ * @property {string} [welcomeMessage] - The message that opens every conversation; a default greeting is used when empty.
+ * @property {string} [persona] - The personality and tone of the bot, e.g. "una asistente cercana que tutea a los empleados".
+ * @property {string} [rules] - Extra company rules added to the bot's system instruction.
  */
 export interface Bot {
   id: string;
@@ -12,6 +15,32 @@ export interface Bot {
   image: string;
   themeColor: string;
   darkThemeColor: string;
+  welcomeMessage?: string;
+  persona?: string;
+  rules?: string;
+}
+
+/**
+ * @type Role
+ * Who is using the app.
+ * 'admin': The HR team, who curates the knowledge base and the bots.
+ * 'employee': An employee, who can only chat and read the documents.
+ */
+export type Role = 'admin' | 'employee';
+
+/**
+ * The part of a bot that shapes its answers, sent with every request to the model.
+ */
+export type BotPersona = Pick<Bot, 'name' | 'persona' | 'rules'>;
+
+/**
+ * @interface KnowledgePage
+ * @property {number} pageNumber - The number of the page in the original document, starting at 1.
+ * @property {string} text - The text of the page.
+ */
+export interface KnowledgePage {
+  pageNumber: number;
+  text: string;
 }
 
 /**
@@ -21,6 +50,7 @@ export interface Bot {
  * @property {'text' | 'image'} type - The type of the knowledge item.
  * @property {string} content - The content of the knowledge item. For text, it's the raw text. For images, it's a base64 data URL.
  * @property {string} [mimeType] - The MIME type of the knowledge item, required for images (e.g., 'image/jpeg').
+ * @property {KnowledgePage[]} [pages] - The text of each page, for documents with pages such as PDFs. The content is the pages joined by blank lines.
  */
 export interface KnowledgeItem {
   id: string;
@@ -28,8 +58,49 @@ export interface KnowledgeItem {
   type: 'text' | 'image';
   content: string; // Text content or base64 data URL for images
   mimeType?: string; // e.g., 'image/jpeg'
+  pages?: KnowledgePage[];
 }
 
+/**
+ * @interface KnowledgeChunk
+ * @property {string} id - The unique identifier for the chunk (`<itemId>:<index>`).
+ * @property {string} itemId - The ID of the knowledge item the chunk was taken from.
+ * @property {string} itemName - The name of the knowledge item the chunk was taken from.
+ * @property {number} index - The position of the chunk inside its knowledge item.
+ * @property {string} text - The text content of the chunk.
+ * @property {number} [pageNumber] - The page the chunk was taken from, for documents with pages.
+ * @property {number} [score] - The relevance score assigned during retrieval.
+ */
+export interface KnowledgeChunk {
+  id: string;
+  itemId: string;
+  itemName: string;
+  index: number;
+  text: string;
+  pageNumber?: number;
+  score?: number;
+}
+
+/**
+ * @interface Citation
+ * @property {string} itemId - The ID of the cited knowledge item.
+ * @property {string} itemName - The name of the cited knowledge item.
+ * @property {string} location - The page or section of the item where the passage is found.
+ * @property {string} quote - The quoted passage from the item.
+ */
+export interface Citation {
+  itemId: string;
+  itemName: string;
+  location: string;
+  quote: string;
+}
+
+/**
+ * @type AnswerConfidence
+ * How confident the model is that its answer is right and complete, as reported in its structured answer.
+ */
+export type AnswerConfidence = 'high' | 'medium' | 'low';
+
 /**
  * @interface Message
  * @property {string} id - The unique identifier for the message.
@@ -37,6 +108,15 @@ export interface KnowledgeItem {
  * @property {string} text - The text content of the message.
  * @property {string} [imageUrl] - An optional URL for an image to be displayed with the message.
  * @property {string} [relatedQuestionId] - The ID of the user's message to which this message is a response.
+ * @property {KnowledgeChunk[]} [sourceChunks] - The knowledge chunks that were sent to the model to produce this message.
+ * @property {Citation[]} [citations] - The passages of the knowledge base that the message is based on.
+ * @property {MessageFeedback} [feedback] - The user's rating of a model answer.
+ * @property {string} [caseId] - The HR case the message is about, for escalation notices and answers from HR.
+ * @property {string[]} [omittedItems] - The knowledge items left out of the context because it exceeded the model's limit.
+ * @property {boolean} [grounded] - Whether the model found the answer in the documents; unknown for answers that were not structured.
+ * @property {AnswerConfidence} [confidence] - How confident the model is in the answer.
+ * @property {string[]} [followUps] - Questions the model suggests asking next.
+ * @property {ActionType} [actionId] - The action that produced the message, which picks how it is rendered.
  */
 export interface Message {
   id: string;
@@ -44,13 +124,267 @@ export interface Message {
   text: string;
   imageUrl?: string;
   relatedQuestionId?: string;
+  sourceChunks?: KnowledgeChunk[];
+  citations?: Citation[];
+  feedback?: MessageFeedback;
+  caseId?: string;
+  omittedItems?: string[];
+  grounded?: boolean;
+  confidence?: AnswerConfidence;
+  followUps?: string[];
+  actionId?: ActionType;
+}
+
+/**
+ * @type FeedbackRating
+ * 'up': The answer was useful.
+ * 'down': The answer was wrong, incomplete or unhelpful.
+ */
+export type FeedbackRating = 'up' | 'down';
+
+/**
+ * @interface MessageFeedback
+ * @property {FeedbackRating} rating - Whether the answer was useful.
+ * @property {string} [comment] - What was wrong or missing, in the user's words.
+ */
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+/**
+ * @interface Feedback
+ * A rating of a model answer, saved with what is needed to review it later.
+ * @property {string} id - The ID of the rated message; rating a message again replaces its feedback.
+ * @property {string} botId - The ID of the bot that answered.
+ * @property {string} sessionId - The ID of the conversation.
+ * @property {FeedbackRating} rating - Whether the answer was useful.
+ * @property {string} [comment] - What was wrong or missing, in the user's words.
+ * @property {string} question - The question that was answered.
+ * @property {string} answer - The rated answer.
+ * @property {Citation[]} [citations] - The passages the answer was based on.
+ * @property {string[]} knowledgeSnapshot - The names of the documents in the bot's memory when the answer was rated.
+ * @property {number} createdAt - When the answer was rated, in milliseconds since the epoch.
+ */
+export interface Feedback {
+  id: string;
+  botId: string;
+  sessionId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  question: string;
+  answer: string;
+  citations?: Citation[];
+  knowledgeSnapshot: string[];
+  createdAt: number;
+}
+
+/**
+ * @interface ChatSession
+ * @property {string} id - The unique identifier for the session.
+ * @property {string} botId - The ID of the bot the conversation was held with.
+ * @property {string} title - The title of the session, generated from the first question and editable by the user.
+ * @property {number} createdAt - The time the session was created, in milliseconds since the epoch.
+ * @property {number} updatedAt - The time the session was last changed, in milliseconds since the epoch.
+ * @property {Message[]} messages - The messages of the conversation.
+ */
+export interface ChatSession {
+  id: string;
+  botId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+}
+
+/**
+ * @interface GeneratedAnswer
+ * @property {string} text - The text generated by the model.
+ * @property {KnowledgeChunk[]} chunks - The knowledge chunks that were used as context.
+ * @property {Citation[]} citations - The passages the model cited in its answer.
+ * @property {string[]} [omittedItems] - The knowledge items left out of the context because it exceeded the model's limit.
+ * @property {boolean} [grounded] - Whether the model found the answer in the documents; unknown if the model did not return a structured answer.
+ * @property {AnswerConfidence} [confidence] - How confident the model is in the answer.
+ * @property {string[]} [followUps] - Questions the model suggests asking next.
+ */
+export interface GeneratedAnswer {
+  text: string;
+  chunks: KnowledgeChunk[];
+  citations: Citation[];
+  omittedItems?: string[];
+  grounded?: boolean;
+  confidence?: AnswerConfidence;
+  followUps?: string[];
 }
 
 /**
  * @type ActionType
- * Represents the possible follow-up actions a user can take on a model's message.
- * 'explain': Request a different explanation of the same concept.
- * 'example': Request a concrete example related to the message.
- * 'image': Request a visual representation of the concept.
+ * The ID of a follow-up action a user can take on a model's message, e.g. 'explain', 'summarize' or 'escalate'.
+ * The available actions are defined in the action registry (`services/actionRegistry.ts`).
+ */
+export type ActionType = string;
+
+/**
+ * @type CaseCategory
+ * The topic of an HR case, used to route it to the right person.
+ */
+export type CaseCategory = 'nomina' | 'vacaciones' | 'beneficios' | 'contrato' | 'otro';
+
+/**
+ * @interface EmployeeContact
+ * @property {string} name - The employee's name.
+ * @property {string} email - The employee's email address.
+ * @property {string} [phone] - The employee's phone number.
+ */
+export interface EmployeeContact {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+/**
+ * @interface HrCase
+ * A question escalated from a conversation to the HR team.
+ * @property {string} id - The unique identifier for the case.
+ * @property {string} botId - The ID of the bot of the conversation.
+ * @property {string} sessionId - The ID of the conversation, where HR's answer is added.
+ * @property {CaseCategory} category - The topic of the case.
+ * @property {EmployeeContact} contact - How to reach the employee.
+ * @property {string} question - The question the bot could not answer.
+ * @property {string} [note] - Extra details written by the employee.
+ * @property {{ role: 'user' | 'model'; text: string }[]} context - The conversation up to the escalated answer.
+ * @property {'open' | 'answered'} status - Whether HR has answered the case.
+ * @property {number} createdAt - When the case was created, in milliseconds since the epoch.
+ * @property {string} [answer] - HR's answer.
+ * @property {number} [answeredAt] - When HR answered, in milliseconds since the epoch.
+ */
+export interface HrCase {
+  id: string;
+  botId: string;
+  sessionId: string;
+  category: CaseCategory;
+  contact: EmployeeContact;
+  question: string;
+  note?: string;
+  context: { role: 'user' | 'model'; text: string }[];
+  status: 'open' | 'answered';
+  createdAt: number;
+  answer?: string;
+  answeredAt?: number;
+}
+
+/**
+ * @interface CachedResponse
+ * A model response kept in the answer cache, so the same question about the same knowledge is not sent twice.
+ * @property {string} key - The cache key: the kind, the bot, the knowledge snapshot and the normalized request.
+ * @property {string} botId - The ID of the bot that produced the response.
+ * @property {'answer' | 'image'} kind - Whether the response is an answer or a generated image.
+ * @property {GeneratedAnswer} [answer] - The answer, for 'answer' entries.
+ * @property {string} [imageUrl] - The image as a data URL, for 'image' entries.
+ * @property {number} createdAt - When the response was generated, in milliseconds since the epoch.
+ */
+export interface CachedResponse {
+  key: string;
+  botId: string;
+  kind: 'answer' | 'image';
+  answer?: GeneratedAnswer;
+  imageUrl?: string;
+  createdAt: number;
+}
+
+/**
+ * @interface QuizQuestion
+ * A multiple-choice question of a training quiz, generated from the knowledge base.
+ * @property {string} id - The unique identifier for the question.
+ * @property {string} question - The question.
+ * @property {string[]} options - The possible answers.
+ * @property {number} answerIndex - The position of the right option in `options`: the answer key.
+ * @property {string} explanation - Why the right option is right, shown once the quiz is scored.
+ * @property {Citation} [source] - The passage the question is based on, when it was found in the documents.
+ */
+export interface QuizQuestion {
+  id: string;
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+  source?: Citation;
+}
+
+/**
+ * @interface Quiz
+ * A training quiz generated from some of the documents of a bot, e.g. the code of conduct for new hires.
+ * @property {string} id - The unique identifier for the quiz.
+ * @property {string} botId - The ID of the bot whose documents the quiz is about.
+ * @property {string[]} itemNames - The names of the documents the quiz was generated from.
+ * @property {string[]} [omittedItems] - The chosen documents left out, in whole or in part, because they exceeded the model's or the server's limit.
+ * @property {QuizQuestion[]} questions - The questions.
+ * @property {number} createdAt - When the quiz was generated, in milliseconds since the epoch.
+ */
+export interface Quiz {
+  id: string;
+  botId: string;
+  itemNames: string[];
+  omittedItems?: string[];
+  questions: QuizQuestion[];
+  createdAt: number;
+}
+
+/**
+ * @interface QuizResult
+ * An employee's attempt at a quiz, kept for HR review.
+ * @property {string} id - The unique identifier for the result.
+ * @property {string} botId - The ID of the bot of the quiz.
+ * @property {EmployeeContact} employee - Who took the quiz.
+ * @property {Quiz} quiz - The quiz, with its questions and answer key.
+ * @property {(number | null)[]} answers - The option chosen for each question, or null if it was left blank.
+ * @property {number} score - The number of right answers.
+ * @property {number} completedAt - When the quiz was handed in, in milliseconds since the epoch.
  */
-export type ActionType = 'explain' | 'example' | 'image';
+export interface QuizResult {
+  id: string;
+  botId: string;
+  employee: EmployeeContact;
+  quiz: Quiz;
+  answers: (number | null)[];
+  score: number;
+  completedAt: number;
+}
+
+/**
+ * @interface FaqEntry
+ * A frequently asked question about a bot's documents, generated from its knowledge base.
+ * @property {string} id - The unique identifier for the entry.
+ * @property {string} question - The question.
+ * @property {string} answer - A short answer based on the documents.
+ * @property {Citation} [source] - The passage the answer is based on, when it was found in the documents.
+ * @property {boolean} [pinned] - Whether HR pinned the entry, which lists it first and keeps it when the FAQ is regenerated.
+ * @property {boolean} [hidden] - Whether HR hid the entry from employees.
+ */
+export interface FaqEntry {
+  id: string;
+  question: string;
+  answer: string;
+  source?: Citation;
+  pinned?: boolean;
+  hidden?: boolean;
+}
+
+/**
+ * @interface Faq
+ * The FAQ of a bot, regenerated whenever its knowledge changes.
+ * @property {string} botId - The ID of the bot.
+ * @property {string} snapshot - The snapshot of the bot and its knowledge the FAQ was generated from.
+ * @property {string} language - The language the FAQ was written in, named in Spanish (e.g. "inglés").
+ * @property {FaqEntry[]} entries - The entries, in the order the model wrote them.
+ * @property {string[]} [omittedItems] - The documents left out, in whole or in part, because they exceeded the model's or the server's limit.
+ * @property {number} generatedAt - When the FAQ was generated, in milliseconds since the epoch.
+ */
+export interface Faq {
+  botId: string;
+  snapshot: string;
+  language: string;
+  entries: FaqEntry[];
+  omittedItems?: string[];
+  generatedAt: number;
+}
@@ -4,15 +4,39 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API server holds the model keys; the browser only talks to it through /api.
+    // Only CLIENT_-prefixed settings and the public URLs API_URL and BOTS_CONFIG_URL are inlined in the bundle;
+    // none of them is a key. The two URLs keep their names so that existing deployments keep working.
+    const apiProxy = {
+      '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_URL': JSON.stringify(env.API_URL),
+        'process.env.BOTS_CONFIG_URL': JSON.stringify(env.BOTS_CONFIG_URL),
+        'process.env.ANSWER_CACHE_TTL_HOURS': JSON.stringify(env.CLIENT_ANSWER_CACHE_TTL_HOURS),
+        'process.env.CASE_SINK': JSON.stringify(env.CLIENT_CASE_SINK),
+        'process.env.CASE_EMAIL_TO': JSON.stringify(env.CLIENT_CASE_EMAIL_TO),
+        'process.env.CASE_WEBHOOK_URL': JSON.stringify(env.CLIENT_CASE_WEBHOOK_URL),
+        'process.env.CONTEXT_TOKEN_LIMIT': JSON.stringify(env.CLIENT_CONTEXT_TOKEN_LIMIT),
+        'process.env.CONTEXT_OVERFLOW': JSON.stringify(env.CLIENT_CONTEXT_OVERFLOW),
+        'process.env.REDACTION_RULES': JSON.stringify(env.CLIENT_REDACTION_RULES),
+        'process.env.REDACTION_CUSTOM_RULES': JSON.stringify(env.CLIENT_REDACTION_CUSTOM_RULES),
+        'process.env.REDACTION_RESTORE': JSON.stringify(env.CLIENT_REDACTION_RESTORE),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.CLIENT_LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.CLIENT_OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.CLIENT_OPENAI_MODEL),
+        'process.env.OPENAI_EMBEDDING_MODEL': JSON.stringify(env.CLIENT_OPENAI_EMBEDDING_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.CLIENT_OPENAI_IMAGE_MODEL)
       },
       resolve: {
         alias: {